@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { updateAttendance } from '../lib/attendance';
+import { fromDateTimeInput, toDateTimeInput } from '../lib/datetime';
+
+interface AttendanceEditorProps {
+  signup: {
+    id: string;
+    checked_in_at: string | null;
+    checked_out_at: string | null;
+  };
+  timeZone: string;
+  onClose: () => void;
+}
+
+// Times are entered as wall-clock time in the event's zone; leave a field
+// blank to clear it
+export function AttendanceEditor({ signup, timeZone, onClose }: AttendanceEditorProps) {
+  const queryClient = useQueryClient();
+  const [checkedIn, setCheckedIn] = useState(
+    signup.checked_in_at ? toDateTimeInput(signup.checked_in_at, timeZone) : ''
+  );
+  const [checkedOut, setCheckedOut] = useState(
+    signup.checked_out_at ? toDateTimeInput(signup.checked_out_at, timeZone) : ''
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      updateAttendance(signup.id, {
+        checked_in_at: checkedIn ? fromDateTimeInput(checkedIn, timeZone) : null,
+        checked_out_at: checkedOut ? fromDateTimeInput(checkedOut, timeZone) : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      toast.success('Times updated');
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update times');
+    },
+  });
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 rounded-md space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-xs font-medium text-gray-700">
+          Checked in
+          <input
+            type="datetime-local"
+            value={checkedIn}
+            onChange={(e) => setCheckedIn(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          />
+        </label>
+        <label className="block text-xs font-medium text-gray-700">
+          Checked out
+          <input
+            type="datetime-local"
+            value={checkedOut}
+            onChange={(e) => setCheckedOut(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="px-3 py-1 border border-transparent rounded-md text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
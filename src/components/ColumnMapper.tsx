@@ -0,0 +1,48 @@
+import React from 'react';
+import { ColumnMapping, RawSignUpData, SignUpField } from '../types';
+import { SIGN_UP_FIELDS } from '../lib/signUpImport';
+
+interface ColumnMapperProps {
+  headers: string[];
+  rows: RawSignUpData[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, rows, mapping, onChange }) => {
+  const sample = rows.slice(0, 3);
+
+  const setField = (field: SignUpField, header: string) => {
+    onChange({ ...mapping, [field]: header });
+  };
+
+  return (
+    <div className="space-y-4">
+      {SIGN_UP_FIELDS.map((field) => (
+        <div key={field.key} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+          <label className="text-sm font-medium text-gray-700">
+            {field.label}
+            {field.required && <span className="text-red-500 ml-1">*</span>}
+          </label>
+          <select
+            value={mapping[field.key]}
+            onChange={(e) => setField(field.key, e.target.value)}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">Not in this file</option>
+            {headers.map((header) => (
+              <option key={header} value={header}>
+                {header}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 truncate">
+            {mapping[field.key]
+              ? sample.map(row => row[mapping[field.key]]).filter(Boolean).join(' · ') || 'No sample values'
+              : ''}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,11 +1,21 @@
 import React from 'react';
 import { StructuredSignUpData } from '../types';
+import { ImportRowDiff, ImportRowStatus } from '../lib/importBatches';
 
 interface DataTableProps {
   data: StructuredSignUpData[];
+  positionNames?: Record<string, string>;
+  diff?: Record<number, ImportRowDiff>;
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ data }) => {
+const statusStyles: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Duplicate', className: 'bg-gray-100 text-gray-800' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+};
+
+export const DataTable: React.FC<DataTableProps> = ({ data, positionNames = {}, diff }) => {
   if (!data.length) return null;
 
   return (
@@ -13,30 +23,45 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           <tr>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Position ID</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Position</th>
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Volunteer Name</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Start Date</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Start Time</th>
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">End Time</th>
-            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Arrived</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
           {data.map((row, index) => (
-            <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.position_ID}</td>
+            <tr key={row.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.id}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.item}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                {row.position_id ? positionNames[row.position_id] ?? row.position_id : '—'}
+              </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.volunteer_name}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.volunteer_email}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.phone_number}</td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.start_date}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.start_datetime}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.end_datetime}</td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                <input 
-                  type="checkbox" 
-                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
-                  disabled
-                />
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.start_time}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{row.end_time}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                {diff?.[row.id] ? (
+                  <div>
+                    <span className={`inline-flex px-2 py-0.5 rounded text-xs ${statusStyles[diff[row.id].status].className}`}>
+                      {statusStyles[diff[row.id].status].label}
+                    </span>
+                    {diff[row.id].details.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">{diff[row.id].details.join(', ')}</p>
+                    )}
+                  </div>
+                ) : row.errors.length === 0 ? (
+                  <span className="text-green-600">Ready</span>
+                ) : (
+                  <span className="text-red-600">{row.errors.join(', ')}</span>
+                )}
               </td>
             </tr>
           ))}
@@ -44,4 +69,4 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
       </table>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { duplicateEvent } from '../lib/templates';
+import { fromDateTimeInput, toDateTimeInput } from '../lib/datetime';
+
+interface DuplicateEventFormProps {
+  event: {
+    id: string;
+    name: string;
+    starts_at: string;
+    timezone: string;
+  };
+  onClose: () => void;
+}
+
+// 52 weeks on, so a yearly event lands on the same weekday
+const NEXT_YEAR_MS = 364 * 24 * 60 * 60 * 1000;
+
+export function DuplicateEventForm({ event, onClose }: DuplicateEventFormProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(`${event.name} (copy)`);
+  const [startsAt, setStartsAt] = useState(() =>
+    toDateTimeInput(new Date(Date.parse(event.starts_at) + NEXT_YEAR_MS).toISOString(), event.timezone)
+  );
+  const [includeSignups, setIncludeSignups] = useState(false);
+
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        return await duplicateEvent(event.id, name.trim(), fromDateTimeInput(startsAt, event.timezone), includeSignups);
+      } catch (error) {
+        console.error('Error duplicating event:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success('Event duplicated successfully');
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to duplicate event');
+    },
+  });
+
+  return (
+    <div className="mt-3 p-4 bg-gray-50 rounded-md space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">New event name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Starts ({event.timezone})</label>
+          <input
+            type="datetime-local"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Positions and shift slots move by the same amount as the start time.
+      </p>
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={includeSignups}
+          onChange={(e) => setIncludeSignups(e.target.checked)}
+          className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+        />
+        Copy assigned volunteers too
+      </label>
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => duplicateMutation.mutate()}
+          disabled={!name.trim() || !startsAt || duplicateMutation.isPending}
+          className="px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+        >
+          {duplicateMutation.isPending ? 'Duplicating...' : 'Duplicate Event'}
+        </button>
+      </div>
+    </div>
+  );
+}
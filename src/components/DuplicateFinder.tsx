@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Copy, GitMerge, X } from 'lucide-react';
+import {
+  SignupDuplicateGroup,
+  SignupRecord,
+  dismissDuplicateGroup,
+  fetchDismissedPairs,
+  findDuplicateSignupGroups,
+  mergeDuplicateGroup,
+} from '../lib/duplicates';
+import { formatShift } from '../lib/datetime';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
+
+interface DuplicateSignup extends SignupRecord {
+  position: {
+    name: string;
+    event: { name: string; timezone: string };
+  };
+}
+
+export function DuplicateFinder({ signups }: { signups: DuplicateSignup[] }) {
+  const queryClient = useQueryClient();
+  const organization = useCurrentOrganization();
+  const [isOpen, setIsOpen] = useState(false);
+  const [primaryIds, setPrimaryIds] = useState<Record<string, string>>({});
+
+  const { data: dismissed } = useQuery({
+    queryKey: ['duplicate-dismissals', organization.id],
+    queryFn: async () => {
+      try {
+        return await fetchDismissedPairs(organization.id);
+      } catch (error) {
+        console.error('Error fetching dismissed duplicates:', error);
+        throw error;
+      }
+    },
+  });
+
+  const groups = useMemo(
+    () => (dismissed ? findDuplicateSignupGroups(signups, dismissed) : []),
+    [signups, dismissed]
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ group, primaryId }: { group: SignupDuplicateGroup<DuplicateSignup>; primaryId: string }) => {
+      try {
+        await mergeDuplicateGroup(group, primaryId);
+      } catch (error) {
+        console.error('Error merging volunteers:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['duplicate-dismissals', organization.id] });
+      toast.success('Volunteers merged');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to merge volunteers');
+    },
+  });
+
+  const keepApartMutation = useMutation({
+    mutationFn: async (group: SignupDuplicateGroup<DuplicateSignup>) => {
+      try {
+        await dismissDuplicateGroup(organization.id, group);
+      } catch (error) {
+        console.error('Error dismissing duplicates:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['duplicate-dismissals', organization.id] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to keep volunteers apart');
+    },
+  });
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Copy className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Possible Duplicates</h3>
+          <span className={`ml-3 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            groups.length > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+          }`}>
+            {groups.length} {groups.length === 1 ? 'group' : 'groups'}
+          </span>
+        </div>
+        {groups.length > 0 && (
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-sm text-indigo-600 hover:text-indigo-500"
+          >
+            {isOpen ? 'Hide' : 'Review'}
+          </button>
+        )}
+      </div>
+
+      {isOpen && groups.length > 0 && (
+        <div className="border-t border-gray-200 divide-y divide-gray-200">
+          {groups.map((group) => {
+            const primaryId = primaryIds[group.key] ?? group.signups[0].id;
+            const primaryVolunteerId = group.signups.find(s => s.id === primaryId)?.volunteer_id as string;
+            return (
+              <div key={group.key} className="px-4 py-4 sm:px-6 space-y-3">
+                <p className="text-xs text-gray-500">
+                  {group.reasons.join(', ')}. Choose the record to keep.
+                </p>
+                {group.signups.map((signup) => (
+                  <label key={signup.id} className="flex items-start space-x-3">
+                    <input
+                      type="radio"
+                      name={`primary-${group.key}`}
+                      checked={primaryId === signup.id}
+                      onChange={() => setPrimaryIds({ ...primaryIds, [group.key]: signup.id })}
+                      className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{signup.volunteer_name}</p>
+                      <p className="text-sm text-gray-500">
+                        {signup.phone_number || 'No phone'} · {signup.position.event.name} - {signup.position.name} · {formatShift(signup.starts_at, signup.ends_at, signup.position.event.timezone)}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => keepApartMutation.mutate(group)}
+                    disabled={keepApartMutation.isPending}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Keep Apart
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Merge ${group.signups.length} records into one volunteer? Their shifts move to the selected record, and repeated signups for the same shift go to the trash.`)) {
+                        mergeMutation.mutate({ group, primaryId: primaryVolunteerId });
+                      }
+                    }}
+                    disabled={mergeMutation.isPending}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+                  >
+                    <GitMerge className="h-3 w-3 mr-1" />
+                    Merge
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
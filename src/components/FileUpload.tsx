@@ -1,39 +1,73 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Upload } from 'lucide-react';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
+  accept?: string;
+  hint?: string;
+  disabled?: boolean;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({
+  onFileUpload,
+  accept = '.csv',
+  hint = 'CSV files only',
+  disabled = false,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       onFileUpload(file);
     }
+    // Allow picking the same file again after a failed parse
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    if (!disabled) setIsDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files?.[0];
+    if (file && !disabled) {
+      onFileUpload(file);
+    }
   };
 
   return (
     <div className="w-full max-w-md">
       <label
         htmlFor="file-upload"
-        className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100"
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg ${
+          disabled ? 'cursor-wait opacity-60' : 'cursor-pointer'
+        } ${
+          isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+        }`}
       >
         <div className="flex flex-col items-center justify-center pt-5 pb-6">
           <Upload className="w-10 h-10 mb-3 text-gray-400" />
           <p className="mb-2 text-sm text-gray-500">
             <span className="font-semibold">Click to upload</span> or drag and drop
           </p>
-          <p className="text-xs text-gray-500">CSV files only</p>
+          <p className="text-xs text-gray-500">{hint}</p>
         </div>
         <input
           id="file-upload"
           type="file"
-          accept=".csv"
+          accept={accept}
           className="hidden"
           onChange={handleFileChange}
+          disabled={disabled}
         />
       </label>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Map as MapIcon } from 'lucide-react';
+import { GeoExportFormat, downloadGeoData, fetchEventGeoData } from '../lib/geoExport';
+
+interface GeoExportMenuProps {
+  eventId: string;
+  eventName: string;
+  variant?: 'button' | 'icon';
+}
+
+const FORMATS: { format: GeoExportFormat; label: string }[] = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'kml', label: 'KML (Google Earth)' },
+];
+
+export const GeoExportMenu: React.FC<GeoExportMenuProps> = ({ eventId, eventName, variant = 'button' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: GeoExportFormat) => {
+      try {
+        const { positions, zones } = await fetchEventGeoData(eventId);
+        if (positions.length === 0 && zones.length === 0) {
+          throw new Error('This event has no positions to export');
+        }
+        downloadGeoData(format, eventName, positions, zones);
+      } catch (error) {
+        console.error('Error exporting map data:', error);
+        throw error;
+      }
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to export map data');
+    },
+  });
+
+  return (
+    <div className="relative">
+      {variant === 'icon' ? (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-gray-400 hover:text-gray-500"
+          title="Export map data"
+        >
+          <MapIcon className="h-5 w-5" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={exportMutation.isPending}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <MapIcon className="h-4 w-4 mr-2" />
+          {exportMutation.isPending ? 'Exporting...' : 'Export Map'}
+        </button>
+      )}
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+          <div className="py-1">
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => {
+                  setIsOpen(false);
+                  exportMutation.mutate(format);
+                }}
+                className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
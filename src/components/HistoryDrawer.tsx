@@ -0,0 +1,201 @@
+import { useMemo, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { X, Calendar, Users, UserRound } from 'lucide-react';
+import {
+  AuditEntry,
+  AuditTable,
+  COLUMN_LABELS,
+  HISTORY_PAGE_SIZE,
+  TABLE_LABELS,
+  describeAction,
+  entityKey,
+  entityName,
+  fetchEventHistory,
+  fieldChanges,
+} from '../lib/audit';
+import { formatDateTime } from '../lib/datetime';
+import { EventStatus, STATUS_LABELS } from '../lib/eventStatus';
+
+interface HistoryDrawerProps {
+  eventId: string;
+  timeZone: string;
+  onClose: () => void;
+}
+
+const TABLE_ICONS: Record<AuditTable, typeof Calendar> = {
+  events: Calendar,
+  volunteer_positions: Users,
+  volunteer_signups: UserRound,
+};
+
+const SERVER_ACTOR = 'server';
+
+const actorKey = (entry: AuditEntry) => entry.actor_id ?? SERVER_ACTOR;
+
+const actorLabel = (entry: AuditEntry) =>
+  entry.actor_email ?? (entry.actor_id ? 'Unknown user' : 'Automatic');
+
+export function HistoryDrawer({ eventId, timeZone, onClose }: HistoryDrawerProps) {
+  const [actorFilter, setActorFilter] = useState('all');
+  const [entityFilter, setEntityFilter] = useState('all');
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['audit', eventId],
+    queryFn: ({ pageParam }) => fetchEventHistory(eventId, pageParam),
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === HISTORY_PAGE_SIZE ? lastPage[lastPage.length - 1].id : undefined,
+  });
+  const entries = useMemo(() => data?.pages.flat(), [data]);
+
+  // Entries are newest first, so the first one seen carries the latest name
+  const { actors, entities } = useMemo(() => {
+    const actors = new Map<string, string>();
+    const entities = new Map<string, { table: AuditTable; name: string }>();
+    for (const entry of entries ?? []) {
+      if (!actors.has(actorKey(entry))) {
+        actors.set(actorKey(entry), actorLabel(entry));
+      }
+      if (!entities.has(entityKey(entry))) {
+        entities.set(entityKey(entry), { table: entry.table_name, name: entityName(entry) });
+      }
+    }
+    return { actors, entities };
+  }, [entries]);
+
+  const visibleEntries = entries?.filter((entry) =>
+    (actorFilter === 'all' || actorKey(entry) === actorFilter) &&
+    (entityFilter === 'all' || entityKey(entry) === entityFilter)
+  );
+
+  const formatValue = (column: string, value: unknown): string => {
+    if (value === null || value === '') return 'empty';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (column === 'status') return STATUS_LABELS[value as EventStatus] ?? String(value);
+    if (column === 'position_id') {
+      return entities.get(`volunteer_positions:${value}`)?.name ?? 'another position';
+    }
+    if (column.endsWith('_at') && typeof value === 'string') return formatDateTime(value, timeZone);
+    return String(value);
+  };
+
+  const entityOptions = (table: AuditTable) =>
+    [...entities.entries()]
+      .filter(([, entity]) => entity.table === table)
+      .sort(([, a], [, b]) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div
+        className="bg-white shadow-xl w-full max-w-md h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-800">History</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-200 grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700">User</label>
+            <select
+              value={actorFilter}
+              onChange={(e) => setActorFilter(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+            >
+              <option value="all">Everyone</option>
+              {[...actors.entries()].map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700">Changed</label>
+            <select
+              value={entityFilter}
+              onChange={(e) => setEntityFilter(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+            >
+              <option value="all">Everything</option>
+              <option value={`events:${eventId}`}>Event details</option>
+              {entityOptions('volunteer_positions').length > 0 && (
+                <optgroup label="Positions">
+                  {entityOptions('volunteer_positions').map(([key, entity]) => (
+                    <option key={key} value={key}>{entity.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {entityOptions('volunteer_signups').length > 0 && (
+                <optgroup label="Volunteers">
+                  {entityOptions('volunteer_signups').map(([key, entity]) => (
+                    <option key={key} value={key}>{entity.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {visibleEntries?.map((entry) => {
+                const Icon = TABLE_ICONS[entry.table_name];
+                const changes = fieldChanges(entry);
+                return (
+                  <li key={entry.id} className="px-6 py-4 flex">
+                    <Icon className="h-5 w-5 text-gray-400 mr-3 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {describeAction(entry)} {entry.table_name === 'events' ? 'event' : entityName(entry)}
+                        <span className="ml-2 text-xs font-normal text-gray-500">{TABLE_LABELS[entry.table_name]}</span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {actorLabel(entry)} · {formatDateTime(entry.occurred_at, timeZone)}
+                      </p>
+                      {changes.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {changes.map((change) => (
+                            <li key={change.column} className="text-sm text-gray-600 break-words">
+                              <span className="font-medium">{COLUMN_LABELS[change.column] ?? change.column}:</span>{' '}
+                              <span className="line-through text-gray-400">{formatValue(change.column, change.from)}</span>
+                              {' → '}
+                              {formatValue(change.column, change.to)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+              {visibleEntries?.length === 0 && !hasNextPage && (
+                <li className="px-6 py-4 text-center text-gray-500">
+                  No changes recorded.
+                </li>
+              )}
+              {/* Filters only see the entries loaded so far */}
+              {hasNextPage && (
+                <li className="px-6 py-4 text-center">
+                  <button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="text-sm text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                  >
+                    {isFetchingNextPage ? 'Loading...' : 'Load older changes'}
+                  </button>
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
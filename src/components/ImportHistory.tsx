@@ -0,0 +1,87 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { fetchImportBatches, revertImportBatch } from '../lib/importBatches';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
+
+export const ImportHistory: React.FC = () => {
+  const organization = useCurrentOrganization();
+  const queryClient = useQueryClient();
+
+  const { data: batches } = useQuery({
+    queryKey: ['import-batches', organization.id],
+    queryFn: () => fetchImportBatches(organization.id),
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: revertImportBatch,
+    onSuccess: (removed) => {
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success(`Import reverted, ${removed} signups moved to the trash`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revert import');
+    },
+  });
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 flex items-center">
+        <History className="h-5 w-5 text-gray-400 mr-2" />
+        <h3 className="text-lg font-medium leading-6 text-gray-900">Recent Imports</h3>
+      </div>
+      <div className="border-t border-gray-200">
+        <ul className="divide-y divide-gray-200">
+          {batches?.map((batch) => (
+            <li key={batch.id} className="px-4 py-4 sm:px-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-indigo-600">
+                    {batch.file_name}
+                    <span className="text-gray-500 font-normal"> → {batch.event?.name ?? 'Deleted event'}</span>
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {format(new Date(batch.created_at), 'PPp')}
+                    {batch.user_email && ` by ${batch.user_email}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {batch.inserted_rows} inserted · {batch.duplicate_rows} duplicate · {batch.changed_rows} changed · {batch.invalid_rows} invalid
+                  </p>
+                </div>
+                {batch.status === 'reverted' ? (
+                  <span className="text-xs text-gray-500">
+                    Reverted {batch.reverted_at && format(new Date(batch.reverted_at), 'PPp')}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Remove the ${batch.inserted_rows} signups created by this import?`)) {
+                        revertMutation.mutate(batch.id);
+                      }
+                    }}
+                    disabled={revertMutation.isPending}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Revert this import
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+          {batches?.length === 0 && (
+            <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+              No imports yet.
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
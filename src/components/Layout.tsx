@@ -1,20 +1,59 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
-import { Calendar, Users, LogOut, Settings, AlertCircle } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Calendar, Users, LogOut, Settings, AlertCircle, FileSpreadsheet, Contact, LayoutTemplate, Trash2, Building2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { createOrganization } from '../lib/organizations';
 import { useState } from 'react';
 import { UserSettings } from './UserSettings';
 
+const NEW_ORGANIZATION = 'new';
+
 export function Layout() {
   const { signOut } = useAuth();
+  const { organizations, organization, loading, switchOrganization, hasRole } = useOrganization();
+  const queryClient = useQueryClient();
   const location = useLocation();
   const [showSettings, setShowSettings] = useState(false);
 
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      try {
+        return await createOrganization(name);
+      } catch (error) {
+        console.error('Error creating organization:', error);
+        throw error;
+      }
+    },
+    onSuccess: async (id) => {
+      await queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      switchOrganization(id);
+      toast.success('Organization created');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create organization');
+    },
+  });
+
+  const promptNewOrganization = () => {
+    const name = window.prompt('Organization name');
+    if (name?.trim()) {
+      createOrganizationMutation.mutate(name);
+    }
+  };
+
+  // Matches the requiredRole of each route in App
   const navigation = [
-    { name: 'Events', href: '/', icon: Calendar },
-    { name: 'Overview', href: '/overview', icon: AlertCircle },
-    { name: 'Positions', href: '/positions', icon: Users },
-    { name: 'Assign Volunteers', href: '/assign', icon: Users },
-  ];
+    { name: 'Events', href: '/', icon: Calendar, role: 'coordinator' },
+    { name: 'Overview', href: '/overview', icon: AlertCircle, role: 'viewer' },
+    { name: 'Templates', href: '/templates', icon: LayoutTemplate, role: 'coordinator' },
+    { name: 'Positions', href: '/positions', icon: Users, role: 'coordinator' },
+    { name: 'Assign Volunteers', href: '/assign', icon: Users, role: 'captain' },
+    { name: 'Volunteers', href: '/volunteers', icon: Contact, role: 'coordinator' },
+    { name: 'Import', href: '/import', icon: FileSpreadsheet, role: 'coordinator' },
+    { name: 'Trash', href: '/trash', icon: Trash2, role: 'coordinator' },
+  ] as const;
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -22,7 +61,7 @@ export function Layout() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex">
-              {navigation.map((item) => {
+              {navigation.filter((item) => hasRole(item.role)).map((item) => {
                 const Icon = item.icon;
                 return (
                   <Link
@@ -41,6 +80,28 @@ export function Layout() {
               })}
             </div>
             <div className="flex items-center space-x-4">
+              {organization && (
+                <label className="inline-flex items-center text-sm text-gray-500">
+                  <Building2 className="h-5 w-5 mr-2" />
+                  <select
+                    value={organization.id}
+                    onChange={(e) => {
+                      if (e.target.value === NEW_ORGANIZATION) {
+                        promptNewOrganization();
+                      } else {
+                        switchOrganization(e.target.value);
+                      }
+                    }}
+                    className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    aria-label="Organization"
+                  >
+                    {organizations.map((o) => (
+                      <option key={o.id} value={o.id}>{o.name}</option>
+                    ))}
+                    <option value={NEW_ORGANIZATION}>New organization…</option>
+                  </select>
+                </label>
+              )}
               <button
                 onClick={() => setShowSettings(true)}
                 className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 hover:text-gray-700"
@@ -60,7 +121,25 @@ export function Layout() {
         </div>
       </nav>
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-        <Outlet />
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : organization ? (
+          // Keyed so nothing from the previous organization survives a switch
+          <Outlet key={organization.id} />
+        ) : (
+          <div className="bg-white shadow rounded-lg p-6 text-center">
+            <p className="text-gray-500 mb-4">You are not a member of any organization.</p>
+            <button
+              onClick={promptNewOrganization}
+              disabled={createOrganizationMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Create Organization
+            </button>
+          </div>
+        )}
       </main>
       
       {showSettings && <UserSettings onClose={() => setShowSettings(false)} />}
@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Copy, Mail, RefreshCw, Trash2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Organization,
+  changeMemberRole,
+  fetchOrganizationMembers,
+  removeOrganizationMember,
+  renameOrganization,
+} from '../lib/organizations';
+import { fetchPendingInvitations, invitationUrl, inviteMember, revokeInvitation } from '../lib/invitations';
+import { OrganizationRole, ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../lib/roles';
+
+export function OrganizationMembers({ organization }: { organization: Organization }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(organization.name);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('coordinator');
+  const isOwner = organization.role === 'owner';
+
+  const { data: members, isLoading } = useQuery({
+    queryKey: ['organization-members', organization.id],
+    queryFn: () => fetchOrganizationMembers(organization.id),
+  });
+
+  const { data: invitations } = useQuery({
+    queryKey: ['organization-invitations', organization.id],
+    queryFn: () => fetchPendingInvitations(organization.id),
+    enabled: isOwner,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        await renameOrganization(organization.id, name);
+      } catch (error) {
+        console.error('Error renaming organization:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      toast.success('Organization renamed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename organization');
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: OrganizationRole }) => {
+      try {
+        await inviteMember(organization.id, email, role);
+      } catch (error) {
+        console.error('Error sending invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { email }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organization.id] });
+      toast.success(`Invitation sent to ${email.trim()}`);
+      setEmail('');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      try {
+        await revokeInvitation(id);
+      } catch (error) {
+        console.error('Error revoking invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['organization-invitations', organization.id] });
+      toast.success('Invitation revoked');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invitation');
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: OrganizationRole }) => {
+      try {
+        await changeMemberRole(organization.id, userId, role);
+      } catch (error) {
+        console.error('Error changing role:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organization.id] });
+      // Stepping down changes what the rest of the app shows
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      }
+      toast.success('Role changed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to change role');
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      try {
+        await removeOrganizationMember(organization.id, userId);
+      } catch (error) {
+        console.error('Error removing member:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, userId) => {
+      // Leaving drops the organization from the switcher
+      queryClient.invalidateQueries({ queryKey: userId === user?.id ? ['organizations'] : ['organization-members', organization.id] });
+      toast.success(userId === user?.id ? `You left ${organization.name}` : 'Member removed');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove member');
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {isOwner && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Organization name</label>
+          <div className="mt-1 flex space-x-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <button
+              onClick={() => renameMutation.mutate()}
+              disabled={!name.trim() || name.trim() === organization.name || renameMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Members</h3>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading members...</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {members?.map((member) => (
+              <li key={member.user_id} className="px-3 py-2 flex items-center justify-between">
+                <span className="text-sm text-gray-900">
+                  {member.email}
+                  {member.user_id === user?.id && <span className="ml-2 text-xs text-gray-500">You</span>}
+                </span>
+                <div className="flex items-center space-x-3">
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => roleMutation.mutate({ userId: member.user_id, role: e.target.value as OrganizationRole })}
+                      disabled={roleMutation.isPending}
+                      className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                    >
+                      {ROLES.map((option) => (
+                        <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-500">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(isOwner || member.user_id === user?.id) && (
+                    <button
+                      onClick={() => {
+                        const leaving = member.user_id === user?.id;
+                        if (window.confirm(leaving ? `Leave ${organization.name}?` : `Remove ${member.email} from ${organization.name}?`)) {
+                          removeMutation.mutate(member.user_id);
+                        }
+                      }}
+                      disabled={removeMutation.isPending || members.length === 1}
+                      className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                      title={member.user_id === user?.id ? 'Leave organization' : 'Remove member'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {isOwner && invitations && invitations.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Pending invitations</h3>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expires_at) < new Date();
+              return (
+                <li key={invitation.id} className="px-3 py-2 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-900">{invitation.email}</p>
+                    <p className={`text-xs ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                      {ROLE_LABELS[invitation.role]} · {expired ? 'Expired' : 'Expires'}{' '}
+                      {new Date(invitation.expires_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {!expired && (
+                      <button
+                        onClick={async () => {
+                          await navigator.clipboard.writeText(invitationUrl(invitation.token));
+                          toast.success('Invitation link copied');
+                        }}
+                        className="text-gray-400 hover:text-indigo-600"
+                        title="Copy invitation link"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => inviteMutation.mutate({ email: invitation.email, role: invitation.role })}
+                      disabled={inviteMutation.isPending}
+                      className="text-gray-400 hover:text-indigo-600 disabled:opacity-50"
+                      title="Resend with a new link"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Revoke the invitation for ${invitation.email}?`)) {
+                          revokeMutation.mutate(invitation.id);
+                        }
+                      }}
+                      disabled={revokeMutation.isPending}
+                      className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                      title="Revoke invitation"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {isOwner && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate({ email, role });
+          }}
+        >
+          <label className="block text-sm font-medium text-gray-700">Invite someone by email</label>
+          <div className="mt-1 flex space-x-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.org"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as OrganizationRole)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {ROLES.map((option) => (
+                <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!email.trim() || inviteMutation.isPending}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              Invite
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {ROLE_DESCRIPTIONS[role]}. The invitation link works for a week, with or without an account.
+          </p>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+import { FileUpload } from './FileUpload';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  POSITION_IMPORT_ACCEPT,
+  PositionDraft,
+  insertPositions,
+  parsePositionFile,
+} from '../lib/positionImport';
+
+// Fix for Leaflet marker icons in production
+delete (L.Icon.Default.prototype as any)._getIconUrl;
+L.Icon.Default.mergeOptions({
+  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
+  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
+  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
+});
+
+interface PositionImportProps {
+  events: { id: string; name: string }[];
+  onClose: () => void;
+}
+
+function FitToDrafts({ drafts }: { drafts: PositionDraft[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (drafts.length > 0) {
+      const bounds = L.latLngBounds(drafts.map(d => L.latLng(d.latitude, d.longitude)));
+      map.fitBounds(bounds, { padding: [30, 30], maxZoom: 16 });
+    }
+  }, [map, drafts]);
+
+  return null;
+}
+
+export const PositionImport: React.FC<PositionImportProps> = ({ events, onClose }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [eventId, setEventId] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<PositionDraft[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+
+  const validDrafts = drafts.filter(d => d.errors.length === 0);
+  const invalidCount = drafts.length - validDrafts.length;
+
+  const handleFileUpload = async (file: File) => {
+    setIsParsing(true);
+    try {
+      const parsed = await parsePositionFile(file);
+      setDrafts(parsed);
+      setFileName(file.name);
+      if (parsed.length === 0) toast.error('No positions found in this file');
+    } catch (error) {
+      console.error('Error parsing position file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('You must be signed in to import positions');
+      try {
+        await insertPositions(eventId, user.id, validDrafts);
+      } catch (error) {
+        console.error('Error importing positions:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success(`${validDrafts.length} positions imported`);
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to import positions');
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-800">Import Positions</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Event</label>
+          <select
+            value={eventId}
+            onChange={(e) => setEventId(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">Select an event</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <FileUpload
+          onFileUpload={handleFileUpload}
+          accept={POSITION_IMPORT_ACCEPT}
+          hint="CSV with name, needed, description, skill_level, lat, lng columns, or a GeoJSON FeatureCollection of Points"
+          disabled={isParsing}
+        />
+
+        {drafts.length > 0 && (
+          <>
+            <div className="flex items-center space-x-4 text-sm">
+              <span className="text-gray-700 font-medium">{fileName}</span>
+              <span className="inline-flex items-center text-green-700">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                {validDrafts.length} ready
+              </span>
+              {invalidCount > 0 && (
+                <span className="inline-flex items-center text-red-600">
+                  <AlertCircle className="h-4 w-4 mr-1" />
+                  {invalidCount} with errors will be skipped
+                </span>
+              )}
+            </div>
+
+            {validDrafts.length > 0 && (
+              <div className="h-72 rounded-lg overflow-hidden">
+                <MapContainer
+                  center={[validDrafts[0].latitude, validDrafts[0].longitude]}
+                  zoom={13}
+                  style={{ height: '100%', width: '100%' }}
+                >
+                  <TileLayer
+                    url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                    attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                  />
+                  {validDrafts.map((draft) => (
+                    <Marker key={draft.row} position={[draft.latitude, draft.longitude]}>
+                      <Popup>
+                        <div className="p-1">
+                          <h3 className="font-medium">{draft.name}</h3>
+                          <p className="text-sm text-gray-600">Needed: {draft.needed}</p>
+                        </div>
+                      </Popup>
+                    </Marker>
+                  ))}
+                  <FitToDrafts drafts={validDrafts} />
+                </MapContainer>
+              </div>
+            )}
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Row', 'Name', 'Needed', 'Skill Level', 'Coordinates', 'Status'].map((header) => (
+                      <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {drafts.map((draft) => (
+                    <tr key={draft.row} className={draft.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{draft.row}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{draft.name}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{Number.isNaN(draft.needed) ? '' : draft.needed}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{draft.skill_level}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {Number.isFinite(draft.latitude) && Number.isFinite(draft.longitude)
+                          ? `${draft.latitude.toFixed(5)}, ${draft.longitude.toFixed(5)}`
+                          : ''}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {draft.errors.length > 0 ? (
+                          <span className="text-red-600">{draft.errors.join('; ')}</span>
+                        ) : (
+                          <span className="text-green-700">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => importMutation.mutate()}
+            disabled={!eventId || validDrafts.length === 0 || importMutation.isPending}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+          >
+            {importMutation.isPending ? 'Importing...' : `Import ${validDrafts.length} Positions`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { PositionMapping } from '../types';
+import { MatchResult } from '../lib/positionMatcher';
+
+export interface MappablePosition {
+  id: string;
+  name: string;
+  needed: number;
+  filled: number;
+}
+
+interface PositionMapperProps {
+  items: { name: string; count: number }[];
+  positions: MappablePosition[];
+  mapping: PositionMapping;
+  matches?: Record<string, MatchResult>;
+  needsReview?: (item: string) => boolean;
+  onChange: (item: string, positionId: string | null) => void;
+}
+
+const statusBadge = (match: MatchResult | undefined, reviewing: boolean) => {
+  if (reviewing) {
+    return <span className="inline-flex px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800">Needs review</span>;
+  }
+  switch (match?.status) {
+    case 'remembered':
+      return <span className="inline-flex px-2 py-0.5 rounded text-xs bg-indigo-100 text-indigo-800">Remembered</span>;
+    case 'auto':
+      return (
+        <span className="inline-flex px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">
+          Matched {Math.round((match.suggestions[0]?.score ?? 1) * 100)}%
+        </span>
+      );
+    case 'unmatched':
+      return <span className="inline-flex px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-800">No match</span>;
+    default:
+      return null;
+  }
+};
+
+export const PositionMapper: React.FC<PositionMapperProps> = ({
+  items,
+  positions,
+  mapping,
+  matches = {},
+  needsReview = () => false,
+  onChange,
+}) => {
+  return (
+    <div className="w-full overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Imported Item</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Match</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Position</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {items.map((item) => {
+            const match = matches[item.name];
+            const reviewing = needsReview(item.name);
+            const suggestedIds = new Set(match?.suggestions.map(s => s.id));
+            return (
+              <tr key={item.name} className={reviewing ? 'bg-yellow-50' : undefined}>
+                <td className="px-6 py-4 text-sm text-gray-900">{item.name}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.count}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">{statusBadge(match, reviewing)}</td>
+                <td className="px-6 py-4 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={mapping[item.name] ?? ''}
+                      onChange={(e) => onChange(item.name, e.target.value || null)}
+                      className={`block w-full rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm ${
+                        reviewing ? 'border-yellow-400' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">Skip these rows</option>
+                      {match && match.suggestions.length > 0 && (
+                        <optgroup label="Suggested">
+                          {match.suggestions.map((suggestion) => (
+                            <option key={suggestion.id} value={suggestion.id}>
+                              {suggestion.name} ({Math.round(suggestion.score * 100)}%)
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                      <optgroup label="All positions">
+                        {positions
+                          .filter(position => !suggestedIds.has(position.id))
+                          .map((position) => (
+                            <option key={position.id} value={position.id}>
+                              {position.name} ({position.filled}/{position.needed})
+                            </option>
+                          ))}
+                      </optgroup>
+                    </select>
+                    {/* The select already shows "Skip" while under review, so choosing it there changes nothing */}
+                    {reviewing && (
+                      <button
+                        type="button"
+                        onClick={() => onChange(item.name, null)}
+                        className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 whitespace-nowrap"
+                      >
+                        Skip
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
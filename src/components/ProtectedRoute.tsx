@@ -1,10 +1,19 @@
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { OrganizationRole } from '../lib/roles';
 
-export function ProtectedRoute({ children }: { children: React.ReactNode }) {
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  // Checked against the current organization
+  requiredRole?: OrganizationRole;
+}
+
+export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
   const { user, loading } = useAuth();
+  const { organization, loading: organizationLoading, hasRole } = useOrganization();
 
-  if (loading) {
+  if (loading || (requiredRole && organizationLoading)) {
     return <div>Loading...</div>;
   }
 
@@ -12,5 +21,10 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" />;
   }
 
+  // The overview is open to every role
+  if (requiredRole && organization && !hasRole(requiredRole)) {
+    return <Navigate to="/overview" replace />;
+  }
+
   return <>{children}</>;
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { formatCalendarDate } from '../lib/datetime';
+import {
+  describeRule,
+  MAX_OCCURRENCES,
+  MONTH_WEEKS,
+  occurrenceDates,
+  RecurrenceRule,
+  WEEKDAY_NAMES,
+} from '../lib/series';
+
+interface RecurrenceFieldsProps {
+  rule: RecurrenceRule | null;
+  // Date of the first occurrence ("2025-04-12"), taken from the event's start
+  startsOn: string;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// A rule that repeats on the same weekday as the first occurrence for three months
+function defaultRule(frequency: RecurrenceRule['frequency'], startsOn: string): RecurrenceRule {
+  const start = new Date(`${startsOn}T00:00:00Z`);
+  const weekday = start.getUTCDay();
+  const week = Math.ceil(start.getUTCDate() / 7);
+  return {
+    frequency,
+    repeat_interval: 1,
+    weekdays: [weekday],
+    month_week: week > 4 ? -1 : week,
+    month_weekday: weekday,
+    starts_on: startsOn,
+    until: addDays(startsOn, 91),
+    exceptions: [],
+  };
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export function RecurrenceFields({ rule, startsOn, onChange }: RecurrenceFieldsProps) {
+  const [skipDate, setSkipDate] = useState('');
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...rule!, ...changes });
+
+  // Switching between weekly and monthly keeps the end date and skipped dates
+  const changeFrequency = (frequency: RecurrenceRule['frequency'] | '') => {
+    if (!frequency) {
+      onChange(null);
+    } else if (rule) {
+      onChange({ ...defaultRule(frequency, startsOn), until: rule.until, exceptions: rule.exceptions });
+    } else {
+      onChange(defaultRule(frequency, startsOn));
+    }
+  };
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: rule!.weekdays.includes(day)
+        ? rule!.weekdays.filter(d => d !== day)
+        : [...rule!.weekdays, day],
+    });
+
+  const addException = (date: string) => {
+    if (date && !rule!.exceptions.includes(date)) {
+      update({ exceptions: [...rule!.exceptions, date].sort() });
+    }
+  };
+
+  const activeRule = rule && { ...rule, starts_on: startsOn };
+  const dates = activeRule && startsOn ? occurrenceDates(activeRule) : [];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Repeats</label>
+        <select
+          value={rule?.frequency ?? ''}
+          onChange={(e) => changeFrequency(e.target.value as RecurrenceRule['frequency'] | '')}
+          disabled={!startsOn}
+          className={inputClass}
+        >
+          <option value="">Does not repeat</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly on a weekday</option>
+        </select>
+        {!startsOn && (
+          <p className="mt-1 text-xs text-gray-500">Choose a start to make this a recurring event.</p>
+        )}
+      </div>
+
+      {rule && activeRule && (
+        <div className="p-4 bg-gray-50 rounded-md space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Every ({rule.frequency === 'weekly' ? 'weeks' : 'months'})
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={rule.repeat_interval}
+                onChange={(e) => update({ repeat_interval: Math.max(1, Number(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+
+            {rule.frequency === 'monthly' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">On the</label>
+                  <select
+                    value={rule.month_week ?? 1}
+                    onChange={(e) => update({ month_week: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {MONTH_WEEKS.map(week => (
+                      <option key={week.value} value={week.value}>{week.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Weekday</label>
+                  <select
+                    value={rule.month_weekday ?? 0}
+                    onChange={(e) => update({ month_weekday: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {WEEKDAY_NAMES.map((name, day) => (
+                      <option key={day} value={day}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Until</label>
+              <input
+                type="date"
+                value={rule.until}
+                min={startsOn}
+                onChange={(e) => update({ until: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {rule.frequency === 'weekly' && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700">On</span>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <label key={day} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={rule.weekdays.includes(day)}
+                      onChange={() => toggleWeekday(day)}
+                      className="h-4 w-4 mr-1 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    {name.slice(0, 3)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Skip dates</label>
+            <div className="mt-1 flex space-x-2">
+              <input
+                type="date"
+                value={skipDate}
+                min={startsOn}
+                max={rule.until}
+                onChange={(e) => setSkipDate(e.target.value)}
+                className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  addException(skipDate);
+                  setSkipDate('');
+                }}
+                disabled={!skipDate}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Skip
+              </button>
+            </div>
+            {rule.exceptions.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {rule.exceptions.map(date => (
+                  <span key={date} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-200 text-gray-700">
+                    {formatCalendarDate(date)}
+                    <button
+                      type="button"
+                      onClick={() => update({ exceptions: rule.exceptions.filter(d => d !== date) })}
+                      className="ml-1 text-gray-500 hover:text-gray-700"
+                      title="Stop skipping this date"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm text-gray-700">
+              {dates.length > 0 ? describeRule(activeRule) : 'No dates match these settings.'}
+            </p>
+            {dates.length > MAX_OCCURRENCES ? (
+              <p className="mt-1 text-sm text-red-600">
+                A series can have at most {MAX_OCCURRENCES} occurrences. Choose an earlier end date.
+              </p>
+            ) : dates.length > 0 && (
+              <>
+                <p className="mt-1 text-xs text-gray-500">
+                  {dates.length} {dates.length === 1 ? 'event' : 'events'} will be created. Click a date to skip it.
+                </p>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {dates.map(date => (
+                    <button
+                      key={date}
+                      type="button"
+                      onClick={() => addException(date)}
+                      className="px-2 py-0.5 rounded text-xs bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                      title="Skip this date"
+                    >
+                      {formatCalendarDate(date)}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,39 @@
 import React, { useState } from 'react';
-import { supabase } from '../lib/supabase';
-import { StructuredSignUpData } from '../types';
-import { Database } from '../types/supabase';
 import { Save } from 'lucide-react';
-
-type VolunteerSignup = Database['public']['Tables']['volunteer_signups']['Insert'];
+import { ImportEvent, ImportRowDiff, commitImportBatch, summarizeDiff } from '../lib/importBatches';
 
 interface SaveToSupabaseProps {
-  data: StructuredSignUpData[];
+  diff: ImportRowDiff[];
+  event: ImportEvent;
+  fileName: string;
+  userEmail: string | null;
+  includeChanged: boolean;
+  onSaved?: (count: number) => void;
 }
 
-export const SaveToSupabase: React.FC<SaveToSupabaseProps> = ({ data }) => {
+export const SaveToSupabase: React.FC<SaveToSupabaseProps> = ({
+  diff,
+  event,
+  fileName,
+  userEmail,
+  includeChanged,
+  onSaved,
+}) => {
   const [isSaving, setIsSaving] = useState(false);
   const [saveResult, setSaveResult] = useState<{
     success: boolean;
     message: string;
   } | null>(null);
 
+  const rowsToInsert = diff
+    .filter(entry => entry.status === 'new' || (includeChanged && entry.status === 'changed'))
+    .map(entry => entry.row);
+
   const handleSaveToSupabase = async () => {
-    if (data.length === 0) {
+    if (rowsToInsert.length === 0) {
       setSaveResult({
         success: false,
-        message: 'No data to save. Please upload a CSV file first.',
+        message: 'No new rows to save. Everything in this file is already stored or invalid.',
       });
       return;
     }
@@ -30,27 +42,19 @@ export const SaveToSupabase: React.FC<SaveToSupabaseProps> = ({ data }) => {
     setSaveResult(null);
 
     try {
-      const volunteerSignups: VolunteerSignup[] = data.map((item) => ({
-        position_id: item.position_ID,
-        volunteer_name: item.volunteer_name,
-        email: item.volunteer_email,
-        start_time: item.start_datetime,
-        end_time: item.end_datetime,
-        arrived: false
-      }));
-
-      const { error } = await supabase
-        .from('volunteer_signups')
-        .insert(volunteerSignups);
-
-      if (error) {
-        throw error;
-      }
+      await commitImportBatch({
+        event,
+        fileName,
+        userEmail,
+        rows: rowsToInsert,
+        summary: summarizeDiff(diff),
+      });
 
       setSaveResult({
         success: true,
-        message: `Successfully saved ${volunteerSignups.length} volunteer records to the database.`,
+        message: `Successfully saved ${rowsToInsert.length} volunteer records to the database.`,
       });
+      onSaved?.(rowsToInsert.length);
     } catch (error) {
       console.error('Error saving to Supabase:', error);
       setSaveResult({
@@ -66,15 +70,15 @@ export const SaveToSupabase: React.FC<SaveToSupabaseProps> = ({ data }) => {
     <div className="mt-6">
       <button
         onClick={handleSaveToSupabase}
-        disabled={isSaving || data.length === 0}
+        disabled={isSaving || rowsToInsert.length === 0}
         className={`flex items-center px-4 py-2 rounded-md text-white ${
-          data.length === 0
+          rowsToInsert.length === 0
             ? 'bg-gray-400 cursor-not-allowed'
             : 'bg-indigo-600 hover:bg-indigo-700'
         }`}
       >
         <Save className="w-5 h-5 mr-2" />
-        {isSaving ? 'Saving...' : 'Save to Database'}
+        {isSaving ? 'Saving...' : `Import ${rowsToInsert.length} Signups`}
       </button>
 
       {saveResult && (
@@ -88,4 +92,4 @@ export const SaveToSupabase: React.FC<SaveToSupabaseProps> = ({ data }) => {
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,27 @@
+import { toast } from 'react-hot-toast';
+
+// Shows a message with an Undo button for a few seconds. The undo reports
+// its own success or failure; it can return a message to show instead of
+// "Restored" when the undo didn't quite put things back as they were.
+export function toastWithUndo(message: string, onUndo: () => Promise<string | void>) {
+  toast((t) => (
+    <span className="flex items-center">
+      {message}
+      <button
+        onClick={async () => {
+          toast.dismiss(t.id);
+          try {
+            const outcome = await onUndo();
+            toast.success(outcome || 'Restored');
+          } catch (error) {
+            console.error('Error undoing delete:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to undo');
+          }
+        }}
+        className="ml-3 text-sm font-medium text-indigo-600 hover:text-indigo-500"
+      >
+        Undo
+      </button>
+    </span>
+  ), { duration: 8000 });
+}
@@ -3,6 +3,8 @@ import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
 import { X, Moon, Sun, User, Save } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { OrganizationMembers } from './OrganizationMembers';
 
 interface PasswordFormData {
   currentPassword: string;
@@ -24,8 +26,9 @@ const defaultPreferences: UserPreferences = {
 
 export function UserSettings({ onClose }: { onClose: () => void }) {
   const { user, changePassword } = useAuth();
+  const { organization } = useOrganization();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [activeTab, setActiveTab] = useState<'account' | 'appearance' | 'notifications'>('account');
+  const [activeTab, setActiveTab] = useState<'account' | 'members' | 'appearance' | 'notifications'>('account');
   const [preferences, setPreferences] = useState<UserPreferences>(defaultPreferences);
   
   const { 
@@ -124,6 +127,18 @@ export function UserSettings({ onClose }: { onClose: () => void }) {
             >
               Account
             </button>
+            {organization && (
+              <button
+                onClick={() => setActiveTab('members')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'members'
+                    ? 'border-indigo-500 text-indigo-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Members
+              </button>
+            )}
             <button
               onClick={() => setActiveTab('appearance')}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -224,6 +239,10 @@ export function UserSettings({ onClose }: { onClose: () => void }) {
           </div>
         )}
         
+        {activeTab === 'members' && organization && (
+          <OrganizationMembers key={organization.id} organization={organization} />
+        )}
+        
         {activeTab === 'appearance' && (
           <div className="space-y-6">
             <h3 className="text-lg font-medium text-gray-900">Theme Settings</h3>
@@ -0,0 +1,68 @@
+import React, { useMemo, useState } from 'react';
+import { UseFormRegisterReturn } from 'react-hook-form';
+import { VolunteerProfile } from '../lib/volunteers';
+import { normalizePhone } from '../lib/duplicates';
+
+interface VolunteerAutocompleteProps {
+  profiles: VolunteerProfile[];
+  query: string;
+  inputProps: UseFormRegisterReturn;
+  onSelect: (profile: VolunteerProfile) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const VolunteerAutocomplete: React.FC<VolunteerAutocompleteProps> = ({
+  profiles,
+  query,
+  inputProps,
+  onSelect,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const suggestions = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    const digits = normalizePhone(query);
+    if (text.length < 2) return [];
+    return profiles
+      .filter(p => p.name.toLowerCase().includes(text) || (digits.length >= 3 && normalizePhone(p.phone_number).includes(digits)))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [profiles, query]);
+
+  return (
+    <div className="relative">
+      <input
+        {...inputProps}
+        autoComplete="off"
+        onFocus={() => setIsOpen(true)}
+        onBlur={(e) => {
+          setIsOpen(false);
+          inputProps.onBlur(e);
+        }}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      />
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white shadow-lg rounded-md ring-1 ring-black ring-opacity-5 max-h-60 overflow-auto">
+          {suggestions.map((profile) => (
+            <li
+              key={profile.id}
+              // mousedown fires before the input blurs and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(profile);
+                setIsOpen(false);
+              }}
+              className="px-3 py-2 cursor-pointer hover:bg-gray-100"
+            >
+              <p className="text-sm text-gray-900">{profile.name}</p>
+              <p className="text-xs text-gray-500">
+                {profile.phone_number || 'No phone'}
+                {profile.tags.length > 0 && ` · ${profile.tags.join(', ')}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
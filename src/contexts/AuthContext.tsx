@@ -6,10 +6,16 @@ import { toast } from 'react-hot-toast';
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  // Signed in through a password reset link and yet to choose a new password
+  passwordRecovery: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string) => Promise<void>;
+  // Resolves to true when the address has to be confirmed before signing in
+  signUp: (email: string, password: string, redirectTo?: string) => Promise<boolean>;
   signOut: () => Promise<void>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  resendVerification: (email: string, redirectTo?: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (newPassword: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,6 +23,9 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  // The client reports recovery links asynchronously; read the link itself
+  // too so the reset page doesn't flash an error first
+  const [passwordRecovery, setPasswordRecovery] = useState(() => window.location.hash.includes('type=recovery'));
 
   useEffect(() => {
     // Check active sessions and sets the user
@@ -26,21 +35,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     });
 
     // Listen for changes on auth state
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       setUser(session?.user ?? null);
       setLoading(false);
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      } else if (event === 'SIGNED_OUT') {
+        setPasswordRecovery(false);
+      }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string) => {
+  const signUp = async (email: string, password: string, redirectTo = `${window.location.origin}/login`) => {
     try {
-      const { error } = await supabase.auth.signUp({
+      const { data, error } = await supabase.auth.signUp({
         email,
         password,
+        options: { emailRedirectTo: redirectTo },
       });
       if (error) throw error;
+      // No session means the project requires a confirmed address
+      return !data.session;
     } catch (error) {
       console.error('Error during sign up:', error);
       throw error;
@@ -100,8 +117,66 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const resendVerification = async (email: string, redirectTo = `${window.location.origin}/login`) => {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email,
+        options: { emailRedirectTo: redirectTo },
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      throw error;
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      throw error;
+    }
+  };
+
+  // Only for recovery sessions, which can't supply the current password
+  const resetPassword = async (newPassword: string) => {
+    try {
+      if (!passwordRecovery) {
+        throw new Error('Open the link from your password reset email first');
+      }
+
+      const { error } = await supabase.auth.updateUser({
+        password: newPassword,
+      });
+      if (error) throw error;
+
+      setPasswordRecovery(false);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      throw error;
+    }
+  };
+
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut, changePassword }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        passwordRecovery,
+        signIn,
+        signUp,
+        signOut,
+        changePassword,
+        resendVerification,
+        requestPasswordReset,
+        resetPassword,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
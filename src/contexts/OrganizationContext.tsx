@@ -0,0 +1,71 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import { Organization, fetchOrganizations } from '../lib/organizations';
+import { OrganizationRole, roleAtLeast } from '../lib/roles';
+
+interface OrganizationContextType {
+  organizations: Organization[];
+  organization: Organization | null;
+  loading: boolean;
+  switchOrganization: (id: string) => void;
+  // Whether the user's role in the current organization is at least `required`
+  hasRole: (required: OrganizationRole) => boolean;
+}
+
+const STORAGE_KEY = 'organizationId';
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+export function OrganizationProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  const { data: organizations, isLoading } = useQuery({
+    queryKey: ['organizations', user?.id],
+    queryFn: () => fetchOrganizations(user!.id),
+    enabled: !!user,
+  });
+
+  // Fall back to the first organization when the saved one is gone, e.g.
+  // after leaving it
+  const organization = organizations?.find(o => o.id === selectedId) ?? organizations?.[0] ?? null;
+
+  useEffect(() => {
+    if (organization) {
+      localStorage.setItem(STORAGE_KEY, organization.id);
+    }
+  }, [organization]);
+
+  return (
+    <OrganizationContext.Provider
+      value={{
+        organizations: organizations ?? [],
+        organization,
+        loading: !!user && isLoading,
+        switchOrganization: setSelectedId,
+        hasRole: (required) => !!organization && roleAtLeast(organization.role, required),
+      }}
+    >
+      {children}
+    </OrganizationContext.Provider>
+  );
+}
+
+export function useOrganization() {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+}
+
+// For pages inside Layout, which only renders them once an organization is
+// selected
+export function useCurrentOrganization() {
+  const { organization } = useOrganization();
+  if (!organization) {
+    throw new Error('No organization selected');
+  }
+  return organization;
+}
@@ -0,0 +1,28 @@
+import { supabase } from './supabase';
+
+export interface NewAssignment {
+  position_id: string;
+  slot_id: string | null;
+  volunteer_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+// Raised by the database when a signup would overfill its slot or position
+const POSITION_FULL_CODE = 'PT409';
+
+export const isPositionFullError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === POSITION_FULL_CODE;
+
+// Capacity is checked in the database while the position is locked, so the
+// last place cannot be taken twice. Pass allowOverbooking to assign anyway.
+export async function assignVolunteer(assignment: NewAssignment, allowOverbooking = false) {
+  const { data, error } = await supabase.rpc('assign_volunteer', {
+    ...assignment,
+    allow_overbooking: allowOverbooking,
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,63 @@
+import { supabase } from './supabase';
+
+export interface Attendance {
+  checked_in_at: string | null;
+  checked_out_at: string | null;
+  served_minutes: number | null;
+}
+
+// Policies skip signups the user may not touch rather than failing, e.g. a
+// zone captain on someone else's position
+const requireUpdated = (rows: unknown[] | null) => {
+  if (!rows?.length) {
+    throw new Error('You can only check in volunteers on positions you captain');
+  }
+};
+
+// `arrived` follows checked_in_at in the database, so only the times are written
+export async function checkIn(signupId: string) {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .update({ checked_in_at: new Date().toISOString(), checked_out_at: null })
+    .eq('id', signupId)
+    .select('id');
+  if (error) throw error;
+  requireUpdated(data);
+}
+
+export async function checkOut(signupId: string) {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .update({ checked_out_at: new Date().toISOString() })
+    .eq('id', signupId)
+    .select('id');
+  if (error) throw error;
+  requireUpdated(data);
+}
+
+// Coordinator corrections. Clearing the check-in time also clears the check-out.
+export async function updateAttendance(
+  signupId: string,
+  times: { checked_in_at: string | null; checked_out_at: string | null }
+) {
+  if (times.checked_out_at && !times.checked_in_at) {
+    throw new Error('A check-out time needs a check-in time');
+  }
+  if (times.checked_in_at && times.checked_out_at && Date.parse(times.checked_out_at) < Date.parse(times.checked_in_at)) {
+    throw new Error('Check-out cannot be before check-in');
+  }
+
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .update(times)
+    .eq('id', signupId)
+    .select('id');
+  if (error) throw error;
+  requireUpdated(data);
+}
+
+export const totalServedMinutes = (signups: Pick<Attendance, 'served_minutes'>[]) =>
+  signups.reduce((sum, signup) => sum + (signup.served_minutes ?? 0), 0);
+
+// Hours to one decimal place, e.g. 150 minutes -> "2.5"
+export const formatHours = (minutes: number) => (minutes / 60).toFixed(1).replace(/\.0$/, '');
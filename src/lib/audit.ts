@@ -0,0 +1,123 @@
+import { supabase } from './supabase';
+
+export type AuditTable = 'events' | 'volunteer_positions' | 'volunteer_signups';
+
+export type AuditValues = Record<string, unknown>;
+
+export interface AuditEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  table_name: AuditTable;
+  row_id: string;
+  action: 'insert' | 'update' | 'delete';
+  old_values: AuditValues | null;
+  new_values: AuditValues | null;
+  changed_columns: string[];
+}
+
+export const TABLE_LABELS: Record<AuditTable, string> = {
+  events: 'Event',
+  volunteer_positions: 'Position',
+  volunteer_signups: 'Volunteer',
+};
+
+// Bookkeeping columns that say nothing a reader of the history cares about.
+// Trashing and restoring are described by the entry itself.
+const HIDDEN_COLUMNS = [
+  'id',
+  'user_id',
+  'event_id',
+  'created_at',
+  'deleted_at',
+  'filled',
+  'served_minutes',
+  'series_id',
+  'series_date',
+  'slot_id',
+  'volunteer_id',
+  'import_batch_id',
+];
+
+export const COLUMN_LABELS: Record<string, string> = {
+  name: 'Name',
+  starts_at: 'Starts',
+  ends_at: 'Ends',
+  location: 'Location',
+  timezone: 'Time zone',
+  status: 'Status',
+  needed: 'Needed',
+  description: 'Description',
+  skill_level: 'Skill level',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  position_id: 'Position',
+  volunteer_name: 'Volunteer',
+  phone_number: 'Phone',
+  arrived: 'Arrived',
+  checked_in_at: 'Checked in',
+  checked_out_at: 'Checked out',
+};
+
+export const HISTORY_PAGE_SIZE = 100;
+
+// Newest first, a page at a time: pass the id of the last entry seen to get
+// the ones before it. Ids follow the order entries were written. Entries
+// outlive the rows they describe, so this works for events that have since
+// been deleted for good.
+export async function fetchEventHistory(eventId: string, beforeId?: number): Promise<AuditEntry[]> {
+  let query = supabase
+    .from('audit_log')
+    .select('id, occurred_at, actor_id, actor_email, table_name, row_id, action, old_values, new_values, changed_columns')
+    .eq('event_id', eventId);
+  if (beforeId !== undefined) {
+    query = query.lt('id', beforeId);
+  }
+  const { data, error } = await query
+    .order('id', { ascending: false })
+    .limit(HISTORY_PAGE_SIZE);
+  if (error) throw error;
+  return data as unknown as AuditEntry[];
+}
+
+export const entityKey = (entry: AuditEntry) => `${entry.table_name}:${entry.row_id}`;
+
+export const entryValues = (entry: AuditEntry): AuditValues =>
+  entry.new_values ?? entry.old_values ?? {};
+
+// Positions go by their name and signups by the volunteer's, as of the entry
+export function entityName(entry: AuditEntry): string {
+  const values = entryValues(entry);
+  const name = entry.table_name === 'volunteer_signups' ? values.volunteer_name : values.name;
+  return typeof name === 'string' && name ? name : TABLE_LABELS[entry.table_name];
+}
+
+export function describeAction(entry: AuditEntry): string {
+  if (entry.action === 'insert') return 'Added';
+  if (entry.action === 'delete') return 'Deleted for good';
+  if (entry.changed_columns.includes('deleted_at')) {
+    return entry.new_values?.deleted_at ? 'Moved to trash' : 'Restored from trash';
+  }
+  if (entry.changed_columns.includes('checked_in_at') && entry.new_values?.checked_in_at && !entry.old_values?.checked_in_at) {
+    return 'Checked in';
+  }
+  return 'Edited';
+}
+
+export interface FieldChange {
+  column: string;
+  from: unknown;
+  to: unknown;
+}
+
+export function fieldChanges(entry: AuditEntry): FieldChange[] {
+  if (entry.action !== 'update') return [];
+  return entry.changed_columns
+    .filter((column) => !HIDDEN_COLUMNS.includes(column))
+    .map((column) => ({
+      column,
+      from: entry.old_values?.[column] ?? null,
+      to: entry.new_values?.[column] ?? null,
+    }));
+}
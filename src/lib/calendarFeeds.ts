@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+import { buildCalendar, ShiftDetails, shiftToCalendarEvent } from './ical';
+import { downloadFile, fileSlug } from './download';
+import { normalizePhone } from './duplicates';
+
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// Returns the subscription URL for a feed, creating the feed the first time it is requested
+export async function getCalendarFeedUrl(
+  kind: 'volunteer' | 'coordinator',
+  label: string,
+  phoneNumber?: string
+): Promise<string> {
+  const phone = kind === 'volunteer' ? normalizePhone(phoneNumber ?? '') : null;
+  if (kind === 'volunteer' && !phone) {
+    throw new Error('A phone number is needed to create a volunteer calendar');
+  }
+
+  let query = supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('kind', kind);
+  query = phone ? query.eq('phone_number', phone) : query.is('phone_number', null);
+  const { data: existing, error: fetchError } = await query.maybeSingle();
+  if (fetchError) throw fetchError;
+  if (existing) return calendarFeedUrl(existing.token);
+
+  const { data: created, error: insertError } = await supabase
+    .from('calendar_feeds')
+    .insert({ kind, label, phone_number: phone })
+    .select('token')
+    .single();
+  if (insertError) throw insertError;
+  return calendarFeedUrl(created.token);
+}
+
+export async function downloadSignupCalendar(signupId: string) {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .select(`
+      id,
+      starts_at,
+      ends_at,
+      position:volunteer_positions(
+        name,
+        description,
+        event:events(name, location)
+      )
+    `)
+    .eq('id', signupId)
+    .single();
+  if (error) throw error;
+
+  const shift = data as unknown as ShiftDetails;
+  const { position } = shift;
+  downloadFile(
+    buildCalendar(position.event.name, [shiftToCalendarEvent(shift)]),
+    `${fileSlug(`${position.event.name} ${position.name}`)}.ics`,
+    'text/calendar;charset=utf-8'
+  );
+}
@@ -0,0 +1,3 @@
+// Public check-in link encoded in position QR codes
+export const checkInUrl = (positionId: string) =>
+  `${window.location.origin}/checkin?position=${positionId}`;
@@ -13,28 +13,46 @@ export interface Database {
         Row: {
           id: string
           name: string
-          date: string
-          time: string
+          starts_at: string
+          ends_at: string
           location: string
+          timezone: string
+          series_id: string | null
+          series_date: string | null
+          status: 'draft' | 'published' | 'live' | 'closed' | 'archived'
           user_id: string
+          organization_id: string
+          deleted_at: string | null
           created_at: string
         }
         Insert: {
           id?: string
           name: string
-          date: string
-          time: string
+          starts_at: string
+          ends_at: string
           location: string
+          timezone?: string
+          series_id?: string | null
+          series_date?: string | null
+          status?: 'draft' | 'published' | 'live' | 'closed' | 'archived'
           user_id: string
+          organization_id: string
+          deleted_at?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           name?: string
-          date?: string
-          time?: string
+          starts_at?: string
+          ends_at?: string
           location?: string
+          timezone?: string
+          series_id?: string | null
+          series_date?: string | null
+          status?: 'draft' | 'published' | 'live' | 'closed' | 'archived'
           user_id?: string
+          organization_id?: string
+          deleted_at?: string | null
           created_at?: string
         }
       }
@@ -50,6 +68,8 @@ export interface Database {
           latitude: number
           longitude: number
           user_id: string
+          captain_id: string | null
+          deleted_at: string | null
           created_at: string
         }
         Insert: {
@@ -63,6 +83,8 @@ export interface Database {
           latitude: number
           longitude: number
           user_id: string
+          captain_id?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
         Update: {
@@ -76,6 +98,8 @@ export interface Database {
           latitude?: number
           longitude?: number
           user_id?: string
+          captain_id?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
       }
@@ -85,9 +109,16 @@ export interface Database {
           position_id: string
           volunteer_name: string
           phone_number: string
-          start_time: string
-          end_time: string
+          starts_at: string
+          ends_at: string
           arrived: boolean
+          checked_in_at: string | null
+          checked_out_at: string | null
+          served_minutes: number | null
+          import_batch_id: string | null
+          volunteer_id: string | null
+          slot_id: string | null
+          deleted_at: string | null
           created_at: string
         }
         Insert: {
@@ -95,9 +126,15 @@ export interface Database {
           position_id: string
           volunteer_name: string
           phone_number: string
-          start_time: string
-          end_time: string
+          starts_at: string
+          ends_at: string
           arrived?: boolean
+          checked_in_at?: string | null
+          checked_out_at?: string | null
+          import_batch_id?: string | null
+          volunteer_id?: string | null
+          slot_id?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
         Update: {
@@ -105,9 +142,584 @@ export interface Database {
           position_id?: string
           volunteer_name?: string
           phone_number?: string
-          start_time?: string
-          end_time?: string
+          starts_at?: string
+          ends_at?: string
           arrived?: boolean
+          checked_in_at?: string | null
+          checked_out_at?: string | null
+          import_batch_id?: string | null
+          volunteer_id?: string | null
+          slot_id?: string | null
+          deleted_at?: string | null
+          created_at?: string
+        }
+      }
+      position_slots: {
+        Row: {
+          id: string
+          position_id: string
+          starts_at: string
+          ends_at: string
+          needed: number
+          filled: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          position_id: string
+          starts_at: string
+          ends_at: string
+          needed: number
+          filled?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          position_id?: string
+          starts_at?: string
+          ends_at?: string
+          needed?: number
+          filled?: number
+          created_at?: string
+        }
+      }
+      position_waitlist: {
+        Row: {
+          id: string
+          position_id: string
+          slot_id: string | null
+          volunteer_id: string | null
+          volunteer_name: string
+          phone_number: string
+          starts_at: string
+          ends_at: string
+          priority: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          position_id: string
+          slot_id?: string | null
+          volunteer_id?: string | null
+          volunteer_name: string
+          phone_number?: string
+          starts_at: string
+          ends_at: string
+          priority?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          position_id?: string
+          slot_id?: string | null
+          volunteer_id?: string | null
+          volunteer_name?: string
+          phone_number?: string
+          starts_at?: string
+          ends_at?: string
+          priority?: number
+          created_at?: string
+        }
+      }
+      waitlist_promotions: {
+        Row: {
+          id: string
+          position_id: string
+          slot_id: string | null
+          signup_id: string | null
+          volunteer_name: string
+          phone_number: string
+          waited_since: string | null
+          promoted_at: string
+        }
+        Insert: {
+          id?: string
+          position_id: string
+          slot_id?: string | null
+          signup_id?: string | null
+          volunteer_name: string
+          phone_number?: string
+          waited_since?: string | null
+          promoted_at?: string
+        }
+        Update: {
+          id?: string
+          position_id?: string
+          slot_id?: string | null
+          signup_id?: string | null
+          volunteer_name?: string
+          phone_number?: string
+          waited_since?: string | null
+          promoted_at?: string
+        }
+      }
+      hours_certificates: {
+        Row: {
+          id: string
+          user_id: string
+          volunteer_id: string
+          volunteer_name: string
+          organization_name: string
+          period_start: string
+          period_end: string
+          total_minutes: number
+          shifts: Json
+          verification_code: string
+          approved_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          volunteer_id: string
+          volunteer_name: string
+          organization_name: string
+          period_start: string
+          period_end: string
+          total_minutes: number
+          shifts?: Json
+          verification_code?: string
+          approved_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          volunteer_id?: string
+          volunteer_name?: string
+          organization_name?: string
+          period_start?: string
+          period_end?: string
+          total_minutes?: number
+          shifts?: Json
+          verification_code?: string
+          approved_at?: string
+        }
+      }
+      event_templates: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string
+          name: string
+          event_name: string
+          location: string
+          timezone: string
+          duration_minutes: number
+          positions: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          organization_id: string
+          name: string
+          event_name: string
+          location?: string
+          timezone?: string
+          duration_minutes: number
+          positions?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string
+          name?: string
+          event_name?: string
+          location?: string
+          timezone?: string
+          duration_minutes?: number
+          positions?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      event_series: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string
+          name: string
+          frequency: 'weekly' | 'monthly'
+          repeat_interval: number
+          weekdays: number[]
+          month_week: number | null
+          month_weekday: number | null
+          starts_on: string
+          until: string
+          exceptions: string[]
+          timezone: string
+          start_time: string
+          duration_minutes: number
+          location: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          organization_id: string
+          name: string
+          frequency: 'weekly' | 'monthly'
+          repeat_interval?: number
+          weekdays?: number[]
+          month_week?: number | null
+          month_weekday?: number | null
+          starts_on: string
+          until: string
+          exceptions?: string[]
+          timezone?: string
+          start_time: string
+          duration_minutes: number
+          location?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string
+          name?: string
+          frequency?: 'weekly' | 'monthly'
+          repeat_interval?: number
+          weekdays?: number[]
+          month_week?: number | null
+          month_weekday?: number | null
+          starts_on?: string
+          until?: string
+          exceptions?: string[]
+          timezone?: string
+          start_time?: string
+          duration_minutes?: number
+          location?: string
+          created_at?: string
+        }
+      }
+      import_position_matches: {
+        Row: {
+          id: string
+          event_id: string
+          item_label: string
+          position_id: string
+          user_id: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          item_label: string
+          position_id: string
+          user_id: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          item_label?: string
+          position_id?: string
+          user_id?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      import_batches: {
+        Row: {
+          id: string
+          event_id: string
+          user_id: string
+          user_email: string | null
+          file_name: string
+          total_rows: number
+          inserted_rows: number
+          duplicate_rows: number
+          changed_rows: number
+          invalid_rows: number
+          status: 'committed' | 'reverted'
+          created_at: string
+          reverted_at: string | null
+          reverted_by: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          user_id?: string
+          user_email?: string | null
+          file_name: string
+          total_rows?: number
+          inserted_rows?: number
+          duplicate_rows?: number
+          changed_rows?: number
+          invalid_rows?: number
+          status?: 'committed' | 'reverted'
+          created_at?: string
+          reverted_at?: string | null
+          reverted_by?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          user_id?: string
+          user_email?: string | null
+          file_name?: string
+          total_rows?: number
+          inserted_rows?: number
+          duplicate_rows?: number
+          changed_rows?: number
+          invalid_rows?: number
+          status?: 'committed' | 'reverted'
+          created_at?: string
+          reverted_at?: string | null
+          reverted_by?: string | null
+        }
+      }
+      zones: {
+        Row: {
+          id: string
+          name: string
+          volunteer_count: number | null
+          status: string | null
+          event_id: string | null
+          boundary: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          volunteer_count?: number | null
+          status?: string | null
+          event_id?: string | null
+          boundary?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          volunteer_count?: number | null
+          status?: string | null
+          event_id?: string | null
+          boundary?: Json | null
+          created_at?: string
+        }
+      }
+      calendar_feeds: {
+        Row: {
+          id: string
+          token: string
+          user_id: string
+          kind: 'volunteer' | 'coordinator'
+          phone_number: string | null
+          label: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          token?: string
+          user_id?: string
+          kind: 'volunteer' | 'coordinator'
+          phone_number?: string | null
+          label: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          token?: string
+          user_id?: string
+          kind?: 'volunteer' | 'coordinator'
+          phone_number?: string | null
+          label?: string
+          created_at?: string
+        }
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          trash_retention_days: number
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          trash_retention_days?: number
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          trash_retention_days?: number
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          email: string
+          role: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          created_at: string
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          email: string
+          role?: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          created_at?: string
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          email?: string
+          role?: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          created_at?: string
+        }
+      }
+      organization_invitations: {
+        Row: {
+          id: string
+          organization_id: string
+          email: string
+          role: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          token: string
+          invited_by: string | null
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          email: string
+          role?: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          token?: string
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          email?: string
+          role?: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          token?: string
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+        }
+      }
+      audit_log: {
+        Row: {
+          id: number
+          occurred_at: string
+          actor_id: string | null
+          actor_email: string | null
+          table_name: 'events' | 'volunteer_positions' | 'volunteer_signups'
+          row_id: string
+          event_id: string | null
+          owner_id: string | null
+          organization_id: string | null
+          action: 'insert' | 'update' | 'delete'
+          old_values: Json | null
+          new_values: Json | null
+          changed_columns: string[]
+        }
+        Insert: {
+          id?: number
+          occurred_at?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          table_name: 'events' | 'volunteer_positions' | 'volunteer_signups'
+          row_id: string
+          event_id?: string | null
+          owner_id?: string | null
+          organization_id?: string | null
+          action: 'insert' | 'update' | 'delete'
+          old_values?: Json | null
+          new_values?: Json | null
+          changed_columns?: string[]
+        }
+        Update: {
+          id?: number
+          occurred_at?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          table_name?: 'events' | 'volunteer_positions' | 'volunteer_signups'
+          row_id?: string
+          event_id?: string | null
+          owner_id?: string | null
+          organization_id?: string | null
+          action?: 'insert' | 'update' | 'delete'
+          old_values?: Json | null
+          new_values?: Json | null
+          changed_columns?: string[]
+        }
+      }
+      volunteers: {
+        Row: {
+          id: string
+          user_id: string
+          organization_id: string
+          name: string
+          phone_number: string
+          email: string | null
+          notes: string | null
+          tags: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string
+          organization_id: string
+          name: string
+          phone_number?: string
+          email?: string | null
+          notes?: string | null
+          tags?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          organization_id?: string
+          name?: string
+          phone_number?: string
+          email?: string | null
+          notes?: string | null
+          tags?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      volunteer_duplicate_dismissals: {
+        Row: {
+          organization_id: string
+          volunteer_a: string
+          volunteer_b: string
+          dismissed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          organization_id: string
+          volunteer_a: string
+          volunteer_b: string
+          dismissed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          organization_id?: string
+          volunteer_a?: string
+          volunteer_b?: string
+          dismissed_by?: string | null
           created_at?: string
         }
       }
@@ -116,7 +728,182 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      commit_import_batch: {
+        Args: {
+          batch: Json
+          signups: Json
+        }
+        Returns: Database['public']['Tables']['import_batches']['Row']
+      }
+      revert_import_batch: {
+        Args: {
+          batch_id: string
+        }
+        Returns: number
+      }
+      assign_volunteer: {
+        Args: {
+          position_id: string
+          volunteer_name: string
+          phone_number: string
+          starts_at: string
+          ends_at: string
+          slot_id?: string | null
+          volunteer_id?: string | null
+          allow_overbooking?: boolean
+        }
+        Returns: Database['public']['Tables']['volunteer_signups']['Row']
+      }
+      join_waitlist: {
+        Args: {
+          position_id: string
+          volunteer_name: string
+          phone_number: string
+          starts_at: string
+          ends_at: string
+          slot_id?: string | null
+          volunteer_id?: string | null
+        }
+        Returns: Database['public']['Tables']['position_waitlist']['Row']
+      }
+      save_position_slots: {
+        Args: {
+          target_position: string
+          slots: Json
+        }
+        Returns: undefined
+      }
+      save_event_as_template: {
+        Args: {
+          source_event: string
+          template_name: string
+        }
+        Returns: string
+      }
+      create_event_from_template: {
+        Args: {
+          source_template: string
+          new_name: string
+          new_starts_at: string
+        }
+        Returns: string
+      }
+      duplicate_event: {
+        Args: {
+          source_event: string
+          new_name: string
+          new_starts_at: string
+          include_signups?: boolean
+        }
+        Returns: string
+      }
+      create_event_series: {
+        Args: {
+          series_organization: string
+          series_name: string
+          series_location: string
+          series_timezone: string
+          start_time: string
+          duration_minutes: number
+          frequency: 'weekly' | 'monthly'
+          repeat_interval: number
+          weekdays: number[]
+          month_week: number | null
+          month_weekday: number | null
+          starts_on: string
+          until: string
+          exceptions: string[]
+          occurrence_dates: string[]
+          source_template?: string | null
+          source_event?: string | null
+        }
+        Returns: string
+      }
+      update_event_series_from: {
+        Args: {
+          target_event: string
+          new_name: string
+          new_location: string
+          new_timezone: string
+          new_start_time: string
+          new_duration_minutes: number
+        }
+        Returns: string
+      }
+      move_to_trash: {
+        Args: {
+          item_type: 'event' | 'position' | 'signup'
+          item_id: string
+        }
+        Returns: string
+      }
+      restore_from_trash: {
+        Args: {
+          item_type: 'event' | 'position' | 'signup'
+          item_id: string
+        }
+        Returns: 'restored' | 'waitlisted'
+      }
+      purge_from_trash: {
+        Args: {
+          item_type: 'event' | 'position' | 'signup'
+          item_id: string
+        }
+        Returns: undefined
+      }
+      list_trash: {
+        Args: {
+          target_organization: string
+        }
+        Returns: {
+          item_type: 'event' | 'position' | 'signup'
+          item_id: string
+          name: string
+          detail: string
+          signup_count: number
+          deleted_at: string
+          purge_at: string
+        }[]
+      }
+      create_organization: {
+        Args: {
+          organization_name: string
+        }
+        Returns: string
+      }
+      invitation_details: {
+        Args: {
+          invitation_token: string
+        }
+        Returns: {
+          organization_name: string
+          email: string
+          role: 'owner' | 'coordinator' | 'captain' | 'viewer'
+          expires_at: string
+          accepted_at: string | null
+        }[]
+      }
+      accept_invitation: {
+        Args: {
+          invitation_token: string
+        }
+        Returns: string
+      }
+      merge_volunteers: {
+        Args: {
+          primary_volunteer: string
+          duplicate_volunteers: string[]
+        }
+        Returns: undefined
+      }
+      send_invitation: {
+        Args: {
+          target_organization: string
+          invitee_email: string
+          invitee_role: string
+        }
+        Returns: Database['public']['Tables']['organization_invitations']['Row']
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,65 @@
+import { zonedTimeToUtc } from './ical';
+
+// Event and shift timestamps are stored as UTC instants and always shown in the
+// event's own time zone, whatever zone the viewer's browser is in.
+
+const zonedParts = (iso: string, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+};
+
+// Calendar date ("2025-04-12") of an instant in the given zone
+export const zonedDate = (iso: string, timeZone: string) => zonedParts(iso, timeZone).date;
+
+// Value for an <input type="datetime-local">
+export function toDateTimeInput(iso: string, timeZone: string): string {
+  const { date, time } = zonedParts(iso, timeZone);
+  return `${date}T${time}`;
+}
+
+// Reads an <input type="datetime-local"> value as wall-clock time in the given zone
+export function fromDateTimeInput(value: string, timeZone: string): string {
+  const [date, time] = value.split('T');
+  return zonedTimeToUtc(date, time, timeZone).toISOString();
+}
+
+export const formatDate = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium' }).format(new Date(iso));
+
+// A plain calendar date ("2025-04-12"), which has no zone of its own
+export const formatCalendarDate = (date: string) => formatDate(`${date}T12:00:00Z`, 'UTC');
+
+export const formatTime = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, timeStyle: 'short' }).format(new Date(iso));
+
+export const formatDateTime = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(new Date(iso));
+
+// "Apr 12, 2025, 7:00 AM – 5:00 PM", or both dates when the range crosses midnight
+export function formatDateRange(startIso: string, endIso: string, timeZone: string): string {
+  if (zonedDate(startIso, timeZone) === zonedDate(endIso, timeZone)) {
+    return `${formatDateTime(startIso, timeZone)} – ${formatTime(endIso, timeZone)}`;
+  }
+  return `${formatDateTime(startIso, timeZone)} – ${formatDateTime(endIso, timeZone)}`;
+}
+
+// "Apr 12, 2025, 10:00 PM – 2:00 AM (+1 day)"
+export function formatShift(startIso: string, endIso: string, timeZone: string): string {
+  const days = Math.round(
+    (Date.parse(zonedDate(endIso, timeZone)) - Date.parse(zonedDate(startIso, timeZone))) / (24 * 60 * 60 * 1000)
+  );
+  const suffix = days > 0 ? ` (+${days} ${days === 1 ? 'day' : 'days'})` : '';
+  return `${formatDateTime(startIso, timeZone)} – ${formatTime(endIso, timeZone)}${suffix}`;
+}
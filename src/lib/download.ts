@@ -0,0 +1,10 @@
+export function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
+
+export const fileSlug = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  findDuplicateGroups,
+  findDuplicateSignupGroups,
+  isFullPhone,
+  nameSimilarity,
+  normalizePhone,
+  phonesMatch,
+} from './duplicates';
+
+// The client needs credentials at import; these tests never reach it
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const profile = (id: string, name: string, phone_number = '') => ({ id, name, phone_number });
+
+const signup = (id: string, volunteer_id: string | null, volunteer_name: string, phone_number = '') => ({
+  id,
+  volunteer_id,
+  position_id: 'position-1',
+  volunteer_name,
+  phone_number,
+  starts_at: '2025-04-12T14:00:00Z',
+  ends_at: '2025-04-12T18:00:00Z',
+});
+
+describe('normalizePhone', () => {
+  it('keeps only the digits', () => {
+    expect(normalizePhone('(555) 123-4567')).toBe('5551234567');
+  });
+
+  it('drops a leading US country code', () => {
+    expect(normalizePhone('+1 555 123 4567')).toBe('5551234567');
+  });
+
+  it('leaves numbers without an area code short', () => {
+    expect(normalizePhone('555-1234')).toBe('5551234');
+    expect(isFullPhone('555-1234')).toBe(false);
+  });
+});
+
+describe('phonesMatch', () => {
+  it('matches the same number written differently', () => {
+    expect(phonesMatch('555-123-4567', '1 (555) 123-4567')).toBe(true);
+  });
+
+  it('never matches numbers without an area code', () => {
+    expect(phonesMatch('555-1234', '555-1234')).toBe(false);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(nameSimilarity('ann lee', 'Ann  Lee.')).toBe(1);
+  });
+
+  it('scores a shortened first name high', () => {
+    expect(nameSimilarity('Jon Smith', 'Jonathan Smith')).toBeCloseTo(0.96);
+  });
+
+  it('scores a different last name low', () => {
+    expect(nameSimilarity('Jon Smith', 'Jon Baker')).toBeLessThan(0.5);
+  });
+
+  it('scores an empty name as 0', () => {
+    expect(nameSimilarity('', 'Jon Smith')).toBe(0);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups profiles with the same phone number and similar names', () => {
+    const groups = findDuplicateGroups([
+      profile('1', 'Jon Smith', '555-123-4567'),
+      profile('2', 'Jonathan Smith', '(555) 123-4567'),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].key).toBe('1|2');
+    expect(groups[0].reasons).toEqual(['Same phone number']);
+  });
+
+  it('keeps apart different people sharing a phone number', () => {
+    expect(findDuplicateGroups([
+      profile('1', 'Ann Lee', '5551234567'),
+      profile('2', 'Bob Cruz', '5551234567'),
+    ])).toEqual([]);
+  });
+
+  it('keeps apart the same name with different phone numbers', () => {
+    expect(findDuplicateGroups([
+      profile('1', 'Jon Smith', '5551234567'),
+      profile('2', 'Jon Smith', '5559876543'),
+    ])).toEqual([]);
+  });
+
+  it('groups the same name when a phone number is missing or partial', () => {
+    const groups = findDuplicateGroups([
+      profile('1', 'Jon Smith', '555-1234'),
+      profile('2', 'Jon Smith', '5551234567'),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].reasons).toEqual(['Similar name']);
+  });
+
+  it('skips dismissed pairs', () => {
+    expect(findDuplicateGroups(
+      [profile('2', 'Jon Smith', '5551234567'), profile('1', 'Jon Smith', '5551234567')],
+      new Set(['1|2'])
+    )).toEqual([]);
+  });
+
+  it('joins profiles linked through a third one', () => {
+    const groups = findDuplicateGroups([
+      profile('1', 'Jon Smith', '5551234567'),
+      profile('2', 'Jonathan Smith', '5551234567'),
+      profile('3', 'Jonathan Smith'),
+      profile('4', 'Mary Jones', '5550001111'),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].key).toBe('1|2|3');
+    expect(groups[0].reasons.sort()).toEqual(['Same phone number', 'Similar name']);
+  });
+});
+
+describe('findDuplicateSignupGroups', () => {
+  it('attaches the signups of each profile in a group', () => {
+    const groups = findDuplicateSignupGroups([
+      signup('s1', 'v1', 'Jon Smith', '5551234567'),
+      signup('s2', 'v1', 'Jon Smith', '5551234567'),
+      signup('s3', 'v2', 'Jonathan Smith', '5551234567'),
+      signup('s4', 'v3', 'Mary Jones', '5550001111'),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].volunteers.map(v => v.id)).toEqual(['v1', 'v2']);
+    expect(groups[0].signups.map(s => s.id)).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('leaves out signups without a profile', () => {
+    expect(findDuplicateSignupGroups([
+      signup('s1', 'v1', 'Jon Smith', '5551234567'),
+      signup('s2', null, 'Jon Smith', '5551234567'),
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,184 @@
+import { supabase } from './supabase';
+import { diceCoefficient } from './similarity';
+
+export interface ProfileRecord {
+  id: string;
+  name: string;
+  phone_number: string;
+}
+
+export interface DuplicateGroup<T extends ProfileRecord = ProfileRecord> {
+  key: string;
+  volunteers: T[];
+  reasons: string[];
+}
+
+export interface SignupRecord {
+  id: string;
+  volunteer_id: string | null;
+  position_id: string;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface SignupDuplicateGroup<T extends SignupRecord = SignupRecord> extends DuplicateGroup {
+  signups: T[];
+}
+
+const NAME_ONLY_THRESHOLD = 0.85;
+const NAME_WITH_PHONE_THRESHOLD = 0.5;
+
+// Digits only, without a leading US country code
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
+// Ten digits including the area code. Shorter numbers can't be compared:
+// "555-1234" could be in any area code.
+export const isFullPhone = (phone: string) => normalizePhone(phone).length === 10;
+
+export function phonesMatch(a: string, b: string): boolean {
+  return isFullPhone(a) && normalizePhone(a) === normalizePhone(b);
+}
+
+const nameTokens = (name: string) =>
+  name.toLowerCase().replace(/[^a-z\s'-]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Compares last names strictly and first names loosely, so "Jon Smith" and
+// "Jonathan Smith" score high while "Jon Smith" and "Jon Baker" do not.
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (!tokensA.length || !tokensB.length) return 0;
+  if (tokensA.length === 1 || tokensB.length === 1) {
+    return diceCoefficient(tokensA.join(' '), tokensB.join(' '));
+  }
+
+  const firstA = tokensA[0];
+  const firstB = tokensB[0];
+  const firstScore = firstA === firstB
+    ? 1
+    : firstA.startsWith(firstB) || firstB.startsWith(firstA)
+    ? 0.9
+    : diceCoefficient(firstA, firstB);
+  const lastScore = diceCoefficient(tokensA[tokensA.length - 1], tokensB[tokensB.length - 1]);
+
+  return 0.6 * lastScore + 0.4 * firstScore;
+}
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Pairs a coordinator marked as different people, as pair keys
+export async function fetchDismissedPairs(organizationId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('volunteer_duplicate_dismissals')
+    .select('volunteer_a, volunteer_b')
+    .eq('organization_id', organizationId);
+  if (error) throw error;
+  return new Set(data.map(pair => pairKey(pair.volunteer_a, pair.volunteer_b)));
+}
+
+export async function dismissDuplicateGroup(organizationId: string, group: DuplicateGroup) {
+  const pairs = group.volunteers.flatMap((a, i) =>
+    group.volunteers.slice(i + 1).map(b => {
+      const [volunteer_a, volunteer_b] = [a.id, b.id].sort();
+      return { organization_id: organizationId, volunteer_a, volunteer_b };
+    })
+  );
+  const { error } = await supabase
+    .from('volunteer_duplicate_dismissals')
+    .upsert(pairs, { onConflict: 'volunteer_a,volunteer_b', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+// Groups volunteer profiles that likely belong to the same person. Two profiles
+// are linked when their phone numbers match and names are similar, or when their
+// names are nearly identical and neither phone number contradicts the other.
+export function findDuplicateGroups<T extends ProfileRecord>(
+  volunteers: T[],
+  dismissed: Set<string> = new Set()
+): DuplicateGroup<T>[] {
+  const parent = volunteers.map((_, index) => index);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<string>>();
+
+  volunteers.forEach((a, i) => {
+    volunteers.slice(i + 1).forEach((b, offset) => {
+      const j = i + 1 + offset;
+      if (dismissed.has(pairKey(a.id, b.id))) return;
+
+      const samePhone = phonesMatch(a.phone_number, b.phone_number);
+      const hasBothPhones = isFullPhone(a.phone_number) && isFullPhone(b.phone_number);
+      const similarity = nameSimilarity(a.name, b.name);
+
+      let reason: string | null = null;
+      if (samePhone && similarity >= NAME_WITH_PHONE_THRESHOLD) {
+        reason = 'Same phone number';
+      } else if (similarity >= NAME_ONLY_THRESHOLD && (!hasBothPhones || samePhone)) {
+        reason = 'Similar name';
+      }
+      if (!reason) return;
+
+      const root = find(i);
+      parent[find(j)] = root;
+      reasons.set(root, new Set([...(reasons.get(root) ?? []), reason]));
+    });
+  });
+
+  const groups = new Map<number, T[]>();
+  volunteers.forEach((volunteer, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), volunteer]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      key: members.map(m => m.id).sort().join('|'),
+      volunteers: members,
+      reasons: [...new Set(
+        [...reasons.entries()].filter(([r]) => find(r) === root).flatMap(([, set]) => [...set])
+      )],
+    }));
+}
+
+// Groups signups by the profile they are linked to and reports the signups of
+// profiles that likely belong to the same person. Signups without a profile
+// cannot be merged and are left out.
+export function findDuplicateSignupGroups<T extends SignupRecord>(
+  signups: T[],
+  dismissed: Set<string> = new Set()
+): SignupDuplicateGroup<T>[] {
+  const profiles = new Map<string, ProfileRecord>();
+  signups.forEach(signup => {
+    if (signup.volunteer_id && !profiles.has(signup.volunteer_id)) {
+      profiles.set(signup.volunteer_id, {
+        id: signup.volunteer_id,
+        name: signup.volunteer_name,
+        phone_number: signup.phone_number,
+      });
+    }
+  });
+
+  return findDuplicateGroups([...profiles.values()], dismissed).map(group => {
+    const ids = new Set(group.volunteers.map(v => v.id));
+    return { ...group, signups: signups.filter(s => s.volunteer_id && ids.has(s.volunteer_id)) };
+  });
+}
+
+// Keeps the primary profile and moves everything recorded under the others to
+// it, signups included. The other profiles are deleted, and signups that now
+// repeat the same shift of a position go to the trash.
+export async function mergeDuplicateGroup(group: DuplicateGroup, primaryId: string) {
+  if (!group.volunteers.some(v => v.id === primaryId)) {
+    throw new Error('Primary volunteer is not part of this group');
+  }
+  const { error } = await supabase.rpc('merge_volunteers', {
+    primary_volunteer: primaryId,
+    duplicate_volunteers: group.volunteers.filter(v => v.id !== primaryId).map(v => v.id),
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+
+export type EventStatus = 'draft' | 'published' | 'live' | 'closed' | 'archived';
+
+export const STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  live: 'Live',
+  closed: 'Closed',
+  archived: 'Archived',
+};
+
+export const STATUS_COLORS: Record<EventStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  published: 'bg-blue-100 text-blue-800',
+  live: 'bg-green-100 text-green-800',
+  closed: 'bg-yellow-100 text-yellow-800',
+  archived: 'bg-gray-200 text-gray-600',
+};
+
+// Mirrors event_status_transition_allowed in the database
+export const STATUS_TRANSITIONS: Record<EventStatus, { to: EventStatus; label: string }[]> = {
+  draft: [
+    { to: 'published', label: 'Publish' },
+    { to: 'archived', label: 'Archive' },
+  ],
+  published: [
+    { to: 'live', label: 'Go Live' },
+    { to: 'draft', label: 'Unpublish' },
+    { to: 'closed', label: 'Close' },
+  ],
+  live: [
+    { to: 'closed', label: 'Close' },
+  ],
+  closed: [
+    { to: 'live', label: 'Reopen' },
+    { to: 'archived', label: 'Archive' },
+  ],
+  archived: [
+    { to: 'closed', label: 'Unarchive' },
+  ],
+};
+
+// Signups and waitlists are frozen once an event closes
+export const acceptsAssignments = (status: EventStatus) =>
+  status === 'draft' || status === 'published' || status === 'live';
+
+export async function setEventStatus(eventId: string, status: EventStatus) {
+  const { error } = await supabase
+    .from('events')
+    .update({ status })
+    .eq('id', eventId);
+  if (error) throw error;
+}
@@ -0,0 +1,194 @@
+import { supabase } from './supabase';
+import { downloadFile, fileSlug } from './download';
+import { Json } from './database.types';
+
+export type GeoExportFormat = 'geojson' | 'kml';
+export type StaffingStatus = 'filled' | 'partial' | 'needs';
+
+export interface GeoPosition {
+  id: string;
+  name: string;
+  needed: number;
+  filled: number;
+  skill_level: string | null;
+  description: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface GeoZone {
+  id: string;
+  name: string;
+  status: string | null;
+  volunteer_count: number | null;
+  boundary: Json | null;
+}
+
+interface PolygonGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: number[][][] | number[][][][];
+}
+
+// Same buckets as the status filter on the event overview
+export function staffingStatus(filled: number, needed: number): StaffingStatus {
+  if (filled >= needed) return 'filled';
+  if (filled > 0) return 'partial';
+  return 'needs';
+}
+
+const asPolygon = (boundary: Json | null): PolygonGeometry | null => {
+  const geometry = boundary as PolygonGeometry | null;
+  return geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') && Array.isArray(geometry.coordinates)
+    ? geometry
+    : null;
+};
+
+export function toGeoJSON(positions: GeoPosition[], zones: GeoZone[] = []) {
+  const zoneFeatures = zones.flatMap(zone => {
+    const geometry = asPolygon(zone.boundary);
+    if (!geometry) return [];
+    return [{
+      type: 'Feature' as const,
+      id: zone.id,
+      geometry,
+      properties: {
+        kind: 'zone',
+        name: zone.name,
+        status: zone.status,
+        volunteer_count: zone.volunteer_count,
+      },
+    }];
+  });
+
+  // Positions not placed on the map yet keep their properties without a geometry
+  const positionFeatures = positions.map(position => ({
+    type: 'Feature' as const,
+    id: position.id,
+    geometry: position.latitude === null || position.longitude === null
+      ? null
+      : { type: 'Point' as const, coordinates: [position.longitude, position.latitude] },
+    properties: {
+      kind: 'position',
+      name: position.name,
+      needed: position.needed,
+      filled: position.filled,
+      skill_level: position.skill_level,
+      description: position.description,
+      status: staffingStatus(position.filled, position.needed),
+    },
+  }));
+
+  return {
+    type: 'FeatureCollection' as const,
+    features: [...zoneFeatures, ...positionFeatures],
+  };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const extendedData = (data: Record<string, string | number | null>) =>
+  `<ExtendedData>${Object.entries(data)
+    .filter(([, value]) => value !== null && value !== '')
+    .map(([key, value]) => `<Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('')}</ExtendedData>`;
+
+const kmlRing = (ring: number[][]) =>
+  `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat},0`).join(' ')}</coordinates></LinearRing>`;
+
+const kmlPolygon = (rings: number[][][]) => {
+  const [outer, ...holes] = rings;
+  return `<Polygon><outerBoundaryIs>${kmlRing(outer)}</outerBoundaryIs>${holes
+    .map(hole => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`)
+    .join('')}</Polygon>`;
+};
+
+// KML colors are aabbggrr
+const STATUS_STYLES: Record<StaffingStatus, string> = {
+  filled: 'ff5ec522',
+  partial: 'ff08b3ea',
+  needs: 'ff4444ef',
+};
+
+export function toKML(eventName: string, positions: GeoPosition[], zones: GeoZone[] = []): string {
+  const styles = Object.entries(STATUS_STYLES)
+    .map(([status, color]) => `<Style id="${status}"><IconStyle><color>${color}</color></IconStyle></Style>`)
+    .join('');
+
+  const zonePlacemarks = zones.flatMap(zone => {
+    const geometry = asPolygon(zone.boundary);
+    if (!geometry) return [];
+    const shape = geometry.type === 'Polygon'
+      ? kmlPolygon(geometry.coordinates as number[][][])
+      : `<MultiGeometry>${(geometry.coordinates as number[][][][]).map(kmlPolygon).join('')}</MultiGeometry>`;
+    return [`<Placemark><name>${escapeXml(zone.name)}</name>${extendedData({
+      kind: 'zone',
+      status: zone.status,
+      volunteer_count: zone.volunteer_count,
+    })}${shape}</Placemark>`];
+  });
+
+  // A placemark needs a location, so positions not placed on the map are left out
+  const positionPlacemarks = positions.flatMap(position => {
+    if (position.latitude === null || position.longitude === null) return [];
+    const status = staffingStatus(position.filled, position.needed);
+    return [`<Placemark><name>${escapeXml(position.name)}</name>${
+      position.description ? `<description>${escapeXml(position.description)}</description>` : ''
+    }<styleUrl>#${status}</styleUrl>${extendedData({
+      kind: 'position',
+      needed: position.needed,
+      filled: position.filled,
+      skill_level: position.skill_level,
+      status,
+    })}<Point><coordinates>${position.longitude},${position.latitude},0</coordinates></Point></Placemark>`];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+    `<name>${escapeXml(eventName)}</name>`,
+    styles,
+    ...zonePlacemarks,
+    ...positionPlacemarks,
+    '</Document></kml>',
+  ].join('\n');
+}
+
+export function downloadGeoData(
+  format: GeoExportFormat,
+  eventName: string,
+  positions: GeoPosition[],
+  zones: GeoZone[] = []
+) {
+  const fileName = `event-positions-${fileSlug(eventName)}`;
+  if (format === 'geojson') {
+    downloadFile(JSON.stringify(toGeoJSON(positions, zones), null, 2), `${fileName}.geojson`, 'application/geo+json');
+  } else {
+    downloadFile(toKML(eventName, positions, zones), `${fileName}.kml`, 'application/vnd.google-earth.kml+xml');
+  }
+}
+
+export async function fetchEventGeoData(eventId: string) {
+  const [positionsResult, zonesResult] = await Promise.all([
+    supabase
+      .from('volunteer_positions')
+      .select('id, name, needed, filled, skill_level, description, latitude, longitude')
+      .eq('event_id', eventId),
+    supabase
+      .from('zones')
+      .select('id, name, status, volunteer_count, boundary')
+      .eq('event_id', eventId),
+  ]);
+  if (positionsResult.error) throw positionsResult.error;
+  if (zonesResult.error) throw zonesResult.error;
+
+  return {
+    positions: positionsResult.data as GeoPosition[],
+    zones: zonesResult.data as GeoZone[],
+  };
+}
@@ -0,0 +1,234 @@
+import Papa from 'papaparse';
+import { supabase } from './supabase';
+import { Json } from './database.types';
+import { formatDate, formatTime, zonedDate } from './datetime';
+import { formatHours } from './attendance';
+import { downloadFile } from './download';
+
+export interface HoursLine {
+  signup_id: string;
+  volunteer_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  email: string | null;
+  event_name: string;
+  position_name: string;
+  timezone: string;
+  starts_at: string;
+  ends_at: string;
+  checked_in_at: string | null;
+  checked_out_at: string | null;
+  minutes: number;
+  // 'recorded' when checked in and out, 'scheduled' when only the arrival is known
+  basis: 'recorded' | 'scheduled';
+}
+
+interface HoursSignup {
+  id: string;
+  volunteer_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+  checked_in_at: string | null;
+  checked_out_at: string | null;
+  served_minutes: number | null;
+  volunteer: { email: string | null } | null;
+  position: {
+    name: string;
+    event: { name: string; timezone: string };
+  };
+}
+
+export interface CertificateShift {
+  event_name: string;
+  position_name: string;
+  timezone: string;
+  starts_at: string;
+  ends_at: string;
+  minutes: number;
+}
+
+export interface HoursCertificate {
+  id: string;
+  volunteer_id: string;
+  volunteer_name: string;
+  organization_name: string;
+  period_start: string;
+  period_end: string;
+  total_minutes: number;
+  shifts: CertificateShift[];
+  verification_code: string;
+  approved_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Checked-out signups count the time actually served. Volunteers who arrived
+// but were never checked out are credited their scheduled shift.
+function toHoursLine(signup: HoursSignup): HoursLine {
+  const recorded = signup.served_minutes !== null;
+  return {
+    signup_id: signup.id,
+    volunteer_id: signup.volunteer_id,
+    volunteer_name: signup.volunteer_name,
+    phone_number: signup.phone_number,
+    email: signup.volunteer?.email ?? null,
+    event_name: signup.position.event.name,
+    position_name: signup.position.name,
+    timezone: signup.position.event.timezone,
+    starts_at: signup.starts_at,
+    ends_at: signup.ends_at,
+    checked_in_at: signup.checked_in_at,
+    checked_out_at: signup.checked_out_at,
+    minutes: recorded
+      ? signup.served_minutes!
+      : Math.round((Date.parse(signup.ends_at) - Date.parse(signup.starts_at)) / 60000),
+    basis: recorded ? 'recorded' : 'scheduled',
+  };
+}
+
+// Attended shifts starting between two calendar dates ("2025-01-01"),
+// inclusive, in each event's own time zone. Pass organizationId instead of
+// volunteerId for everyone in an organization.
+export async function fetchHoursLines({ volunteerId, organizationId, from, to }: {
+  volunteerId?: string;
+  organizationId?: string;
+  from: string;
+  to: string;
+}): Promise<HoursLine[]> {
+  let query = supabase
+    .from('volunteer_signups')
+    .select(`
+      id,
+      volunteer_id,
+      volunteer_name,
+      phone_number,
+      starts_at,
+      ends_at,
+      checked_in_at,
+      checked_out_at,
+      served_minutes,
+      volunteer:volunteers(email),
+      position:volunteer_positions!inner(
+        name,
+        event:events!inner(name, timezone)
+      )
+    `)
+    .eq('arrived', true)
+    // Widened by a day each side; the exact cut is made per event zone below
+    .gte('starts_at', new Date(Date.parse(from) - DAY_MS).toISOString())
+    .lt('starts_at', new Date(Date.parse(to) + 2 * DAY_MS).toISOString())
+    .order('starts_at', { ascending: true });
+  if (volunteerId) query = query.eq('volunteer_id', volunteerId);
+  if (organizationId) query = query.eq('position.event.organization_id', organizationId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data as unknown as HoursSignup[])
+    .filter(signup => {
+      const date = zonedDate(signup.starts_at, signup.position.event.timezone);
+      return date >= from && date <= to;
+    })
+    .map(toHoursLine);
+}
+
+export const totalLineMinutes = (lines: Pick<HoursLine, 'minutes'>[]) =>
+  lines.reduce((sum, line) => sum + line.minutes, 0);
+
+export function hoursCsv(lines: HoursLine[]): string {
+  return Papa.unparse(lines.map(line => ({
+    Volunteer: line.volunteer_name,
+    Phone: line.phone_number,
+    Email: line.email ?? '',
+    Event: line.event_name,
+    Position: line.position_name,
+    Date: formatDate(line.starts_at, line.timezone),
+    'Shift Start': formatTime(line.starts_at, line.timezone),
+    'Shift End': formatTime(line.ends_at, line.timezone),
+    'Checked In': line.checked_in_at ? formatTime(line.checked_in_at, line.timezone) : '',
+    'Checked Out': line.checked_out_at ? formatTime(line.checked_out_at, line.timezone) : '',
+    Hours: formatHours(line.minutes),
+    Basis: line.basis,
+  })));
+}
+
+// Every volunteer's attended shifts in the period, for the coordinator's records
+export async function downloadHoursReport(organizationId: string, from: string, to: string) {
+  const lines = await fetchHoursLines({ organizationId, from, to });
+  if (lines.length === 0) {
+    throw new Error('No attended shifts in this period');
+  }
+  downloadFile(hoursCsv(lines), `volunteer-hours-${from}-${to}.csv`, 'text/csv;charset=utf-8;');
+}
+
+export async function fetchHoursCertificates(volunteerId: string): Promise<HoursCertificate[]> {
+  const { data, error } = await supabase
+    .from('hours_certificates')
+    .select('*')
+    .eq('volunteer_id', volunteerId)
+    .order('approved_at', { ascending: false });
+  if (error) throw error;
+  return data as unknown as HoursCertificate[];
+}
+
+export async function fetchHoursCertificate(id: string): Promise<HoursCertificate> {
+  const { data, error } = await supabase
+    .from('hours_certificates')
+    .select('*')
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data as unknown as HoursCertificate;
+}
+
+// Approving the report freezes its lines into a certificate with its own
+// verification code
+export async function issueHoursCertificate({ volunteer, organizationName, from, to, lines }: {
+  volunteer: { id: string; name: string };
+  organizationName: string;
+  from: string;
+  to: string;
+  lines: HoursLine[];
+}): Promise<HoursCertificate> {
+  if (lines.length === 0) {
+    throw new Error('There are no attended shifts in this period');
+  }
+
+  const shifts: CertificateShift[] = lines.map(line => ({
+    event_name: line.event_name,
+    position_name: line.position_name,
+    timezone: line.timezone,
+    starts_at: line.starts_at,
+    ends_at: line.ends_at,
+    minutes: line.minutes,
+  }));
+
+  const { data, error } = await supabase
+    .from('hours_certificates')
+    .insert({
+      volunteer_id: volunteer.id,
+      volunteer_name: volunteer.name,
+      organization_name: organizationName.trim(),
+      period_start: from,
+      period_end: to,
+      total_minutes: totalLineMinutes(lines),
+      shifts: shifts as unknown as Json,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as unknown as HoursCertificate;
+}
+
+export async function revokeHoursCertificate(id: string) {
+  const { error } = await supabase
+    .from('hours_certificates')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export const certificateVerifyUrl = (code: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/verify-certificate?code=${code}`;
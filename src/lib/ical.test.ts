@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { CalendarEvent, buildCalendar, shiftBounds, shiftToCalendarEvent, zonedTimeToUtc } from './ical';
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: 'signup-1@volunteer-manager',
+  start: new Date('2025-04-12T14:00:00Z'),
+  end: new Date('2025-04-12T18:00:00Z'),
+  summary: 'Spring Run - Water Station',
+  ...overrides,
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+const lines = (calendar: string) => calendar.split('\r\n');
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+describe('buildCalendar', () => {
+  it('writes events with CRLF line endings', () => {
+    const calendar = buildCalendar('Shifts', [event()]);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines(calendar)).toEqual(expect.arrayContaining([
+      'X-WR-CALNAME:Shifts',
+      'BEGIN:VEVENT',
+      'UID:signup-1@volunteer-manager',
+      'DTSTART:20250412T140000Z',
+      'DTEND:20250412T180000Z',
+      'SUMMARY:Spring Run - Water Station',
+      'END:VEVENT',
+    ]));
+  });
+
+  it('leaves out an empty description and location', () => {
+    const calendar = buildCalendar('Shifts', [event({ description: null, location: '' })]);
+    expect(calendar).not.toContain('DESCRIPTION:');
+    expect(calendar).not.toContain('LOCATION:');
+  });
+
+  it('escapes text values', () => {
+    const calendar = buildCalendar('Shifts', [event({ summary: 'Tables; chairs, signs\\tents\nand cones' })]);
+    expect(lines(calendar)).toContain('SUMMARY:Tables\\; chairs\\, signs\\\\tents\\nand cones');
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const calendar = buildCalendar('Shifts', [event({ description: 'a'.repeat(100) })]);
+    const index = lines(calendar).indexOf(`DESCRIPTION:${'a'.repeat(63)}`);
+    expect(index).toBeGreaterThan(-1);
+    expect(lines(calendar)[index + 1]).toBe(` ${'a'.repeat(37)}`);
+  });
+
+  it('counts multibyte characters by their UTF-8 length', () => {
+    const description = 'Café crêpes 🎉 '.repeat(20);
+    const calendar = buildCalendar('Shifts', [event({ description })]);
+    lines(calendar).forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+    expect(lines(calendar).some(line => /[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/.test(line))).toBe(false);
+    expect(lines(unfold(calendar))).toContain(`DESCRIPTION:${description}`);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('reads wall-clock time in the given zone', () => {
+    expect(zonedTimeToUtc('2025-04-12', '07:30', 'America/New_York').toISOString())
+      .toBe('2025-04-12T11:30:00.000Z');
+  });
+
+  it('uses the offset in effect on either side of a DST change', () => {
+    expect(zonedTimeToUtc('2025-03-08', '12:00', 'America/New_York').toISOString())
+      .toBe('2025-03-08T17:00:00.000Z');
+    expect(zonedTimeToUtc('2025-03-09', '12:00:00', 'America/New_York').toISOString())
+      .toBe('2025-03-09T16:00:00.000Z');
+  });
+});
+
+describe('shiftBounds', () => {
+  it('runs a shift ending before it starts past midnight', () => {
+    const { start, end } = shiftBounds('2025-04-12', '22:00', '02:00', 'UTC');
+    expect(start.toISOString()).toBe('2025-04-12T22:00:00.000Z');
+    expect(end.toISOString()).toBe('2025-04-13T02:00:00.000Z');
+  });
+});
+
+describe('shiftToCalendarEvent', () => {
+  it('names the event and position', () => {
+    expect(shiftToCalendarEvent({
+      id: 's1',
+      starts_at: '2025-04-12T14:00:00Z',
+      ends_at: '2025-04-12T18:00:00Z',
+      position: {
+        name: 'Water Station',
+        description: 'Bring a hat',
+        event: { name: 'Spring Run', location: 'City Park' },
+      },
+    })).toEqual({
+      uid: 'signup-s1@volunteer-manager',
+      start: new Date('2025-04-12T14:00:00Z'),
+      end: new Date('2025-04-12T18:00:00Z'),
+      summary: 'Spring Run - Water Station',
+      description: 'Bring a hat',
+      location: 'City Park',
+    });
+  });
+});
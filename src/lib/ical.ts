@@ -0,0 +1,3 @@
+// The iCalendar code lives with the edge functions, which can only bundle
+// files under supabase/functions
+export * from '../../supabase/functions/_shared/ical';
@@ -0,0 +1,182 @@
+import { supabase } from './supabase';
+import { resolveVolunteerIds } from './volunteers';
+import { shiftBounds } from './ical';
+import { formatShift, zonedDate } from './datetime';
+import { StructuredSignUpData } from '../types';
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'changed' | 'invalid';
+
+export interface ExistingSignup {
+  id: string;
+  position_id: string;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface ImportEvent {
+  id: string;
+  organization_id: string;
+  starts_at: string;
+  timezone: string;
+}
+
+export interface ImportRowDiff {
+  row: StructuredSignUpData;
+  status: ImportRowStatus;
+  details: string[];
+}
+
+export type ImportSummary = Record<ImportRowStatus, number>;
+
+export interface ImportBatch {
+  id: string;
+  event_id: string;
+  user_email: string | null;
+  file_name: string;
+  total_rows: number;
+  inserted_rows: number;
+  duplicate_rows: number;
+  changed_rows: number;
+  invalid_rows: number;
+  status: 'committed' | 'reverted';
+  created_at: string;
+  reverted_at: string | null;
+  event: { name: string } | null;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+const signupKey = (positionId: string, name: string) => `${positionId}|${normalizeName(name)}`;
+
+// Sign-up sheets give wall-clock times in the event's zone. Rows without their
+// own date fall on the day the event starts.
+export function importRowShift(row: StructuredSignUpData, event: ImportEvent) {
+  const date = row.start_date || zonedDate(event.starts_at, event.timezone);
+  const { start, end } = shiftBounds(date, row.start_time, row.end_time, event.timezone);
+  return { starts_at: start.toISOString(), ends_at: end.toISOString() };
+}
+
+// Compare parsed rows with what is already stored for the event. A row is a
+// duplicate when the same person already holds the same position with the same
+// details, and changed when they hold it with a different shift or phone.
+export function diffImportRows(
+  rows: StructuredSignUpData[],
+  existing: ExistingSignup[],
+  event: ImportEvent
+): ImportRowDiff[] {
+  const stored = new Map<string, ExistingSignup[]>();
+  existing.forEach(signup => {
+    const key = signupKey(signup.position_id, signup.volunteer_name);
+    stored.set(key, [...(stored.get(key) ?? []), signup]);
+  });
+  const seenInFile = new Set<string>();
+
+  return rows.map(row => {
+    if (row.errors.length > 0 || !row.position_id) {
+      return { row, status: 'invalid', details: row.errors };
+    }
+
+    const key = signupKey(row.position_id, row.volunteer_name);
+    const shift = importRowShift(row, event);
+    const fileKey = `${key}|${shift.starts_at}|${shift.ends_at}`;
+    if (seenInFile.has(fileKey)) {
+      return { row, status: 'duplicate', details: ['Repeated in this file'] };
+    }
+    seenInFile.add(fileKey);
+
+    const matches = stored.get(key);
+    if (!matches) {
+      return { row, status: 'new', details: [] };
+    }
+
+    const differences = matches.map(signup => {
+      const changes: string[] = [];
+      if (Date.parse(signup.starts_at) !== Date.parse(shift.starts_at) || Date.parse(signup.ends_at) !== Date.parse(shift.ends_at)) {
+        changes.push(`Shift ${formatShift(signup.starts_at, signup.ends_at, event.timezone)} → ${formatShift(shift.starts_at, shift.ends_at, event.timezone)}`);
+      }
+      if (normalizePhone(signup.phone_number) !== normalizePhone(row.phone_number)) {
+        changes.push(`Phone ${signup.phone_number || 'none'} → ${row.phone_number || 'none'}`);
+      }
+      return changes;
+    });
+
+    if (differences.some(changes => changes.length === 0)) {
+      return { row, status: 'duplicate', details: ['Already signed up'] };
+    }
+    return { row, status: 'changed', details: differences[0] };
+  });
+}
+
+export function summarizeDiff(diff: ImportRowDiff[]): ImportSummary {
+  return diff.reduce<ImportSummary>(
+    (summary, entry) => ({ ...summary, [entry.status]: summary[entry.status] + 1 }),
+    { new: 0, duplicate: 0, changed: 0, invalid: 0 }
+  );
+}
+
+export async function fetchExistingSignups(eventId: string): Promise<ExistingSignup[]> {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .select('id, position_id, volunteer_name, phone_number, starts_at, ends_at, position:volunteer_positions!inner(event_id)')
+    .eq('position.event_id', eventId);
+  if (error) throw error;
+  return (data ?? []) as unknown as ExistingSignup[];
+}
+
+export async function fetchImportBatches(organizationId: string): Promise<ImportBatch[]> {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .select('*, event:events!inner(name)')
+    .eq('event.organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(25);
+  if (error) throw error;
+  return (data ?? []) as unknown as ImportBatch[];
+}
+
+interface CommitImportOptions {
+  event: ImportEvent;
+  fileName: string;
+  userEmail: string | null;
+  rows: StructuredSignUpData[];
+  summary: ImportSummary;
+}
+
+// Links each row to a volunteer profile, then records the batch and its
+// signups in one call so a failed insert leaves no empty batch behind.
+export async function commitImportBatch({ event, fileName, userEmail, rows, summary }: CommitImportOptions) {
+  const volunteerIds = await resolveVolunteerIds(
+    event.organization_id,
+    rows.map(row => ({ name: row.volunteer_name, phone: row.phone_number }))
+  );
+
+  const { data, error } = await supabase.rpc('commit_import_batch', {
+    batch: {
+      event_id: event.id,
+      user_email: userEmail,
+      file_name: fileName,
+      total_rows: summary.new + summary.duplicate + summary.changed + summary.invalid,
+      duplicate_rows: summary.duplicate,
+      changed_rows: summary.changed,
+      invalid_rows: summary.invalid,
+    },
+    signups: rows.map((row, index) => ({
+      position_id: row.position_id as string,
+      volunteer_id: volunteerIds[index],
+      volunteer_name: row.volunteer_name,
+      phone_number: row.phone_number,
+      ...importRowShift(row, event),
+    })),
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function revertImportBatch(batchId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('revert_import_batch', { batch_id: batchId });
+  if (error) throw error;
+  return data ?? 0;
+}
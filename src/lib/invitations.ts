@@ -0,0 +1,72 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { OrganizationRole } from './roles';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+  expires_at: string;
+  created_at: string;
+}
+
+// What the invitee sees before accepting
+export interface InvitationDetails {
+  organization_name: string;
+  email: string;
+  role: OrganizationRole;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+export const invitationUrl = (token: string) =>
+  `${window.location.origin}/accept-invite?token=${token}`;
+
+// Pending invitations, expired ones included so they can be resent or revoked
+export async function fetchPendingInvitations(organizationId: string): Promise<Invitation[]> {
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .select('id, email, role, token, expires_at, created_at')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+// Replaces any pending invitation for the same address, so inviting again
+// resends with a fresh link. The send-invitation edge function records the
+// invitation and sends the email.
+export async function inviteMember(organizationId: string, email: string, role: OrganizationRole) {
+  const { error } = await supabase.functions.invoke('send-invitation', {
+    body: { organization_id: organizationId, email: email.trim().toLowerCase(), role },
+  });
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+}
+
+export async function revokeInvitation(id: string) {
+  const { error } = await supabase
+    .from('organization_invitations')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+}
+
+// Null when the token doesn't match an invitation, e.g. after it was revoked
+export async function fetchInvitation(token: string): Promise<InvitationDetails | null> {
+  const { data, error } = await supabase.rpc('invitation_details', { invitation_token: token });
+  if (error) throw error;
+  return data[0] ?? null;
+}
+
+// Returns the organization joined
+export async function acceptInvitation(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_invitation', { invitation_token: token });
+  if (error) throw error;
+  return data;
+}
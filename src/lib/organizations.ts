@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+import { OrganizationRole } from './roles';
+
+export interface Organization {
+  id: string;
+  name: string;
+  trash_retention_days: number;
+  // The signed-in user's role
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  email: string;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+export async function fetchOrganizations(userId: string): Promise<Organization[]> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('id, name, trash_retention_days, membership:organization_members!inner(role)')
+    .eq('membership.user_id', userId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return data.map(({ membership, ...organization }) => ({ ...organization, role: membership[0].role }));
+}
+
+// The caller becomes the first member
+export async function createOrganization(name: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_organization', { organization_name: name.trim() });
+  if (error) throw error;
+  return data;
+}
+
+export async function renameOrganization(id: string, name: string) {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ name: name.trim() })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function fetchOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id, email, role, created_at')
+    .eq('organization_id', organizationId)
+    .order('email', { ascending: true });
+  if (error) throw error;
+  return data;
+}
+
+// Owners only. The last owner cannot step down.
+export async function changeMemberRole(organizationId: string, userId: string, role: OrganizationRole) {
+  const { error } = await supabase
+    .from('organization_members')
+    .update({ role })
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Also used to leave an organization. The last owner cannot be removed.
+export async function removeOrganizationMember(organizationId: string, userId: string) {
+  const { error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import { parseSpreadsheet } from './signUpImport';
+import { RawSignUpData } from '../types';
+
+export const SKILL_LEVELS = ['Beginner', 'Intermediate', 'Advanced', 'Expert'];
+
+export const POSITION_IMPORT_ACCEPT = '.csv,.tsv,.xlsx,.geojson,.json';
+
+export interface PositionDraft {
+  row: number;
+  name: string;
+  needed: number;
+  description: string | null;
+  skill_level: string | null;
+  latitude: number;
+  longitude: number;
+  errors: string[];
+}
+
+type DraftFields = Omit<PositionDraft, 'row' | 'errors'>;
+
+const COLUMN_ALIASES: Record<keyof DraftFields, string[]> = {
+  name: ['name', 'position', 'title'],
+  needed: ['needed', 'count', 'volunteers', 'volunteers needed'],
+  description: ['description', 'notes', 'details'],
+  skill_level: ['skill_level', 'skill level', 'skill'],
+  latitude: ['lat', 'latitude', 'y'],
+  longitude: ['lng', 'lon', 'long', 'longitude', 'x'],
+};
+
+const readField = (source: Record<string, unknown>, field: keyof DraftFields) => {
+  const key = Object.keys(source).find(k => COLUMN_ALIASES[field].includes(k.trim().toLowerCase()));
+  const value = key ? source[key] : undefined;
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+const parseNumber = (value: string) => (value === '' ? NaN : Number(value));
+
+function buildDraft(row: number, fields: Record<keyof DraftFields, string>, errors: string[] = []): PositionDraft {
+  const needed = parseNumber(fields.needed);
+  const latitude = parseNumber(fields.latitude);
+  const longitude = parseNumber(fields.longitude);
+  const skillLevel = SKILL_LEVELS.find(level => level.toLowerCase() === fields.skill_level.toLowerCase());
+
+  if (!fields.name) errors.push('Name is required');
+  if (!Number.isInteger(needed) || needed < 1) errors.push('Needed must be a whole number of at least 1');
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) errors.push('Latitude must be between -90 and 90');
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) errors.push('Longitude must be between -180 and 180');
+  if (fields.skill_level && !skillLevel) errors.push(`Skill level must be one of ${SKILL_LEVELS.join(', ')}`);
+
+  return {
+    row,
+    name: fields.name,
+    needed,
+    description: fields.description || null,
+    skill_level: skillLevel ?? null,
+    latitude,
+    longitude,
+    errors,
+  };
+}
+
+export function positionsFromRows(rows: RawSignUpData[]): PositionDraft[] {
+  return rows.map((row, index) => buildDraft(index + 1, {
+    name: readField(row, 'name'),
+    needed: readField(row, 'needed'),
+    description: readField(row, 'description'),
+    skill_level: readField(row, 'skill_level'),
+    latitude: readField(row, 'latitude'),
+    longitude: readField(row, 'longitude'),
+  }));
+}
+
+interface GeoJSONFeature {
+  type: string;
+  geometry?: { type: string; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+// Point features become positions; their properties map onto the same columns
+// as the CSV import. GeoJSON stores coordinates as [longitude, latitude].
+export function positionsFromGeoJSON(json: unknown): PositionDraft[] {
+  const collection = json as { type?: string; features?: GeoJSONFeature[] };
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  return collection.features.map((feature, index) => {
+    const properties = feature.properties ?? {};
+    const errors: string[] = [];
+    let coordinates: unknown[] = [];
+
+    if (feature.geometry?.type !== 'Point' || !Array.isArray(feature.geometry.coordinates)) {
+      errors.push(`Only Point features can be imported (found ${feature.geometry?.type ?? 'no geometry'})`);
+    } else {
+      coordinates = feature.geometry.coordinates;
+    }
+
+    return buildDraft(index + 1, {
+      name: readField(properties, 'name'),
+      needed: readField(properties, 'needed'),
+      description: readField(properties, 'description'),
+      skill_level: readField(properties, 'skill_level'),
+      longitude: coordinates[0] === undefined ? '' : String(coordinates[0]),
+      latitude: coordinates[1] === undefined ? '' : String(coordinates[1]),
+    }, errors);
+  });
+}
+
+export async function parsePositionFile(file: File): Promise<PositionDraft[]> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'geojson' || extension === 'json') {
+    return positionsFromGeoJSON(JSON.parse(await file.text()));
+  }
+
+  const [sheet] = await parseSpreadsheet(file);
+  if (!sheet) throw new Error('The file does not contain any rows');
+  return positionsFromRows(sheet.rows);
+}
+
+export async function insertPositions(eventId: string, userId: string, drafts: PositionDraft[]) {
+  const { error } = await supabase
+    .from('volunteer_positions')
+    .insert(drafts.map(draft => ({
+      event_id: eventId,
+      user_id: userId,
+      name: draft.name,
+      needed: draft.needed,
+      filled: 0,
+      description: draft.description,
+      skill_level: draft.skill_level,
+      latitude: draft.latitude,
+      longitude: draft.longitude,
+    })));
+  if (error) throw error;
+}
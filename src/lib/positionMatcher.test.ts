@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AUTO_ACCEPT_SCORE, matchItem, normalizeItemLabel, scoreMatch } from './positionMatcher';
+
+// The client needs credentials at import; these tests never reach it
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const positions = [
+  { id: 'p1', name: 'Water Station 1' },
+  { id: 'p2', name: 'Water Station 2' },
+  { id: 'p3', name: 'Registration' },
+];
+
+describe('scoreMatch', () => {
+  it('ignores case, punctuation, stop words and plurals', () => {
+    expect(scoreMatch('The Water Stations', 'water station')).toBe(1);
+    expect(scoreMatch('Food & Drinks', 'Food and Drink')).toBe(1);
+  });
+
+  it('scores a decorated label high against its position', () => {
+    expect(scoreMatch('Water Station #2 (AM)', 'Water Station 2')).toBeGreaterThanOrEqual(AUTO_ACCEPT_SCORE);
+  });
+
+  it('penalizes differing numbers', () => {
+    expect(scoreMatch('Water Station #2 (AM)', 'Water Station 3')).toBeLessThan(AUTO_ACCEPT_SCORE);
+  });
+
+  it('scores labels without words as 0', () => {
+    expect(scoreMatch('---', 'Registration')).toBe(0);
+  });
+});
+
+describe('matchItem', () => {
+  it('accepts a clear best match', () => {
+    const result = matchItem('Water Station #2', positions);
+    expect(result.status).toBe('auto');
+    expect(result.positionId).toBe('p2');
+    expect(result.suggestions[0].id).toBe('p2');
+  });
+
+  it('leaves a tie for review', () => {
+    const result = matchItem('Water Station', positions);
+    expect(result.status).toBe('ambiguous');
+    expect(result.positionId).toBeNull();
+    expect(result.suggestions.map(s => s.id).sort()).toEqual(['p1', 'p2']);
+  });
+
+  it('reports labels like no position as unmatched', () => {
+    expect(matchItem('Parking', positions)).toEqual({ status: 'unmatched', positionId: null, suggestions: [] });
+  });
+
+  it('prefers a remembered resolution', () => {
+    const result = matchItem('  Water   STATION ', positions, { [normalizeItemLabel('water station')]: 'p1' });
+    expect(result.status).toBe('remembered');
+    expect(result.positionId).toBe('p1');
+  });
+
+  it('ignores a remembered position that no longer exists', () => {
+    expect(matchItem('Water Station #2', positions, { 'water station #2': 'gone' }).status).toBe('auto');
+  });
+});
@@ -0,0 +1,117 @@
+import { supabase } from './supabase';
+import { diceCoefficient } from './similarity';
+import { PositionMapping } from '../types';
+
+export interface MatchCandidate {
+  id: string;
+  name: string;
+}
+
+export type MatchStatus = 'remembered' | 'auto' | 'ambiguous' | 'unmatched';
+
+export interface MatchResult {
+  status: MatchStatus;
+  positionId: string | null;
+  suggestions: { id: string; name: string; score: number }[];
+}
+
+// Scores at or above this are accepted without review, provided the runner-up
+// trails by at least AUTO_ACCEPT_MARGIN.
+export const AUTO_ACCEPT_SCORE = 0.75;
+export const AUTO_ACCEPT_MARGIN = 0.1;
+const SUGGESTION_SCORE = 0.4;
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'of', 'at', 'for', 'and']);
+
+export const normalizeItemLabel = (label: string) => label.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const tokenize = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+// Similarity between an imported item and a position name, from 0 to 1.
+// "Water Station #2 (AM)" scores high against "Water Station 2" but low
+// against "Water Station 3" because differing numbers are penalized.
+export function scoreMatch(item: string, positionName: string): number {
+  const tokensA = tokenize(item);
+  const tokensB = tokenize(positionName);
+  if (!tokensA.length || !tokensB.length) return 0;
+
+  const joinedA = tokensA.join('');
+  const joinedB = tokensB.join('');
+  if (joinedA === joinedB) return 1;
+
+  const setA = new Set(tokensA);
+  const setB = new Set(tokensB);
+  const shared = [...setA].filter(token => setB.has(token)).length;
+
+  const overlap = shared / Math.max(setA.size, setB.size);
+  const containment = shared / Math.min(setA.size, setB.size);
+  let score = 0.5 * diceCoefficient(joinedA, joinedB) + 0.3 * overlap + 0.2 * containment;
+
+  const numbersA = tokensA.filter(t => /^\d+$/.test(t));
+  const numbersB = tokensB.filter(t => /^\d+$/.test(t));
+  if (numbersA.length && numbersB.length && !numbersA.some(n => numbersB.includes(n))) {
+    score *= 0.6;
+  }
+
+  return Math.min(score, 1);
+}
+
+export function matchItem(
+  item: string,
+  positions: MatchCandidate[],
+  remembered: Record<string, string> = {}
+): MatchResult {
+  const suggestions = positions
+    .map(position => ({ id: position.id, name: position.name, score: scoreMatch(item, position.name) }))
+    .filter(candidate => candidate.score >= SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+
+  const rememberedId = remembered[normalizeItemLabel(item)];
+  if (rememberedId && positions.some(p => p.id === rememberedId)) {
+    return { status: 'remembered', positionId: rememberedId, suggestions };
+  }
+
+  const [best, runnerUp] = suggestions;
+  if (!best) {
+    return { status: 'unmatched', positionId: null, suggestions };
+  }
+  if (best.score >= AUTO_ACCEPT_SCORE && best.score - (runnerUp?.score ?? 0) >= AUTO_ACCEPT_MARGIN) {
+    return { status: 'auto', positionId: best.id, suggestions };
+  }
+  return { status: 'ambiguous', positionId: null, suggestions };
+}
+
+// Past item → position resolutions for an event, keyed by normalized item label
+export async function fetchRememberedMatches(eventId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('import_position_matches')
+    .select('item_label, position_id')
+    .eq('event_id', eventId);
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map(row => [row.item_label, row.position_id]));
+}
+
+export async function rememberMatches(eventId: string, userId: string, mapping: PositionMapping) {
+  const rows = Object.entries(mapping)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([item, positionId]) => ({
+      event_id: eventId,
+      item_label: normalizeItemLabel(item),
+      position_id: positionId,
+      user_id: userId,
+    }));
+  if (!rows.length) return;
+
+  const { error } = await supabase
+    .from('import_position_matches')
+    .upsert(rows, { onConflict: 'event_id,item_label' });
+  if (error) throw error;
+}
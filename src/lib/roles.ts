@@ -0,0 +1,29 @@
+export type OrganizationRole = 'owner' | 'coordinator' | 'captain' | 'viewer';
+
+// Highest first. Mirrors has_organization_role in the database: each role can
+// do everything the roles after it can.
+export const ROLES: OrganizationRole[] = ['owner', 'coordinator', 'captain', 'viewer'];
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  coordinator: 'Coordinator',
+  captain: 'Zone captain',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Everything, including deleting events and managing members',
+  coordinator: 'Creates and edits events, positions and volunteers',
+  captain: 'Checks volunteers in and out on the positions they captain',
+  viewer: 'Read-only access to the overview',
+};
+
+export const roleAtLeast = (role: OrganizationRole, required: OrganizationRole) =>
+  ROLES.indexOf(role) <= ROLES.indexOf(required);
+
+// Coordinators work every position, captains only the ones they captain
+export const canWorkPosition = (
+  role: OrganizationRole,
+  userId: string | undefined,
+  position: { captain_id: string | null }
+) => roleAtLeast(role, 'coordinator') || (role === 'captain' && !!userId && position.captain_id === userId);
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_OCCURRENCES, RecurrenceRule, describeRule, occurrenceDates } from './series';
+
+// The client needs credentials at import; these tests never reach it
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const weekly = (rule: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'weekly',
+  repeat_interval: 1,
+  weekdays: [],
+  month_week: null,
+  month_weekday: null,
+  starts_on: '2025-04-07',
+  until: '2025-04-20',
+  exceptions: [],
+  ...rule,
+});
+
+const monthly = (rule: Partial<RecurrenceRule>): RecurrenceRule => ({
+  ...weekly({}),
+  frequency: 'monthly',
+  ...rule,
+});
+
+describe('occurrenceDates', () => {
+  it('lists the chosen weekdays of every week', () => {
+    expect(occurrenceDates(weekly({ weekdays: [1, 3] }))).toEqual([
+      '2025-04-07', '2025-04-09', '2025-04-14', '2025-04-16',
+    ]);
+  });
+
+  it('counts weeks from the week holding the start date', () => {
+    expect(occurrenceDates(weekly({
+      weekdays: [1, 3],
+      repeat_interval: 2,
+      starts_on: '2025-04-09',
+      until: '2025-04-30',
+    }))).toEqual(['2025-04-09', '2025-04-21', '2025-04-23']);
+  });
+
+  it('includes the end date', () => {
+    expect(occurrenceDates(weekly({ weekdays: [0] }))).toEqual(['2025-04-13', '2025-04-20']);
+  });
+
+  it('leaves out exceptions', () => {
+    expect(occurrenceDates(weekly({ weekdays: [1], exceptions: ['2025-04-14'] }))).toEqual(['2025-04-07']);
+  });
+
+  it('finds the nth weekday of each month', () => {
+    expect(occurrenceDates(monthly({
+      month_week: 2,
+      month_weekday: 2,
+      starts_on: '2025-01-01',
+      until: '2025-04-30',
+    }))).toEqual(['2025-01-14', '2025-02-11', '2025-03-11', '2025-04-08']);
+  });
+
+  it('finds the last weekday of each month', () => {
+    expect(occurrenceDates(monthly({
+      month_week: -1,
+      month_weekday: 5,
+      starts_on: '2025-01-01',
+      until: '2025-03-31',
+    }))).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+  });
+
+  it('skips months across the turn of the year', () => {
+    expect(occurrenceDates(monthly({
+      month_week: -1,
+      month_weekday: 5,
+      repeat_interval: 2,
+      starts_on: '2024-11-01',
+      until: '2025-03-31',
+    }))).toEqual(['2024-11-29', '2025-01-31', '2025-03-28']);
+  });
+
+  it('leaves out a first month occurrence before the start date', () => {
+    expect(occurrenceDates(monthly({
+      month_week: 2,
+      month_weekday: 2,
+      starts_on: '2025-01-20',
+      until: '2025-02-28',
+    }))).toEqual(['2025-02-11']);
+  });
+
+  it('stops one past the occurrence limit', () => {
+    expect(occurrenceDates(weekly({
+      weekdays: [0, 1, 2, 3, 4, 5, 6],
+      starts_on: '2025-01-01',
+      until: '2025-12-31',
+    }))).toHaveLength(MAX_OCCURRENCES + 1);
+  });
+
+  it('returns nothing for rules that cannot repeat', () => {
+    expect(occurrenceDates(weekly({ weekdays: [] }))).toEqual([]);
+    expect(occurrenceDates(weekly({ weekdays: [1], repeat_interval: 0 }))).toEqual([]);
+    expect(occurrenceDates(weekly({ weekdays: [1], until: '2025-04-01' }))).toEqual([]);
+    expect(occurrenceDates(weekly({ weekdays: [1], until: '' }))).toEqual([]);
+    expect(occurrenceDates(monthly({ month_week: null, month_weekday: 2 }))).toEqual([]);
+  });
+});
+
+describe('describeRule', () => {
+  it('describes weekly rules with the days in week order', () => {
+    expect(describeRule(weekly({ weekdays: [3, 1], repeat_interval: 2, until: '2025-06-28' })))
+      .toBe('Every 2 weeks on Monday, Wednesday until Jun 28, 2025');
+  });
+
+  it('describes monthly rules', () => {
+    expect(describeRule(monthly({ month_week: -1, month_weekday: 5, until: '2025-12-31' })))
+      .toBe('Every month on the last Friday until Dec 31, 2025');
+  });
+});
@@ -0,0 +1,168 @@
+import { supabase } from './supabase';
+import { formatCalendarDate } from './datetime';
+
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'monthly';
+  repeat_interval: number;
+  // Weekly: days of the week, 0 = Sunday
+  weekdays: number[];
+  // Monthly: the nth (1-4, or -1 for the last) month_weekday of the month
+  month_week: number | null;
+  month_weekday: number | null;
+  starts_on: string;
+  until: string;
+  exceptions: string[];
+}
+
+export interface EventSeries extends RecurrenceRule {
+  id: string;
+  name: string;
+  timezone: string;
+  start_time: string;
+  duration_minutes: number;
+  location: string;
+}
+
+export interface SeriesDetails {
+  name: string;
+  location: string;
+  timezone: string;
+  // Local "HH:MM"
+  start_time: string;
+  duration_minutes: number;
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MONTH_WEEKS: { value: number; label: string }[] = [
+  { value: 1, label: 'first' },
+  { value: 2, label: 'second' },
+  { value: 3, label: 'third' },
+  { value: 4, label: 'fourth' },
+  { value: -1, label: 'last' },
+];
+
+// Keeps a mistyped end date from creating years of events at once
+export const MAX_OCCURRENCES = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar dates are handled as UTC midnights so no zone can move them
+const parseDate = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const toDateString = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+// The nth weekday of a month, or the last one when week is -1
+function nthWeekday(year: number, month: number, week: number, weekday: number): number {
+  if (week > 0) {
+    const firstDay = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return Date.UTC(year, month, 1 + ((weekday - firstDay + 7) % 7) + (week - 1) * 7);
+  }
+  const lastDate = new Date(Date.UTC(year, month + 1, 0));
+  return lastDate.getTime() - ((lastDate.getUTCDay() - weekday + 7) % 7) * DAY_MS;
+}
+
+// Dates ("2025-04-12") of every occurrence from starts_on to until, inclusive.
+// Stops one past MAX_OCCURRENCES so callers can tell the rule ran over.
+export function occurrenceDates(rule: RecurrenceRule): string[] {
+  const start = parseDate(rule.starts_on);
+  const end = parseDate(rule.until);
+  if (Number.isNaN(start) || Number.isNaN(end) || rule.repeat_interval < 1) return [];
+
+  const skipped = new Set(rule.exceptions);
+  const dates: string[] = [];
+  const add = (day: number) => {
+    const date = toDateString(day);
+    if (!skipped.has(date)) dates.push(date);
+  };
+
+  if (rule.frequency === 'weekly') {
+    if (rule.weekdays.length === 0) return [];
+    // Weeks run Sunday to Saturday, counted from the week holding starts_on
+    const firstWeek = start - new Date(start).getUTCDay() * DAY_MS;
+    for (let day = start; day <= end && dates.length <= MAX_OCCURRENCES; day += DAY_MS) {
+      const week = Math.floor((day - firstWeek) / (7 * DAY_MS));
+      if (week % rule.repeat_interval === 0 && rule.weekdays.includes(new Date(day).getUTCDay())) {
+        add(day);
+      }
+    }
+    return dates;
+  }
+
+  if (rule.month_week === null || rule.month_weekday === null) return [];
+  const first = new Date(start);
+  for (let offset = 0; dates.length <= MAX_OCCURRENCES; offset += rule.repeat_interval) {
+    const year = first.getUTCFullYear();
+    const month = first.getUTCMonth() + offset;
+    if (Date.UTC(year, month, 1) > end) break;
+    const day = nthWeekday(year, month, rule.month_week, rule.month_weekday);
+    if (day >= start && day <= end) add(day);
+  }
+  return dates;
+}
+
+// "Every 2 weeks on Monday, Wednesday until Jun 28, 2025"
+export function describeRule(rule: RecurrenceRule): string {
+  const every = (unit: string) =>
+    rule.repeat_interval === 1 ? `Every ${unit}` : `Every ${rule.repeat_interval} ${unit}s`;
+
+  const pattern = rule.frequency === 'weekly'
+    ? `${every('week')} on ${[...rule.weekdays].sort().map(day => WEEKDAY_NAMES[day]).join(', ')}`
+    : `${every('month')} on the ${MONTH_WEEKS.find(w => w.value === rule.month_week)?.label} ${WEEKDAY_NAMES[rule.month_weekday ?? 0]}`;
+
+  return `${pattern} until ${formatCalendarDate(rule.until)}`;
+}
+
+export async function fetchEventSeries(organizationId: string): Promise<EventSeries[]> {
+  const { data, error } = await supabase
+    .from('event_series')
+    .select('*')
+    .eq('organization_id', organizationId);
+  if (error) throw error;
+  return data;
+}
+
+// Creates the series with one event per occurrence. Positions are copied from
+// a template or an existing event when one is given.
+export async function createEventSeries(
+  organizationId: string,
+  details: SeriesDetails,
+  rule: RecurrenceRule,
+  source: { templateId?: string; eventId?: string } = {}
+): Promise<string> {
+  const dates = occurrenceDates(rule);
+  if (dates.length === 0) {
+    throw new Error('The repeat settings do not produce any dates');
+  }
+  if (dates.length > MAX_OCCURRENCES) {
+    throw new Error(`A series can have at most ${MAX_OCCURRENCES} occurrences. Choose an earlier end date.`);
+  }
+
+  const { data, error } = await supabase.rpc('create_event_series', {
+    series_organization: organizationId,
+    series_name: details.name,
+    series_location: details.location,
+    series_timezone: details.timezone,
+    start_time: details.start_time,
+    duration_minutes: details.duration_minutes,
+    ...rule,
+    occurrence_dates: dates,
+    source_template: source.templateId ?? null,
+    source_event: source.eventId ?? null,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// Applies the details to this occurrence and every later one in its series
+export async function updateSeriesFrom(eventId: string, details: SeriesDetails): Promise<string> {
+  const { data, error } = await supabase.rpc('update_event_series_from', {
+    target_event: eventId,
+    new_name: details.name,
+    new_location: details.location,
+    new_timezone: details.timezone,
+    new_start_time: details.start_time,
+    new_duration_minutes: details.duration_minutes,
+  });
+  if (error) throw error;
+  return data;
+}
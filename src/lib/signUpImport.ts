@@ -0,0 +1,181 @@
+import {
+  ColumnMapping,
+  PositionMapping,
+  RawSignUpData,
+  SignUpField,
+  StructuredSignUpData,
+} from '../types';
+
+export interface ParsedSheet {
+  name: string;
+  headers: string[];
+  rows: RawSignUpData[];
+}
+
+export interface SpreadsheetWorkerRequest {
+  file: File;
+}
+
+export type SpreadsheetWorkerResponse = { sheets: ParsedSheet[] } | { error: string };
+
+export const SPREADSHEET_ACCEPT = '.csv,.tsv,.txt,.xlsx,.xls';
+
+export const SIGN_UP_FIELDS: {
+  key: SignUpField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  { key: 'item', label: 'Item / Position', required: true, aliases: ['item', 'slot', 'position', 'role'] },
+  { key: 'first_name', label: 'First Name', required: true, aliases: ['first name', 'firstname', 'first', 'name'] },
+  { key: 'last_name', label: 'Last Name', required: false, aliases: ['last name', 'lastname', 'last', 'surname'] },
+  { key: 'phone_number', label: 'Phone Number', required: false, aliases: ['phone', 'phone number', 'mobile', 'cell'] },
+  { key: 'date', label: 'Date (if separate)', required: false, aliases: ['date', 'start date'] },
+  { key: 'start', label: 'Start Time', required: true, aliases: ['start date/time', 'start time', 'start', 'begin'] },
+  { key: 'end', label: 'End Time', required: true, aliases: ['end date/time', 'end time', 'end', 'finish'] },
+];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim();
+
+// Pick the most likely header for each field. Exact alias matches are claimed
+// first so "Start Date/Time" goes to start rather than to a separate date column.
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping;
+  const used = new Set<string>();
+
+  const claim = (matches: (header: string, alias: string) => boolean) => {
+    SIGN_UP_FIELDS.forEach(({ key, aliases }) => {
+      if (mapping[key]) return;
+      const match = headers.find(h =>
+        !used.has(h) && aliases.some(alias => matches(normalizeHeader(h), alias))
+      );
+      if (match) used.add(match);
+      mapping[key] = match ?? '';
+    });
+  };
+
+  claim((header, alias) => header === alias);
+  claim((header, alias) => header.startsWith(alias));
+
+  return mapping;
+}
+
+export function getMissingRequiredFields(mapping: ColumnMapping) {
+  return SIGN_UP_FIELDS.filter(field => field.required && !mapping[field.key]);
+}
+
+// Parses CSV, TSV and Excel files in a web worker. Workbooks yield one entry
+// per sheet; delimited files always yield a single sheet.
+export function parseSpreadsheet(file: File): Promise<ParsedSheet[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/spreadsheetWorker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    worker.onmessage = (event: MessageEvent<SpreadsheetWorkerResponse>) => {
+      worker.terminate();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.sheets);
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Unable to read file'));
+    };
+
+    worker.postMessage({ file } satisfies SpreadsheetWorkerRequest);
+  });
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Accepts "3/15/2025", "03/15/25" and "2025-03-15"; returns yyyy-MM-dd or ''.
+export function parseSignUpDate(value: string): string {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}-${pad(Number(iso[2]))}-${pad(Number(iso[3]))}`;
+  }
+  const us = trimmed.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${pad(Number(us[1]))}-${pad(Number(us[2]))}`;
+  }
+  return '';
+}
+
+// Accepts "8:00 AM", "8am", "14:30" and "14:30:00"; returns HH:mm or ''.
+export function parseSignUpTime(value: string): string {
+  const match = value.trim().match(/(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap])\.?m?\.?(?![a-z])/i)
+    ?? value.trim().match(/(\d{1,2}):(\d{2})(?::\d{2})?/);
+  if (!match) return '';
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return '';
+
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+// Strip the date part so "3/15/2025 8:00 AM" is not read as hour 3.
+const timePart = (value: string) =>
+  value.replace(/\d{4}-\d{1,2}-\d{1,2}T?/, '').replace(/\d{1,2}\/\d{1,2}\/\d{2,4}/, '');
+
+export function structureSignUpData(
+  rows: RawSignUpData[],
+  mapping: ColumnMapping,
+  positionMapping: PositionMapping = {}
+): StructuredSignUpData[] {
+  const read = (row: RawSignUpData, field: SignUpField) =>
+    mapping[field] ? (row[mapping[field]] ?? '').trim() : '';
+
+  return rows.map((row, index) => {
+    const item = read(row, 'item');
+    const volunteerName = [read(row, 'first_name'), read(row, 'last_name')]
+      .filter(Boolean)
+      .join(' ');
+    const start = read(row, 'start');
+    const end = read(row, 'end');
+    const startTime = parseSignUpTime(timePart(start));
+    const endTime = parseSignUpTime(timePart(end));
+    const positionId = positionMapping[item] ?? null;
+
+    const errors: string[] = [];
+    if (!item) errors.push('Missing item');
+    else if (!positionId) errors.push('No position selected');
+    if (!volunteerName) errors.push('Missing name');
+    if (!startTime) errors.push('Invalid start time');
+    if (!endTime) errors.push('Invalid end time');
+
+    return {
+      id: index + 1,
+      item,
+      position_id: positionId,
+      volunteer_name: volunteerName,
+      phone_number: read(row, 'phone_number'),
+      start_date: parseSignUpDate(read(row, 'date') || start),
+      start_time: startTime,
+      end_time: endTime,
+      errors,
+    };
+  });
+}
+
+export function countDistinctItems(rows: RawSignUpData[], mapping: ColumnMapping) {
+  if (!mapping.item) return [];
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const item = (row[mapping.item] ?? '').trim();
+    if (item) counts.set(item, (counts.get(item) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
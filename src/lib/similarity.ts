@@ -0,0 +1,25 @@
+const bigrams = (value: string) => {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2));
+  return grams;
+};
+
+// Sørensen–Dice coefficient over character bigrams
+export function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  if (!gramsA.length || !gramsB.length) return 0;
+
+  const counts = new Map<string, number>();
+  gramsA.forEach(g => counts.set(g, (counts.get(g) ?? 0) + 1));
+  let overlap = 0;
+  gramsB.forEach(g => {
+    const count = counts.get(g) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(g, count - 1);
+    }
+  });
+  return (2 * overlap) / (gramsA.length + gramsB.length);
+}
@@ -0,0 +1,68 @@
+import { supabase } from './supabase';
+import { staffingStatus, StaffingStatus } from './geoExport';
+
+export interface PositionSlot {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  needed: number;
+  filled: number;
+}
+
+export interface SlotDraft {
+  id?: string;
+  starts_at: string;
+  ends_at: string;
+  needed: number;
+}
+
+export interface SlotStaffing {
+  slot: PositionSlot | null;
+  needed: number;
+  filled: number;
+  status: StaffingStatus;
+}
+
+interface SlottedPosition {
+  needed: number;
+  filled: number;
+  slots?: PositionSlot[];
+}
+
+export const sortSlots = <T extends { starts_at: string }>(slots: T[]) =>
+  [...slots].sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at));
+
+// Staffing of each slot; a position without slots is staffed as a single window
+export function slotStaffing(position: SlottedPosition): SlotStaffing[] {
+  if (!position.slots?.length) {
+    return [{
+      slot: null,
+      needed: position.needed,
+      filled: position.filled,
+      status: staffingStatus(position.filled, position.needed),
+    }];
+  }
+  return sortSlots(position.slots).map(slot => ({
+    slot,
+    needed: slot.needed,
+    filled: slot.filled,
+    status: staffingStatus(slot.filled, slot.needed),
+  }));
+}
+
+// Filled only when every slot is; needs volunteers only when no slot has any
+export function positionStatus(staffing: SlotStaffing[]): StaffingStatus {
+  if (staffing.every(s => s.status === 'filled')) return 'filled';
+  if (staffing.every(s => s.filled === 0)) return 'needs';
+  return 'partial';
+}
+
+// Replaces the position's slots with the drafts: drafts with an id are updated,
+// the rest inserted, and slots missing from the list deleted, all in one call
+export async function savePositionSlots(positionId: string, drafts: SlotDraft[]) {
+  const { error } = await supabase.rpc('save_position_slots', {
+    target_position: positionId,
+    slots: drafts.map(({ id, starts_at, ends_at, needed }) => ({ id: id ?? null, starts_at, ends_at, needed })),
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import { Json } from './database.types';
+
+// Slot times are kept as minutes from the event start so they can be laid
+// over any date
+export interface TemplateSlot {
+  start_offset_minutes: number;
+  duration_minutes: number;
+  needed: number;
+}
+
+export interface TemplatePosition {
+  name: string;
+  needed: number;
+  description: string | null;
+  skill_level: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  slots: TemplateSlot[];
+}
+
+export interface EventTemplate {
+  id: string;
+  name: string;
+  event_name: string;
+  location: string;
+  timezone: string;
+  duration_minutes: number;
+  positions: TemplatePosition[];
+  updated_at: string;
+}
+
+export type EventTemplateUpdate = Pick<EventTemplate, 'name' | 'event_name' | 'location' | 'timezone' | 'duration_minutes' | 'positions'>;
+
+export async function fetchEventTemplates(organizationId: string): Promise<EventTemplate[]> {
+  const { data, error } = await supabase
+    .from('event_templates')
+    .select('id, name, event_name, location, timezone, duration_minutes, positions, updated_at')
+    .eq('organization_id', organizationId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return data as unknown as EventTemplate[];
+}
+
+export async function saveEventAsTemplate(eventId: string, templateName: string): Promise<string> {
+  const { data, error } = await supabase.rpc('save_event_as_template', {
+    source_event: eventId,
+    template_name: templateName,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function createEventFromTemplate(templateId: string, name: string, startsAt: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_event_from_template', {
+    source_template: templateId,
+    new_name: name,
+    new_starts_at: startsAt,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// Positions, shift slots and (optionally) signups move with the new start time
+export async function duplicateEvent(eventId: string, name: string, startsAt: string, includeSignups: boolean): Promise<string> {
+  const { data, error } = await supabase.rpc('duplicate_event', {
+    source_event: eventId,
+    new_name: name,
+    new_starts_at: startsAt,
+    include_signups: includeSignups,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function updateEventTemplate(id: string, updates: EventTemplateUpdate) {
+  const { error } = await supabase
+    .from('event_templates')
+    .update({ ...updates, positions: updates.positions as unknown as Json })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteEventTemplate(id: string) {
+  const { error } = await supabase
+    .from('event_templates')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+
+export type TrashItemType = 'event' | 'position' | 'signup';
+
+export interface TrashItem {
+  item_type: TrashItemType;
+  item_id: string;
+  name: string;
+  // Event location, the event of a position, or "position · event" of a signup
+  detail: string;
+  // Signups trashed along with an event or position
+  signup_count: number;
+  deleted_at: string;
+  purge_at: string;
+}
+
+// Trashes the item with everything under it. Trashed rows disappear from all
+// other queries until restored.
+export async function moveToTrash(itemType: TrashItemType, itemId: string) {
+  const { error } = await supabase.rpc('move_to_trash', { item_type: itemType, item_id: itemId });
+  if (error) throw error;
+}
+
+// A signup whose place was filled in the meantime goes back on the waitlist
+// instead, so positions are never overbooked by a restore
+export async function restoreFromTrash(itemType: TrashItemType, itemId: string): Promise<'restored' | 'waitlisted'> {
+  const { data, error } = await supabase.rpc('restore_from_trash', { item_type: itemType, item_id: itemId });
+  if (error) throw error;
+  return data;
+}
+
+export async function purgeFromTrash(itemType: TrashItemType, itemId: string) {
+  const { error } = await supabase.rpc('purge_from_trash', { item_type: itemType, item_id: itemId });
+  if (error) throw error;
+}
+
+export async function fetchTrash(organizationId: string): Promise<TrashItem[]> {
+  const { data, error } = await supabase.rpc('list_trash', { target_organization: organizationId });
+  if (error) throw error;
+  return data;
+}
+
+// Retention is shared by everyone in the organization
+export async function fetchRetentionDays(organizationId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('trash_retention_days')
+    .eq('id', organizationId)
+    .single();
+  if (error) throw error;
+  return data.trash_retention_days;
+}
+
+export async function saveRetentionDays(organizationId: string, retentionDays: number) {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ trash_retention_days: retentionDays })
+    .eq('id', organizationId);
+  if (error) throw error;
+}
@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { normalizePhone } from './duplicates';
+
+export interface VolunteerProfile {
+  id: string;
+  name: string;
+  phone_number: string;
+  email: string | null;
+  notes: string | null;
+  tags: string[];
+  created_at: string;
+}
+
+export interface VolunteerContact {
+  name: string;
+  phone: string;
+}
+
+export interface VolunteerShift {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  arrived: boolean;
+  position: {
+    id: string;
+    name: string;
+    event: { id: string; name: string; timezone: string };
+  };
+}
+
+export async function fetchVolunteerProfiles(organizationId: string): Promise<VolunteerProfile[]> {
+  const { data, error } = await supabase
+    .from('volunteers')
+    .select('id, name, phone_number, email, notes, tags, created_at')
+    .eq('organization_id', organizationId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return data;
+}
+
+export interface VolunteerDirectoryEntry extends VolunteerProfile {
+  shift_count: number;
+  event_count: number;
+}
+
+export async function fetchVolunteerDirectory(organizationId: string): Promise<VolunteerDirectoryEntry[]> {
+  const { data, error } = await supabase
+    .from('volunteers')
+    .select(`
+      id, name, phone_number, email, notes, tags, created_at,
+      signups:volunteer_signups(id, position:volunteer_positions(event_id))
+    `)
+    .eq('organization_id', organizationId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+
+  return (data as unknown as (VolunteerProfile & { signups: { position: { event_id: string } }[] })[])
+    .map(({ signups, ...profile }) => ({
+      ...profile,
+      shift_count: signups.length,
+      event_count: new Set(signups.map(s => s.position.event_id)).size,
+    }));
+}
+
+export async function fetchVolunteerProfile(id: string): Promise<VolunteerProfile> {
+  const { data, error } = await supabase
+    .from('volunteers')
+    .select('id, name, phone_number, email, notes, tags, created_at')
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchVolunteerShifts(volunteerId: string): Promise<VolunteerShift[]> {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .select(`
+      id,
+      starts_at,
+      ends_at,
+      arrived,
+      position:volunteer_positions(
+        id,
+        name,
+        event:events(id, name, timezone)
+      )
+    `)
+    .eq('volunteer_id', volunteerId)
+    .order('starts_at', { ascending: false });
+  if (error) throw error;
+  return data as unknown as VolunteerShift[];
+}
+
+type ProfileKey = Pick<VolunteerProfile, 'name' | 'phone_number'>;
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase().replace(/\s+/g, ' ') === b.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Same name and same phone number, or no number on either side. Families share
+// phones, so a number alone never identifies a person; near misses are left to
+// the duplicate finder.
+export function findVolunteerProfile<T extends ProfileKey>(profiles: T[], contact: VolunteerContact): T | undefined {
+  const phone = normalizePhone(contact.phone);
+  return profiles.find(p => sameName(p.name, contact.name) && normalizePhone(p.phone_number) === phone);
+}
+
+// Resolves each contact to a profile id in the organization, creating profiles for
+// people not seen before. Returns ids in the same order as the contacts.
+export async function resolveVolunteerIds(organizationId: string, contacts: VolunteerContact[]): Promise<string[]> {
+  const profiles = await fetchVolunteerProfiles(organizationId);
+  const missing: ProfileKey[] = [];
+  contacts.forEach(contact => {
+    if (!findVolunteerProfile(profiles, contact) && !findVolunteerProfile(missing, contact)) {
+      missing.push({ name: contact.name.trim(), phone_number: contact.phone.trim() });
+    }
+  });
+
+  if (missing.length > 0) {
+    const { data: created, error } = await supabase
+      .from('volunteers')
+      .insert(missing.map(profile => ({ ...profile, organization_id: organizationId })))
+      .select('id, name, phone_number, email, notes, tags, created_at');
+    if (error) throw error;
+    profiles.push(...created);
+  }
+
+  return contacts.map(contact => findVolunteerProfile(profiles, contact)!.id);
+}
+
+export async function updateVolunteerProfile(id: string, updates: Partial<Omit<VolunteerProfile, 'id' | 'created_at'>>) {
+  const { error } = await supabase
+    .from('volunteers')
+    .update(updates)
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export const parseTags = (value: string) =>
+  [...new Set(value.split(',').map(tag => tag.trim()).filter(Boolean))];
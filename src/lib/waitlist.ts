@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { NewAssignment } from './assignments';
+
+export interface WaitlistEntry {
+  id: string;
+  position_id: string;
+  slot_id: string | null;
+  volunteer_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+  priority: number;
+  created_at: string;
+}
+
+export interface WaitlistPromotion {
+  id: string;
+  position_id: string;
+  slot_id: string | null;
+  signup_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  waited_since: string | null;
+  promoted_at: string;
+}
+
+export async function fetchWaitlist(positionIds: string[]): Promise<WaitlistEntry[]> {
+  const { data, error } = await supabase
+    .from('position_waitlist')
+    .select('*')
+    .in('position_id', positionIds)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchWaitlistPromotions(positionIds: string[]): Promise<WaitlistPromotion[]> {
+  const { data, error } = await supabase
+    .from('waitlist_promotions')
+    .select('*')
+    .in('position_id', positionIds)
+    .order('promoted_at', { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+// Joins the back of the position's waitlist. The database numbers the entry
+// under the position lock and promotes it straight away if a place is free by
+// the time it arrives.
+export async function addToWaitlist(assignment: NewAssignment) {
+  const { error } = await supabase.rpc('join_waitlist', assignment);
+  if (error) throw error;
+}
+
+// Swaps an entry with its neighbour in the position's queue
+export async function moveWaitlistEntry(queue: WaitlistEntry[], id: string, direction: -1 | 1) {
+  const index = queue.findIndex(e => e.id === id);
+  const neighbour = queue[index + direction];
+  if (index === -1 || !neighbour) return;
+
+  // Renumber the whole queue so entries that share a priority still swap
+  const reordered = [...queue];
+  [reordered[index], reordered[index + direction]] = [neighbour, queue[index]];
+  for (const [priority, entry] of reordered.entries()) {
+    if (entry.priority === priority + 1) continue;
+    const { error } = await supabase
+      .from('position_waitlist')
+      .update({ priority: priority + 1 })
+      .eq('id', entry.id);
+    if (error) throw error;
+  }
+}
+
+export async function removeFromWaitlist(id: string) {
+  const { error } = await supabase
+    .from('position_waitlist')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+}
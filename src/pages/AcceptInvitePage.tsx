@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { MailOpen } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { acceptInvitation, fetchInvitation } from '../lib/invitations';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '../lib/roles';
+
+export function AcceptInvitePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const { user, loading, signIn, signUp, signOut, resendVerification } = useAuth();
+  const { switchOrganization } = useOrganization();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [hasAccount, setHasAccount] = useState(false);
+  const [password, setPassword] = useState('');
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(false);
+
+  const { data: invitation, isLoading } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: () => fetchInvitation(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const authMutation = useMutation({
+    mutationFn: async () => {
+      if (!invitation) return;
+      if (hasAccount) {
+        await signIn(invitation.email, password);
+      } else if (await signUp(invitation.email, password, window.location.href)) {
+        // The confirmation link brings them back here, signed in
+        setAwaitingConfirmation(true);
+      }
+    },
+    onError: (error) => {
+      if (error instanceof Error && error.message.includes('user_already_exists')) {
+        toast.error('An account with this email already exists. Please sign in.');
+        setHasAccount(true);
+      } else if (error instanceof Error && error.message.includes('Email not confirmed')) {
+        toast.error('Please confirm your email address before signing in.');
+        setAwaitingConfirmation(true);
+      } else if (error instanceof Error && error.message.includes('Invalid login credentials')) {
+        toast.error('Invalid email or password');
+      } else {
+        toast.error(error instanceof Error ? error.message : 'An unexpected error occurred');
+      }
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        return await acceptInvitation(token);
+      } catch (error) {
+        console.error('Error accepting invitation:', error);
+        throw error;
+      }
+    },
+    onSuccess: async (organizationId) => {
+      await queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      switchOrganization(organizationId);
+      toast.success(`Welcome to ${invitation?.organization_name}!`);
+      navigate('/');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation');
+    },
+  });
+
+  const renderBody = () => {
+    if (loading || (token && isLoading)) {
+      return <p className="text-center text-sm text-gray-500">Loading invitation...</p>;
+    }
+
+    if (!invitation) {
+      return (
+        <p className="text-center text-sm text-gray-600">
+          This invitation link is not valid. It may have been revoked. Ask whoever invited you for a new one.
+        </p>
+      );
+    }
+
+    if (invitation.accepted_at) {
+      return (
+        <p className="text-center text-sm text-gray-600">
+          This invitation has already been accepted. <Link to="/" className="text-indigo-600 hover:text-indigo-500">Go to the app</Link>
+        </p>
+      );
+    }
+
+    if (new Date(invitation.expires_at) < new Date()) {
+      return (
+        <p className="text-center text-sm text-gray-600">
+          This invitation expired on {new Date(invitation.expires_at).toLocaleDateString()}. Ask whoever invited you to send a new one.
+        </p>
+      );
+    }
+
+    const summary = (
+      <p className="text-center text-sm text-gray-600">
+        You've been invited to join <span className="font-medium text-gray-900">{invitation.organization_name}</span> as
+        a {ROLE_LABELS[invitation.role].toLowerCase()}: {ROLE_DESCRIPTIONS[invitation.role].toLowerCase()}.
+      </p>
+    );
+
+    if (user) {
+      if (user.email?.toLowerCase() !== invitation.email) {
+        return (
+          <div className="space-y-4">
+            {summary}
+            <p className="text-center text-sm text-gray-600">
+              The invitation is for {invitation.email}, but you're signed in as {user.email}.
+            </p>
+            <button
+              onClick={() => signOut().catch(() => toast.error('Failed to sign out'))}
+              className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Sign out
+            </button>
+          </div>
+        );
+      }
+
+      return (
+        <div className="space-y-4">
+          {summary}
+          <button
+            onClick={() => acceptMutation.mutate()}
+            disabled={acceptMutation.isPending}
+            className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {acceptMutation.isPending ? 'Please wait...' : `Join ${invitation.organization_name}`}
+          </button>
+        </div>
+      );
+    }
+
+    if (awaitingConfirmation) {
+      return (
+        <div className="space-y-4 text-center text-sm text-gray-600">
+          <p>
+            Confirm your email address with the link we sent to {invitation.email}. It brings you back here to
+            join.
+          </p>
+          <button
+            onClick={() =>
+              resendVerification(invitation.email, window.location.href)
+                .then(() => toast.success(`Confirmation email sent to ${invitation.email}`))
+                .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to resend confirmation email'))
+            }
+            className="text-indigo-600 hover:text-indigo-500"
+          >
+            Send it again
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          authMutation.mutate();
+        }}
+      >
+        {summary}
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Email address</label>
+          <input
+            type="email"
+            value={invitation.email}
+            readOnly
+            className="mt-1 block w-full rounded-md border-gray-300 bg-gray-50 shadow-sm sm:text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            {hasAccount ? 'Password' : 'Choose a password'}
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            minLength={6}
+            required
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={authMutation.isPending}
+          className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {authMutation.isPending ? 'Please wait...' : (hasAccount ? 'Sign In' : 'Create Account')}
+        </button>
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={() => setHasAccount(!hasAccount)}
+            className="text-sm text-indigo-600 hover:text-indigo-500"
+            disabled={authMutation.isPending}
+          >
+            {hasAccount ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-indigo-100">
+            <MailOpen className="h-6 w-6 text-indigo-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Accept invitation</h2>
+        </div>
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,70 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
-import { Users, Edit2, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import { Users, Edit2, Trash2, CheckCircle, XCircle, CalendarPlus, Rss } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrentOrganization, useOrganization } from '../contexts/OrganizationContext';
+import { DuplicateFinder } from '../components/DuplicateFinder';
+import { downloadSignupCalendar, getCalendarFeedUrl } from '../lib/calendarFeeds';
+import { fetchVolunteerProfiles, resolveVolunteerIds } from '../lib/volunteers';
+import { VolunteerAutocomplete } from '../components/VolunteerAutocomplete';
+import { formatShift, fromDateTimeInput, toDateTimeInput } from '../lib/datetime';
+import { PositionSlot, positionStatus, slotStaffing } from '../lib/slots';
+import { NewAssignment, assignVolunteer, isPositionFullError } from '../lib/assignments';
+import { addToWaitlist } from '../lib/waitlist';
+import { checkIn, updateAttendance } from '../lib/attendance';
+import { acceptsAssignments, EventStatus } from '../lib/eventStatus';
+import { moveToTrash, restoreFromTrash } from '../lib/trash';
+import { toastWithUndo } from '../components/UndoToast';
+import { canWorkPosition } from '../lib/roles';
 
 interface Volunteer {
   id: string;
   position_id: string;
+  volunteer_id: string | null;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
+  slot_id: string | null;
   arrived: boolean;
+  position: {
+    name: string;
+    captain_id: string | null;
+    event: { name: string; timezone: string };
+  };
 }
 
 interface VolunteerFormData {
   position_id: string;
+  slot_id: string;
+  volunteer_id: string;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
 }
 
 interface Position {
   id: string;
   name: string;
-  event: { name: string };
+  event: { name: string; starts_at: string; timezone: string; status: EventStatus };
   needed: number;
   filled: number;
   latitude: number;
   longitude: number;
+  slots: PositionSlot[];
 }
 
 export function AssignVolunteersPage() {
   const { user } = useAuth();
+  const organization = useCurrentOrganization();
+  const { hasRole } = useOrganization();
+  // Captains only mark arrivals, on the positions they captain
+  const canAssign = hasRole('coordinator');
   const queryClient = useQueryClient();
   const [editingVolunteer, setEditingVolunteer] = useState<Volunteer | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -44,7 +73,7 @@ export function AssignVolunteersPage() {
   const formValues = watch();
 
   const { data: positions } = useQuery({
-    queryKey: ['positions'],
+    queryKey: ['positions', organization.id],
     queryFn: async () => {
       try {
         const { data, error } = await supabase
@@ -56,9 +85,10 @@ export function AssignVolunteersPage() {
             filled,
             latitude,
             longitude,
-            event:events(name)
+            event:events!inner(name, starts_at, timezone, status),
+            slots:position_slots(id, starts_at, ends_at, needed, filled)
           `)
-          .eq('user_id', user?.id);
+          .eq('event.organization_id', organization.id);
         if (error) throw error;
         return data as Position[];
       } catch (error) {
@@ -69,18 +99,20 @@ export function AssignVolunteersPage() {
   });
 
   const { data: volunteers } = useQuery({
-    queryKey: ['volunteers'],
+    queryKey: ['volunteers', organization.id],
     queryFn: async () => {
       try {
         const { data, error } = await supabase
           .from('volunteer_signups')
           .select(`
             *,
-            position:volunteer_positions(
+            position:volunteer_positions!inner(
               name,
-              event:events(name)
+              captain_id,
+              event:events!inner(name, timezone)
             )
-          `);
+          `)
+          .eq('position.event.organization_id', organization.id);
         if (error) throw error;
         return data;
       } catch (error) {
@@ -90,45 +122,69 @@ export function AssignVolunteersPage() {
     },
   });
 
+  const { data: profiles } = useQuery({
+    queryKey: ['volunteer-profiles', organization.id],
+    queryFn: async () => {
+      try {
+        return await fetchVolunteerProfiles(organization.id);
+      } catch (error) {
+        console.error('Error fetching volunteer profiles:', error);
+        throw error;
+      }
+    },
+  });
+
   useEffect(() => {
     if (editingVolunteer) {
       setValue('position_id', editingVolunteer.position_id);
+      setValue('volunteer_id', editingVolunteer.volunteer_id ?? '');
       setValue('volunteer_name', editingVolunteer.volunteer_name);
       setValue('phone_number', editingVolunteer.phone_number);
-      setValue('start_time', editingVolunteer.start_time);
-      setValue('end_time', editingVolunteer.end_time);
+      setValue('slot_id', editingVolunteer.slot_id ?? '');
+      setValue('starts_at', toDateTimeInput(editingVolunteer.starts_at, editingVolunteer.position.event.timezone));
+      setValue('ends_at', toDateTimeInput(editingVolunteer.ends_at, editingVolunteer.position.event.timezone));
     }
   }, [editingVolunteer, setValue]);
 
+  const selectedPosition = positions?.find(p => p.id === formValues.position_id);
+  // Closed and archived events take no new assignments
+  const assignablePositions = positions?.filter(p =>
+    acceptsAssignments(p.event.status) || p.id === editingVolunteer?.position_id
+  );
+
+  const selectedStaffing = selectedPosition?.slots.length ? slotStaffing(selectedPosition) : [];
+  // New volunteers for a full slot or position join its waitlist instead
+  const joinsWaitlist = !editingVolunteer && !!selectedPosition && (
+    selectedStaffing.length > 0
+      ? selectedStaffing.find(s => s.slot?.id === formValues.slot_id)?.status === 'filled'
+      : positionStatus(slotStaffing(selectedPosition)) === 'filled'
+  );
+
+  // Start new assignments when the position's event starts
+  useEffect(() => {
+    if (!editingVolunteer && selectedPosition && !formValues.starts_at) {
+      setValue('starts_at', toDateTimeInput(selectedPosition.event.starts_at, selectedPosition.event.timezone));
+    }
+  }, [editingVolunteer, selectedPosition, formValues.starts_at, setValue]);
+
+  // Links the form to a volunteer profile, creating one for someone new
+  const toAssignment = async (data: VolunteerFormData): Promise<NewAssignment> => ({
+    position_id: data.position_id,
+    slot_id: data.slot_id || null,
+    volunteer_id: data.volunteer_id || (await resolveVolunteerIds(organization.id, [
+      { name: data.volunteer_name, phone: data.phone_number }
+    ]))[0],
+    volunteer_name: data.volunteer_name,
+    phone_number: data.phone_number,
+    starts_at: data.starts_at,
+    ends_at: data.ends_at,
+  });
+
   const createMutation = useMutation({
-    mutationFn: async (data: VolunteerFormData) => {
+    mutationFn: async ({ data, allowOverbooking = false }: { data: VolunteerFormData; allowOverbooking?: boolean }) => {
       setIsSubmitting(true);
       try {
-        // Use a more robust approach with prepared statements
-        const { data: signup, error: signupError } = await supabase
-          .from('volunteer_signups')
-          .insert([{
-            position_id: data.position_id,
-            volunteer_name: data.volunteer_name,
-            phone_number: data.phone_number,
-            start_time: data.start_time,
-            end_time: data.end_time,
-            arrived: false
-          }])
-          .select()
-          .single();
-        
-        if (signupError) throw signupError;
-
-        // Update position filled count atomically
-        const { error: updateError } = await supabase
-          .from('volunteer_positions')
-          .update({ filled: supabase.sql`filled + 1` })
-          .eq('id', data.position_id);
-        
-        if (updateError) throw updateError;
-
-        return signup;
+        return await assignVolunteer(await toAssignment(data), allowOverbooking);
       } catch (error) {
         console.error('Error creating volunteer assignment:', error);
         throw error;
@@ -138,19 +194,68 @@ export function AssignVolunteersPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] });
       queryClient.invalidateQueries({ queryKey: ['positions'] });
       toast.success('Volunteer assigned successfully');
       reset();
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (isPositionFullError(error)) {
+        // Someone else took the last place since the list was loaded
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+        const message = (error as { message: string }).message;
+        if (window.confirm(`${message}. Assign this volunteer anyway?`)) {
+          createMutation.mutate({ data: variables.data, allowOverbooking: true });
+        } else if (window.confirm('Add them to the waitlist instead?')) {
+          waitlistMutation.mutate(variables.data);
+        } else {
+          toast.error(message);
+        }
+        return;
+      }
       toast.error(error instanceof Error ? error.message : 'Failed to assign volunteer');
     },
   });
 
+  const waitlistMutation = useMutation({
+    mutationFn: async (data: VolunteerFormData) => {
+      setIsSubmitting(true);
+      try {
+        await addToWaitlist(await toAssignment(data));
+      } catch (error) {
+        console.error('Error adding volunteer to waitlist:', error);
+        throw error;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    onSuccess: () => {
+      // A place may have opened meanwhile, in which case they were assigned
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success('Volunteer added to the waitlist');
+      reset();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to add volunteer to the waitlist');
+    },
+  });
+
   const updateMutation = useMutation({
     mutationFn: async (data: Partial<Volunteer>) => {
       setIsSubmitting(true);
       try {
+        // Typing a different person re-links the signup to their profile
+        if (data.volunteer_id === null) {
+          data.volunteer_id = (await resolveVolunteerIds(organization.id, [{
+            name: data.volunteer_name ?? editingVolunteer?.volunteer_name ?? '',
+            phone: data.phone_number ?? editingVolunteer?.phone_number ?? ''
+          }]))[0];
+        }
+
         const { error } = await supabase
           .from('volunteer_signups')
           .update(data)
@@ -165,6 +270,9 @@ export function AssignVolunteersPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
       toast.success('Volunteer updated successfully');
       setEditingVolunteer(null);
       reset();
@@ -175,32 +283,29 @@ export function AssignVolunteersPage() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async ({ id, position_id }: { id: string; position_id: string }) => {
+    mutationFn: async (id: string) => {
       try {
-        // Delete the volunteer signup
-        const { error: deleteError } = await supabase
-          .from('volunteer_signups')
-          .delete()
-          .eq('id', id);
-        
-        if (deleteError) throw deleteError;
-
-        // Update position filled count atomically
-        const { error: updateError } = await supabase
-          .from('volunteer_positions')
-          .update({ filled: supabase.sql`filled - 1` })
-          .eq('id', position_id);
-        
-        if (updateError) throw updateError;
+        await moveToTrash('signup', id);
       } catch (error) {
         console.error('Error deleting volunteer:', error);
         throw error;
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
-      queryClient.invalidateQueries({ queryKey: ['positions'] });
-      toast.success('Volunteer removed successfully');
+    onSuccess: (_, id) => {
+      const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+        queryClient.invalidateQueries({ queryKey: ['trash'] });
+      };
+      refresh();
+      toastWithUndo('Volunteer removed', async () => {
+        const outcome = await restoreFromTrash('signup', id);
+        refresh();
+        if (outcome === 'waitlisted') {
+          return 'Their place was filled in the meantime, so they are back on the waitlist';
+        }
+      });
     },
     onError: (error) => {
       toast.error(error instanceof Error ? error.message : 'Failed to remove volunteer');
@@ -210,11 +315,11 @@ export function AssignVolunteersPage() {
   const toggleArrivalMutation = useMutation({
     mutationFn: async ({ id, arrived }: { id: string; arrived: boolean }) => {
       try {
-        const { error } = await supabase
-          .from('volunteer_signups')
-          .update({ arrived })
-          .eq('id', id);
-        if (error) throw error;
+        if (arrived) {
+          await checkIn(id);
+        } else {
+          await updateAttendance(id, { checked_in_at: null, checked_out_at: null });
+        }
       } catch (error) {
         console.error('Error toggling volunteer arrival:', error);
         throw error;
@@ -229,19 +334,50 @@ export function AssignVolunteersPage() {
     },
   });
 
-  const onSubmit = (data: VolunteerFormData) => {
+  const calendarFileMutation = useMutation({
+    mutationFn: downloadSignupCalendar,
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create calendar file');
+    },
+  });
+
+  const calendarFeedMutation = useMutation({
+    mutationFn: ({ name, phone }: { name: string; phone: string }) =>
+      getCalendarFeedUrl('volunteer', `${name}'s volunteer shifts`, phone),
+    onSuccess: async (url) => {
+      await navigator.clipboard.writeText(url);
+      toast.success('Calendar subscription link copied');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create calendar link');
+    },
+  });
+
+  const onSubmit = (formData: VolunteerFormData) => {
+    // Shift inputs are wall-clock times in the event's time zone
+    const timeZone = positions?.find(p => p.id === formData.position_id)?.event.timezone ?? 'UTC';
+    const data = {
+      ...formData,
+      starts_at: fromDateTimeInput(formData.starts_at, timeZone),
+      ends_at: fromDateTimeInput(formData.ends_at, timeZone),
+    };
+
     if (editingVolunteer) {
       // Only update fields that have changed
       const updates: Partial<Volunteer> = { id: editingVolunteer.id };
       if (data.volunteer_name !== editingVolunteer.volunteer_name) updates.volunteer_name = data.volunteer_name;
       if (data.phone_number !== editingVolunteer.phone_number) updates.phone_number = data.phone_number;
-      if (data.start_time !== editingVolunteer.start_time) updates.start_time = data.start_time;
-      if (data.end_time !== editingVolunteer.end_time) updates.end_time = data.end_time;
+      if (Date.parse(data.starts_at) !== Date.parse(editingVolunteer.starts_at)) updates.starts_at = data.starts_at;
+      if (Date.parse(data.ends_at) !== Date.parse(editingVolunteer.ends_at)) updates.ends_at = data.ends_at;
       if (data.position_id !== editingVolunteer.position_id) updates.position_id = data.position_id;
+      if (data.slot_id !== (editingVolunteer.slot_id ?? '')) updates.slot_id = data.slot_id || null;
+      if (data.volunteer_id !== (editingVolunteer.volunteer_id ?? '')) updates.volunteer_id = data.volunteer_id || null;
       
       updateMutation.mutate(updates);
+    } else if (joinsWaitlist) {
+      waitlistMutation.mutate(data);
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate({ data });
     }
   };
 
@@ -255,111 +391,183 @@ export function AssignVolunteersPage() {
 
   return (
     <div className="space-y-6">
-      <div className="bg-white shadow rounded-lg p-6">
-        <h2 className="text-lg font-medium mb-4">
-          {editingVolunteer ? 'Edit Volunteer Assignment' : 'Assign New Volunteer'}
-        </h2>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Position</label>
-            <select
-              {...register('position_id', { required: 'Position is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            >
-              <option value="">Select a position</option>
-              {positions?.map((position) => (
-                <option 
-                  key={position.id} 
-                  value={position.id}
-                  disabled={!editingVolunteer && position.filled >= position.needed}
+      {canAssign && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium mb-4">
+            {editingVolunteer ? 'Edit Volunteer Assignment' : 'Assign New Volunteer'}
+          </h2>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Position</label>
+              <select
+                {...register('position_id', {
+                  required: 'Position is required',
+                  onChange: () => setValue('slot_id', ''),
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Select a position</option>
+                {assignablePositions?.map((position) => {
+                  const staffing = slotStaffing(position);
+                  const filled = staffing.reduce((sum, s) => sum + s.filled, 0);
+                  const needed = staffing.reduce((sum, s) => sum + s.needed, 0);
+                  return (
+                    <option key={position.id} value={position.id}>
+                      {position.event.name} - {position.name} ({filled}/{needed}
+                      {positionStatus(staffing) === 'filled' ? ', full' : ''})
+                    </option>
+                  );
+                })}
+              </select>
+              {errors.position_id && (
+                <p className="mt-1 text-sm text-red-600">{errors.position_id.message}</p>
+              )}
+            </div>
+
+            {selectedPosition && selectedStaffing.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Shift Slot</label>
+                <select
+                  {...register('slot_id', {
+                    required: 'Shift slot is required',
+                    onChange: (e) => {
+                      const slot = selectedPosition.slots.find(s => s.id === e.target.value);
+                      if (slot) {
+                        setValue('starts_at', toDateTimeInput(slot.starts_at, selectedPosition.event.timezone));
+                        setValue('ends_at', toDateTimeInput(slot.ends_at, selectedPosition.event.timezone));
+                      }
+                    },
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                 >
-                  {position.event.name} - {position.name} ({position.filled}/{position.needed})
-                </option>
-              ))}
-            </select>
-            {errors.position_id && (
-              <p className="mt-1 text-sm text-red-600">{errors.position_id.message}</p>
+                  <option value="">Select a slot</option>
+                  {selectedStaffing.map(({ slot, filled, needed, status }) => slot && (
+                    <option key={slot.id} value={slot.id}>
+                      {formatShift(slot.starts_at, slot.ends_at, selectedPosition.event.timezone)} ({filled}/{needed}
+                      {status === 'filled' ? ', full' : ''})
+                    </option>
+                  ))}
+                </select>
+                {errors.slot_id && (
+                  <p className="mt-1 text-sm text-red-600">{errors.slot_id.message}</p>
+                )}
+              </div>
             )}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Volunteer Name</label>
-            <input
-              {...register('volunteer_name', { required: 'Volunteer name is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.volunteer_name && (
-              <p className="mt-1 text-sm text-red-600">{errors.volunteer_name.message}</p>
-            )}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Phone Number</label>
-            <input
-              {...register('phone_number', { 
-                required: 'Phone number is required',
-                pattern: {
-                  value: /^[0-9+\-\s()]*$/,
-                  message: 'Please enter a valid phone number'
-                }
-              })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.phone_number && (
-              <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
-            )}
-          </div>
 
-          <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700">Start Time</label>
-              <input
-                type="time"
-                {...register('start_time', { required: 'Start time is required' })}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              <label className="block text-sm font-medium text-gray-700">Volunteer Name</label>
+              <input type="hidden" {...register('volunteer_id')} />
+              <VolunteerAutocomplete
+                profiles={profiles ?? []}
+                query={formValues.volunteer_name ?? ''}
+                inputProps={register('volunteer_name', {
+                  required: 'Volunteer name is required',
+                  onChange: () => setValue('volunteer_id', ''),
+                })}
+                onSelect={(profile) => {
+                  setValue('volunteer_name', profile.name, { shouldValidate: true });
+                  setValue('phone_number', profile.phone_number, { shouldValidate: true });
+                  setValue('volunteer_id', profile.id);
+                }}
               />
-              {errors.start_time && (
-                <p className="mt-1 text-sm text-red-600">{errors.start_time.message}</p>
+              <p className="mt-1 text-xs text-gray-500">
+                {formValues.volunteer_id ? (
+                  <Link to={`/volunteers/${formValues.volunteer_id}`} className="text-indigo-600 hover:text-indigo-500">
+                    Existing volunteer profile
+                  </Link>
+                ) : (
+                  'Start typing to pick an existing volunteer, or enter a new person.'
+                )}
+              </p>
+              {errors.volunteer_name && (
+                <p className="mt-1 text-sm text-red-600">{errors.volunteer_name.message}</p>
               )}
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-gray-700">End Time</label>
+              <label className="block text-sm font-medium text-gray-700">Phone Number</label>
               <input
-                type="time"
-                {...register('end_time', { required: 'End time is required' })}
+                {...register('phone_number', { 
+                  required: 'Phone number is required',
+                  pattern: {
+                    value: /^[0-9+\-\s()]*$/,
+                    message: 'Please enter a valid phone number'
+                  }
+                })}
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
               />
-              {errors.end_time && (
-                <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>
+              {errors.phone_number && (
+                <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
               )}
             </div>
-          </div>
 
-          <div className="flex justify-end space-x-3">
-            {editingVolunteer && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Shift Start</label>
+                <input
+                  type="datetime-local"
+                  {...register('starts_at', { required: 'Start time is required' })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                {errors.starts_at && (
+                  <p className="mt-1 text-sm text-red-600">{errors.starts_at.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Shift End</label>
+                <input
+                  type="datetime-local"
+                  {...register('ends_at', {
+                    required: 'End time is required',
+                    validate: (value, { starts_at }) => value > starts_at || 'End must be after the start',
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                {errors.ends_at && (
+                  <p className="mt-1 text-sm text-red-600">{errors.ends_at.message}</p>
+                )}
+              </div>
+            </div>
+            {selectedPosition && (
+              <p className="text-xs text-gray-500">Times are in {selectedPosition.event.timezone}.</p>
+            )}
+            {joinsWaitlist && (
+              <p className="text-sm text-yellow-700 bg-yellow-50 rounded-md px-3 py-2">
+                This {selectedStaffing.length > 0 ? 'slot' : 'position'} is full. The volunteer will join its waitlist
+                and be assigned automatically when a place opens.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              {editingVolunteer && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingVolunteer(null);
+                    reset();
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+              )}
               <button
-                type="button"
-                onClick={() => {
-                  setEditingVolunteer(null);
-                  reset();
-                }}
-                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                type="submit"
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400"
                 disabled={isSubmitting}
               >
-                Cancel
+                {isSubmitting
+                  ? 'Processing...'
+                  : editingVolunteer ? 'Update Assignment' : joinsWaitlist ? 'Add to Waitlist' : 'Assign Volunteer'}
               </button>
-            )}
-            <button
-              type="submit"
-              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400"
-              disabled={isSubmitting}
-            >
-              {isSubmitting ? 'Processing...' : (editingVolunteer ? 'Update Assignment' : 'Assign Volunteer')}
-            </button>
-          </div>
-        </form>
-      </div>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {canAssign && volunteers && <DuplicateFinder signups={volunteers} />}
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="px-4 py-5 sm:px-6">
@@ -385,7 +593,7 @@ export function AssignVolunteersPage() {
                         {volunteer.phone_number}
                       </p>
                       <p className="text-sm text-gray-500">
-                        {volunteer.start_time} - {volunteer.end_time}
+                        {formatShift(volunteer.starts_at, volunteer.ends_at, volunteer.position.event.timezone)}
                       </p>
                     </div>
                   </div>
@@ -395,9 +603,10 @@ export function AssignVolunteersPage() {
                         id: volunteer.id, 
                         arrived: !volunteer.arrived 
                       })}
+                      disabled={!canWorkPosition(organization.role, user?.id, volunteer.position)}
                       className={`${
                         volunteer.arrived ? 'text-green-500' : 'text-gray-400'
-                      } hover:text-gray-500`}
+                      } hover:text-gray-500 disabled:cursor-default disabled:hover:text-current`}
                       title={volunteer.arrived ? 'Checked in' : 'Not checked in'}
                     >
                       {volunteer.arrived ? (
@@ -407,26 +616,40 @@ export function AssignVolunteersPage() {
                       )}
                     </button>
                     <button
-                      onClick={() => setEditingVolunteer(volunteer)}
+                      onClick={() => calendarFileMutation.mutate(volunteer.id)}
                       className="text-gray-400 hover:text-gray-500"
-                      title="Edit volunteer"
+                      title="Download calendar file (.ics)"
                     >
-                      <Edit2 className="h-5 w-5" />
+                      <CalendarPlus className="h-5 w-5" />
                     </button>
                     <button
-                      onClick={() => {
-                        if (window.confirm('Are you sure you want to remove this volunteer?')) {
-                          deleteMutation.mutate({ 
-                            id: volunteer.id, 
-                            position_id: volunteer.position_id 
-                          });
-                        }
-                      }}
+                      onClick={() => calendarFeedMutation.mutate({
+                        name: volunteer.volunteer_name,
+                        phone: volunteer.phone_number
+                      })}
                       className="text-gray-400 hover:text-gray-500"
-                      title="Remove volunteer"
+                      title="Copy this volunteer's calendar subscription link"
                     >
-                      <Trash2 className="h-5 w-5" />
+                      <Rss className="h-5 w-5" />
                     </button>
+                    {canAssign && (
+                      <>
+                        <button
+                          onClick={() => setEditingVolunteer(volunteer)}
+                          className="text-gray-400 hover:text-gray-500"
+                          title="Edit volunteer"
+                        >
+                          <Edit2 className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => deleteMutation.mutate(volunteer.id)}
+                          className="text-gray-400 hover:text-gray-500"
+                          title="Remove volunteer"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
               </li>
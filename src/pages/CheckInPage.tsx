@@ -4,14 +4,19 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
 import { CheckCircle, AlertCircle, Info, MapPin } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { formatDateRange, formatShift, formatTime } from '../lib/datetime';
+import { checkIn, checkOut } from '../lib/attendance';
+import { EventStatus } from '../lib/eventStatus';
 
 interface Volunteer {
   id: string;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
   arrived: boolean;
+  checked_in_at: string | null;
+  checked_out_at: string | null;
 }
 
 interface Position {
@@ -21,9 +26,11 @@ interface Position {
   skill_level: string;
   event: {
     name: string;
-    date: string;
-    time: string;
+    starts_at: string;
+    ends_at: string;
+    timezone: string;
     location: string;
+    status: EventStatus;
   };
 }
 
@@ -127,9 +134,11 @@ export function CheckInPage() {
             longitude,
             event:events(
               name,
-              date,
-              time,
-              location
+              starts_at,
+              ends_at,
+              timezone,
+              location,
+              status
             )
           `)
           .eq('id', positionId)
@@ -194,8 +203,8 @@ export function CheckInPage() {
           .from('volunteer_signups')
           .select('*')
           .eq('position_id', positionId)
-          .eq('arrived', false)
-          .order('start_time', { ascending: true });
+          .is('checked_out_at', null)
+          .order('starts_at', { ascending: true });
 
         if (error) {
           console.error('Supabase error fetching volunteers:', error);
@@ -227,17 +236,7 @@ export function CheckInPage() {
       setIsLoading(true);
       
       try {
-        // Atomic update of volunteer status
-        const { error } = await supabase
-          .from('volunteer_signups')
-          .update({ arrived: true })
-          .eq('id', volunteerId);
-          
-        if (error) {
-          console.error('Supabase error checking in volunteer:', error);
-          throw error;
-        }
-        
+        await checkIn(volunteerId);
         console.log('Volunteer check-in successful');
       } catch (err) {
         const error = err instanceof Error ? err : new Error('Unknown error checking in volunteer');
@@ -257,6 +256,28 @@ export function CheckInPage() {
     },
   });
 
+  const checkOutMutation = useMutation({
+    mutationFn: async (volunteerId: string) => {
+      setIsLoading(true);
+      try {
+        await checkOut(volunteerId);
+      } catch (error) {
+        console.error('Error checking out volunteer:', error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteers', positionId] });
+      toast.success('Check-out successful. Thank you for volunteering!');
+      setSelectedVolunteer('');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to check out');
+    },
+  });
+
   // Calculate distance between two coordinates in meters
   const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
     const R = 6371e3; // Earth's radius in meters
@@ -367,6 +388,10 @@ export function CheckInPage() {
   }
 
   const nearPosition = isNearPosition();
+  const notArrived = volunteers?.filter(v => !v.checked_in_at) ?? [];
+  const onSite = volunteers?.filter(v => v.checked_in_at) ?? [];
+  const checkingOut = onSite.some(v => v.id === selectedVolunteer);
+  const notYetOpen = position.event.status === 'draft' || position.event.status === 'published';
 
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
@@ -376,7 +401,7 @@ export function CheckInPage() {
             <CheckCircle className="h-6 w-6 text-indigo-600" />
           </div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Volunteer Check-In
+            Volunteer Check-In / Out
           </h2>
         </div>
 
@@ -384,7 +409,7 @@ export function CheckInPage() {
           <div>
             <h3 className="text-lg font-medium text-gray-900">{position.event.name}</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {new Date(`${position.event.date} ${position.event.time}`).toLocaleString()}
+              {formatDateRange(position.event.starts_at, position.event.ends_at, position.event.timezone)}
             </p>
             <p className="text-sm text-gray-500">{position.event.location}</p>
           </div>
@@ -417,10 +442,18 @@ export function CheckInPage() {
             )}
           </div>
 
-          {volunteers && volunteers.length > 0 ? (
+          {position.event.status !== 'live' ? (
+            <div className="text-center py-4">
+              <p className="text-sm text-gray-500">
+                {notYetOpen
+                  ? 'Check-in opens when the event goes live.'
+                  : 'This event has closed, so check-in is no longer available.'}
+              </p>
+            </div>
+          ) : volunteers && volunteers.length > 0 ? (
             <div>
               <label className="block text-sm font-medium text-gray-700">
-                Select your name to check in
+                Select your name to check in or out
               </label>
               <select
                 value={selectedVolunteer}
@@ -428,28 +461,48 @@ export function CheckInPage() {
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
               >
                 <option value="">Select your name</option>
-                {volunteers.map((volunteer) => (
-                  <option key={volunteer.id} value={volunteer.id}>
-                    {volunteer.volunteer_name} ({volunteer.start_time} - {volunteer.end_time})
-                  </option>
-                ))}
+                {notArrived.length > 0 && (
+                  <optgroup label="Check in">
+                    {notArrived.map((volunteer) => (
+                      <option key={volunteer.id} value={volunteer.id}>
+                        {volunteer.volunteer_name} ({formatShift(volunteer.starts_at, volunteer.ends_at, position.event.timezone)})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                {onSite.length > 0 && (
+                  <optgroup label="Check out">
+                    {onSite.map((volunteer) => (
+                      <option key={volunteer.id} value={volunteer.id}>
+                        {volunteer.volunteer_name} (in since {formatTime(volunteer.checked_in_at!, position.event.timezone)})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
 
               <button
-                onClick={() => selectedVolunteer && checkInMutation.mutate(selectedVolunteer)}
+                onClick={() => {
+                  if (!selectedVolunteer) return;
+                  if (checkingOut) {
+                    checkOutMutation.mutate(selectedVolunteer);
+                  } else {
+                    checkInMutation.mutate(selectedVolunteer);
+                  }
+                }}
                 disabled={!selectedVolunteer || isLoading}
                 className="mt-4 w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-300 disabled:cursor-not-allowed"
               >
-                {isLoading ? 'Processing...' : 'Check In'}
+                {isLoading ? 'Processing...' : checkingOut ? 'Check Out' : 'Check In'}
               </button>
             </div>
           ) : (
             <div className="text-center py-4">
               <p className="text-sm text-gray-500">
-                No volunteers available for check-in at this position.
+                No volunteers available for check-in or check-out at this position.
               </p>
               <p className="text-sm text-gray-500 mt-2">
-                This could mean either all volunteers have checked in or no volunteers have been assigned yet.
+                This could mean either all volunteers have checked out or no volunteers have been assigned yet.
               </p>
             </div>
           )}
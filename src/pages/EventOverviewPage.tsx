@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
-import { format } from 'date-fns';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
 import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
 import { 
   ChevronRight, 
@@ -13,9 +13,32 @@ import {
   Mail,
   AlertCircle,
   CheckCircle,
-  Clock
+  Clock,
+  Printer,
+  ArrowUp,
+  ArrowDown,
+  X,
+  History
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrentOrganization, useOrganization } from '../contexts/OrganizationContext';
+import { canWorkPosition } from '../lib/roles';
+import { downloadFile, fileSlug } from '../lib/download';
+import { GeoExportMenu } from '../components/GeoExportMenu';
+import { HistoryDrawer } from '../components/HistoryDrawer';
+import { formatDateRange, formatDateTime, formatShift, formatTime } from '../lib/datetime';
+import { StaffingStatus } from '../lib/geoExport';
+import { PositionSlot, SlotStaffing, positionStatus, slotStaffing } from '../lib/slots';
+import {
+  fetchWaitlist,
+  fetchWaitlistPromotions,
+  moveWaitlistEntry,
+  removeFromWaitlist,
+  WaitlistEntry,
+} from '../lib/waitlist';
+import { formatHours, totalServedMinutes } from '../lib/attendance';
+import { AttendanceEditor } from '../components/AttendanceEditor';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
@@ -30,8 +53,9 @@ L.Icon.Default.mergeOptions({
 interface Event {
   id: string;
   name: string;
-  date: string;
-  time: string;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
   location: string;
 }
 
@@ -44,30 +68,60 @@ interface Position {
   skill_level: string;
   latitude: number;
   longitude: number;
+  captain_id: string | null;
+  slots: PositionSlot[];
 }
 
 interface Volunteer {
   id: string;
   position_id: string;
+  volunteer_id: string | null;
   volunteer_name: string;
   phone_number: string;
-  start_time: string;
-  end_time: string;
+  starts_at: string;
+  ends_at: string;
+  slot_id: string | null;
   arrived: boolean;
+  checked_in_at: string | null;
+  checked_out_at: string | null;
+  served_minutes: number | null;
 }
 
 type PositionStatus = 'all' | 'filled' | 'partial' | 'needs';
 type SortField = 'name' | 'status' | 'volunteers';
 type SortOrder = 'asc' | 'desc';
 
+const STATUS_BADGE: Record<StaffingStatus, string> = {
+  filled: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  needs: 'bg-red-100 text-red-800',
+};
+
+const STATUS_DOT: Record<StaffingStatus, string> = {
+  filled: 'bg-green-500',
+  partial: 'bg-yellow-500',
+  needs: 'bg-red-500',
+};
+
+const staffingTotals = (staffing: SlotStaffing[]) => ({
+  filled: staffing.reduce((sum, s) => sum + s.filled, 0),
+  needed: staffing.reduce((sum, s) => sum + s.needed, 0),
+});
+
 export function EventOverviewPage() {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const organization = useCurrentOrganization();
+  const { hasRole } = useOrganization();
   const [selectedPosition, setSelectedPosition] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<PositionStatus>('all');
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
+  const [editingAttendance, setEditingAttendance] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Fetch event details
   const { data: event } = useQuery({
@@ -91,7 +145,7 @@ export function EventOverviewPage() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('volunteer_positions')
-        .select('*')
+        .select('*, slots:position_slots(id, starts_at, ends_at, needed, filled)')
         .eq('event_id', eventId);
       
       if (error) throw error;
@@ -118,6 +172,40 @@ export function EventOverviewPage() {
     enabled: !!positions && positions.length > 0,
   });
 
+  const { data: waitlist } = useQuery({
+    queryKey: ['waitlist', eventId],
+    queryFn: () => fetchWaitlist(positions!.map(p => p.id)),
+    enabled: !!positions && positions.length > 0,
+  });
+
+  const { data: promotions } = useQuery({
+    queryKey: ['waitlist', 'promotions', eventId],
+    queryFn: () => fetchWaitlistPromotions(positions!.map(p => p.id)),
+    enabled: !!positions && positions.length > 0,
+  });
+
+  const moveWaitlistMutation = useMutation({
+    mutationFn: ({ queue, id, direction }: { queue: WaitlistEntry[]; id: string; direction: -1 | 1 }) =>
+      moveWaitlistEntry(queue, id, direction),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist', eventId] });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to reorder waitlist');
+    },
+  });
+
+  const removeWaitlistMutation = useMutation({
+    mutationFn: removeFromWaitlist,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist', eventId] });
+      toast.success('Removed from waitlist');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove from waitlist');
+    },
+  });
+
   // Calculate map center based on position coordinates
   useEffect(() => {
     if (positions && positions.length > 0) {
@@ -129,6 +217,15 @@ export function EventOverviewPage() {
     }
   }, [positions]);
 
+  // Staffing is tracked per shift slot; positions without slots count as one
+  const staffingByPosition = useMemo(() => {
+    const staffing = new Map<string, SlotStaffing[]>();
+    positions?.forEach(position => {
+      staffing.set(position.id, slotStaffing(position));
+    });
+    return staffing;
+  }, [positions]);
+
   // Filter and sort positions
   const filteredAndSortedPositions = useMemo(() => {
     if (!positions) return [];
@@ -137,19 +234,9 @@ export function EventOverviewPage() {
 
     // Apply status filter
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(position => {
-        const ratio = position.filled / position.needed;
-        switch (statusFilter) {
-          case 'filled':
-            return ratio === 1;
-          case 'partial':
-            return ratio > 0 && ratio < 1;
-          case 'needs':
-            return ratio === 0;
-          default:
-            return true;
-        }
-      });
+      filtered = filtered.filter(position =>
+        positionStatus(staffingByPosition.get(position.id) ?? []) === statusFilter
+      );
     }
 
     // Apply sorting
@@ -170,7 +257,7 @@ export function EventOverviewPage() {
     });
 
     return filtered;
-  }, [positions, statusFilter, sortField, sortOrder]);
+  }, [positions, staffingByPosition, statusFilter, sortField, sortOrder]);
 
   // Get volunteers for a specific position
   const getVolunteersForPosition = (positionId: string) => {
@@ -196,8 +283,12 @@ export function EventOverviewPage() {
         Required: position.needed,
         Filled: position.filled,
         Status: `${position.filled}/${position.needed}`,
+        'Hours Served': formatHours(totalServedMinutes(positionVolunteers)),
         Volunteers: positionVolunteers.map(v => v.volunteer_name).join('; '),
         'Contact Numbers': positionVolunteers.map(v => v.phone_number).join('; '),
+        'Volunteer Hours': positionVolunteers
+          .map(v => `${v.volunteer_name}: ${v.served_minutes === null ? '-' : formatHours(v.served_minutes)}`)
+          .join('; '),
       };
     });
 
@@ -207,11 +298,7 @@ export function EventOverviewPage() {
       ...csvData.map(row => headers.map(header => `"${row[header as keyof typeof row]}"`).join(','))
     ].join('\n');
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `event-positions-${event?.name.toLowerCase().replace(/\s+/g, '-')}.csv`;
-    link.click();
+    downloadFile(csvContent, `event-positions-${fileSlug(event?.name ?? '')}.csv`, 'text/csv;charset=utf-8;');
   };
 
   if (!event || !positions || !volunteers) {
@@ -239,7 +326,7 @@ export function EventOverviewPage() {
             <div className="mt-2 space-y-1">
               <p className="text-gray-600">
                 <Clock className="inline-block h-4 w-4 mr-1" />
-                {format(new Date(`${event.date}T${event.time}`), 'PPp')}
+                {formatDateRange(event.starts_at, event.ends_at, event.timezone)}
               </p>
               <p className="text-gray-600">
                 <MapPin className="inline-block h-4 w-4 mr-1" />
@@ -255,13 +342,30 @@ export function EventOverviewPage() {
               <Download className="h-4 w-4 mr-2" />
               Export Data
             </button>
+            <GeoExportMenu eventId={event.id} eventName={event.name} />
+            <button
+              onClick={() => navigate(`/events/${event.id}/print`)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Print Pack
+            </button>
             <button
-              onClick={() => navigate(`/positions/new?event=${event.id}`)}
-              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+              onClick={() => setShowHistory(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
             >
-              <UserPlus className="h-4 w-4 mr-2" />
-              Add Position
+              <History className="h-4 w-4 mr-2" />
+              History
             </button>
+            {hasRole('coordinator') && (
+              <button
+                onClick={() => navigate(`/positions/new?event=${event.id}`)}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Add Position
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -303,99 +407,216 @@ export function EventOverviewPage() {
             </div>
 
             <div className="space-y-4">
-              {filteredAndSortedPositions.map((position) => (
-                <div
-                  key={position.id}
-                  className={`p-4 rounded-lg border ${
-                    selectedPosition === position.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200'
-                  }`}
-                  onClick={() => setSelectedPosition(position.id)}
-                >
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <h3 className="text-lg font-medium text-gray-900">{position.name}</h3>
-                      <p className="text-sm text-gray-500">{position.description}</p>
-                      {position.skill_level && (
-                        <p className="text-sm text-gray-500">Skill Level: {position.skill_level}</p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        position.filled === position.needed
-                          ? 'bg-green-100 text-green-800'
-                          : position.filled === 0
-                          ? 'bg-red-100 text-red-800'
-                          : 'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {position.filled}/{position.needed} Volunteers
-                      </span>
+              {filteredAndSortedPositions.map((position) => {
+                const staffing = staffingByPosition.get(position.id) ?? [];
+                const totals = staffingTotals(staffing);
+                const queue = waitlist?.filter(e => e.position_id === position.id) ?? [];
+                const positionPromotions = promotions?.filter(p => p.position_id === position.id) ?? [];
+                return (
+                  <div
+                    key={position.id}
+                    className={`p-4 rounded-lg border ${
+                      selectedPosition === position.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200'
+                    }`}
+                    onClick={() => setSelectedPosition(position.id)}
+                  >
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">{position.name}</h3>
+                        <p className="text-sm text-gray-500">{position.description}</p>
+                        {position.skill_level && (
+                          <p className="text-sm text-gray-500">Skill Level: {position.skill_level}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          STATUS_BADGE[positionStatus(staffing)]
+                        }`}>
+                          {totals.filled}/{totals.needed} Volunteers
+                        </span>
+                        {queue.length > 0 && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                            {queue.length} waiting
+                          </span>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {selectedPosition === position.id && (
-                    <div className="mt-4 space-y-4">
-                      <div className="border-t border-gray-200 pt-4">
-                        <h4 className="text-sm font-medium text-gray-900 mb-2">Assigned Volunteers</h4>
-                        {getVolunteersForPosition(position.id).map((volunteer) => (
-                          <div key={volunteer.id} className="flex items-center justify-between py-2">
-                            <div>
-                              <p className="text-sm font-medium text-gray-900">{volunteer.volunteer_name}</p>
-                              <p className="text-xs text-gray-500">
-                                {volunteer.start_time} - {volunteer.end_time}
-                              </p>
+                    {position.slots.length > 0 && (
+                      <ul className="mt-3 space-y-1">
+                        {staffing.map(({ slot, filled, needed, status }) => slot && (
+                          <li key={slot.id} className="flex items-center justify-between text-sm text-gray-600">
+                            <span className="flex items-center">
+                              <span className={`h-2 w-2 rounded-full mr-2 ${STATUS_DOT[status]}`}></span>
+                              {formatShift(slot.starts_at, slot.ends_at, event.timezone)}
+                            </span>
+                            <span>{filled}/{needed}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {selectedPosition === position.id && (
+                      <div className="mt-4 space-y-4">
+                        <div className="border-t border-gray-200 pt-4">
+                          <h4 className="text-sm font-medium text-gray-900 mb-2">Assigned Volunteers</h4>
+                          {getVolunteersForPosition(position.id).map((volunteer) => (
+                            <div key={volunteer.id} className="py-2">
+                              <div className="flex items-center justify-between">
+                                <div>
+                                  <p className="text-sm font-medium text-gray-900">{volunteer.volunteer_name}</p>
+                                  <p className="text-xs text-gray-500">
+                                    {formatShift(volunteer.starts_at, volunteer.ends_at, event.timezone)}
+                                  </p>
+                                  {volunteer.checked_in_at && (
+                                    <p className="text-xs text-gray-500">
+                                      In {formatTime(volunteer.checked_in_at, event.timezone)}
+                                      {volunteer.checked_out_at && ` · Out ${formatTime(volunteer.checked_out_at, event.timezone)}`}
+                                      {volunteer.served_minutes !== null && ` · ${formatHours(volunteer.served_minutes)} h`}
+                                    </p>
+                                  )}
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${
+                                    volunteer.arrived ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                                  }`}>
+                                    {volunteer.arrived ? (
+                                      <CheckCircle className="h-3 w-3 mr-1" />
+                                    ) : (
+                                      <Clock className="h-3 w-3 mr-1" />
+                                    )}
+                                    {volunteer.checked_out_at ? 'Checked Out' : volunteer.arrived ? 'Checked In' : 'Not Arrived'}
+                                  </span>
+                                  {canWorkPosition(organization.role, user?.id, position) && (
+                                    <button
+                                      onClick={() => setEditingAttendance(editingAttendance === volunteer.id ? null : volunteer.id)}
+                                      className="text-gray-400 hover:text-gray-500"
+                                      title="Adjust check-in and check-out times"
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                  {volunteer.volunteer_id && hasRole('coordinator') && (
+                                    <button
+                                      onClick={() => navigate(`/volunteers/${volunteer.volunteer_id}`)}
+                                      className="text-gray-400 hover:text-gray-500"
+                                      title="View volunteer profile"
+                                    >
+                                      <Users className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                              {editingAttendance === volunteer.id && (
+                                <AttendanceEditor
+                                  signup={volunteer}
+                                  timeZone={event.timezone}
+                                  onClose={() => setEditingAttendance(null)}
+                                />
+                              )}
+                            </div>
+                          ))}
+                          {getVolunteersForPosition(position.id).length === 0 ? (
+                            <p className="text-sm text-gray-500">No volunteers assigned yet</p>
+                          ) : (
+                            <p className="mt-2 text-xs text-gray-500">
+                              Hours served: {formatHours(totalServedMinutes(getVolunteersForPosition(position.id)))}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="border-t border-gray-200 pt-4">
+                          <h4 className="text-sm font-medium text-gray-900 mb-2">Waitlist</h4>
+                          {queue.map((entry, index) => (
+                            <div key={entry.id} className="flex items-center justify-between py-2">
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {index + 1}. {entry.volunteer_name}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {formatShift(entry.starts_at, entry.ends_at, event.timezone)}
+                                </p>
+                              </div>
+                              {hasRole('coordinator') && (
+                                <div className="flex items-center space-x-2">
+                                  <button
+                                    onClick={() => moveWaitlistMutation.mutate({ queue, id: entry.id, direction: -1 })}
+                                    disabled={index === 0 || moveWaitlistMutation.isPending}
+                                    className="text-gray-400 hover:text-gray-500 disabled:opacity-30"
+                                    title="Move up"
+                                  >
+                                    <ArrowUp className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => moveWaitlistMutation.mutate({ queue, id: entry.id, direction: 1 })}
+                                    disabled={index === queue.length - 1 || moveWaitlistMutation.isPending}
+                                    className="text-gray-400 hover:text-gray-500 disabled:opacity-30"
+                                    title="Move down"
+                                  >
+                                    <ArrowDown className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      if (window.confirm(`Remove ${entry.volunteer_name} from the waitlist?`)) {
+                                        removeWaitlistMutation.mutate(entry.id);
+                                      }
+                                    }}
+                                    className="text-gray-400 hover:text-gray-500"
+                                    title="Remove from waitlist"
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </button>
+                                </div>
+                              )}
                             </div>
-                            <div className="flex items-center space-x-2">
-                              <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${
-                                volunteer.arrived ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                              }`}>
-                                {volunteer.arrived ? (
-                                  <CheckCircle className="h-3 w-3 mr-1" />
-                                ) : (
-                                  <Clock className="h-3 w-3 mr-1" />
-                                )}
-                                {volunteer.arrived ? 'Checked In' : 'Not Arrived'}
-                              </span>
-                              <button
-                                onClick={() => navigate(`/volunteers/${volunteer.id}`)}
-                                className="text-gray-400 hover:text-gray-500"
-                              >
-                                <Users className="h-4 w-4" />
-                              </button>
+                          ))}
+                          {queue.length === 0 && (
+                            <p className="text-sm text-gray-500">No one is waiting</p>
+                          )}
+                          {positionPromotions.length > 0 && (
+                            <div className="mt-3">
+                              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                                Promoted from waitlist
+                              </p>
+                              {positionPromotions.map((promotion) => (
+                                <p key={promotion.id} className="text-xs text-gray-500">
+                                  {promotion.volunteer_name} · {formatDateTime(promotion.promoted_at, event.timezone)}
+                                </p>
+                              ))}
                             </div>
+                          )}
+                        </div>
+
+                        {hasRole('coordinator') && (
+                          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                            <button
+                              onClick={() => navigate(`/positions/${position.id}/edit`)}
+                              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              <Edit className="h-3 w-3 mr-1" />
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => navigate(`/positions/${position.id}/assign`)}
+                              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                            >
+                              <UserPlus className="h-3 w-3 mr-1" />
+                              Assign
+                            </button>
+                            <button
+                              onClick={() => navigate(`/positions/${position.id}/message`)}
+                              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              <Mail className="h-3 w-3 mr-1" />
+                              Message
+                            </button>
                           </div>
-                        ))}
-                        {getVolunteersForPosition(position.id).length === 0 && (
-                          <p className="text-sm text-gray-500">No volunteers assigned yet</p>
                         )}
                       </div>
-
-                      <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
-                        <button
-                          onClick={() => navigate(`/positions/${position.id}/edit`)}
-                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
-                        >
-                          <Edit className="h-3 w-3 mr-1" />
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => navigate(`/positions/${position.id}/assign`)}
-                          className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
-                        >
-                          <UserPlus className="h-3 w-3 mr-1" />
-                          Assign
-                        </button>
-                        <button
-                          onClick={() => navigate(`/positions/${position.id}/message`)}
-                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
-                        >
-                          <Mail className="h-3 w-3 mr-1" />
-                          Message
-                        </button>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
+                    )}
+                  </div>
+                );
+              })}
               {filteredAndSortedPositions.length === 0 && (
                 <div className="text-center py-8">
                   <AlertCircle className="h-12 w-12 text-gray-400 mx-auto mb-3" />
@@ -421,24 +642,27 @@ export function EventOverviewPage() {
                     url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                     attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                   />
-                  {positions.map((position) => (
-                    <Marker
-                      key={position.id}
-                      position={[position.latitude, position.longitude]}
-                      eventHandlers={{
-                        click: () => setSelectedPosition(position.id),
-                      }}
-                    >
-                      <Popup>
-                        <div className="p-2">
-                          <h3 className="font-medium">{position.name}</h3>
-                          <p className="text-sm text-gray-500">
-                            {position.filled}/{position.needed} Volunteers
-                          </p>
-                        </div>
-                      </Popup>
-                    </Marker>
-                  ))}
+                  {positions.map((position) => {
+                    const totals = staffingTotals(staffingByPosition.get(position.id) ?? []);
+                    return (
+                      <Marker
+                        key={position.id}
+                        position={[position.latitude, position.longitude]}
+                        eventHandlers={{
+                          click: () => setSelectedPosition(position.id),
+                        }}
+                      >
+                        <Popup>
+                          <div className="p-2">
+                            <h3 className="font-medium">{position.name}</h3>
+                            <p className="text-sm text-gray-500">
+                              {totals.filled}/{totals.needed} Volunteers
+                            </p>
+                          </div>
+                        </Popup>
+                      </Marker>
+                    );
+                  })}
                 </MapContainer>
               </div>
             )}
@@ -459,6 +683,10 @@ export function EventOverviewPage() {
           </div>
         </div>
       </div>
+
+      {showHistory && (
+        <HistoryDrawer eventId={event.id} timeZone={event.timezone} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
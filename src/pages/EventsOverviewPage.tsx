@@ -3,7 +3,12 @@ import { useQuery } from '@tanstack/react-query';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import { AlertCircle, Users, MapPin, Bell, CheckCircle, XCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
 import { format } from 'date-fns';
+import { formatDate, formatDateTime, formatShift } from '../lib/datetime';
+import { PositionSlot, positionStatus, slotStaffing } from '../lib/slots';
+import { EventStatus } from '../lib/eventStatus';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
 import { useSearchParams } from 'react-router-dom';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
@@ -19,8 +24,9 @@ L.Icon.Default.mergeOptions({
 interface Event {
   id: string;
   name: string;
-  date: string;
-  time: string;
+  starts_at: string;
+  timezone: string;
+  status: EventStatus;
 }
 
 interface Position {
@@ -33,11 +39,20 @@ interface Position {
   event: {
     id: string;
     name: string;
-    date: string;
-    time: string;
+    starts_at: string;
+    timezone: string;
+    status: EventStatus;
   };
+  slots: PositionSlot[];
 }
 
+type Tables = Database['public']['Tables'];
+
+// The position a realtime signup belongs to, with its one event
+type SignupPosition = Pick<Tables['volunteer_positions']['Row'], 'id' | 'name'> & {
+  event: Pick<Tables['events']['Row'], 'id' | 'name'>;
+};
+
 interface Issue {
   id: string;
   type: 'error' | 'warning' | 'info';
@@ -91,21 +106,24 @@ function MapUpdater({ positions, selectedEventId }: { positions: Position[], sel
 }
 
 export function EventsOverviewPage() {
+  const organization = useCurrentOrganization();
   const [searchParams, setSearchParams] = useSearchParams();
   const [selectedEventId, setSelectedEventId] = useState<string | null>(
     searchParams.get('eventId')
   );
   const [issues, setIssues] = useState<Issue[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const mapRef = useRef<L.Map | null>(null);
 
   // Fetch all events
   const { data: events } = useQuery({
-    queryKey: ['events'],
+    queryKey: ['events', organization.id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('events')
-        .select('id, name, date, time')
-        .order('date', { ascending: true });
+        .select('id, name, starts_at, timezone, status')
+        .eq('organization_id', organization.id)
+        .order('starts_at', { ascending: true });
       
       if (error) throw error;
       return data as Event[];
@@ -114,7 +132,7 @@ export function EventsOverviewPage() {
 
   // Fetch all positions
   const { data: positions } = useQuery({
-    queryKey: ['positions', selectedEventId],
+    queryKey: ['positions', 'overview', organization.id, selectedEventId],
     queryFn: async () => {
       const query = supabase
         .from('volunteer_positions')
@@ -125,13 +143,16 @@ export function EventsOverviewPage() {
           filled,
           latitude,
           longitude,
-          event:events(
+          event:events!inner(
             id,
             name,
-            date,
-            time
-          )
-        `);
+            starts_at,
+            timezone,
+            status
+          ),
+          slots:position_slots(id, starts_at, ends_at, needed, filled)
+        `)
+        .eq('event.organization_id', organization.id);
 
       if (selectedEventId) {
         query.eq('event_id', selectedEventId);
@@ -167,17 +188,19 @@ export function EventsOverviewPage() {
         if (payload.eventType === 'INSERT') {
           const { data: position } = await supabase
             .from('volunteer_positions')
-            .select('name, event:events(name)')
+            .select('id, name, event:events!inner(id, name)')
             .eq('id', payload.new.position_id)
-            .single();
+            .eq('event.organization_id', organization.id)
+            .maybeSingle<SignupPosition>();
 
-          if (!selectedEventId || (position?.event as any)?.id === selectedEventId) {
+          // Members of several organizations get every organization's signups
+          if (position && (!selectedEventId || position.event.id === selectedEventId)) {
             addIssue({
               id: crypto.randomUUID(),
               type: 'info',
-              message: `New volunteer ${payload.new.volunteer_name} signed up for ${position?.name}`,
+              message: `New volunteer ${payload.new.volunteer_name} signed up for ${position.name}`,
               timestamp: new Date().toISOString(),
-              position: position as any,
+              position,
             });
           }
         }
@@ -209,7 +232,7 @@ export function EventsOverviewPage() {
       signupsChannel.unsubscribe();
       clearInterval(staffingInterval);
     };
-  }, [positions, selectedEventId]);
+  }, [positions, selectedEventId, organization.id]);
 
   if (!events || !positions) {
     return (
@@ -219,27 +242,41 @@ export function EventsOverviewPage() {
     );
   }
 
+  // Archived events stay out of the totals and map unless asked for
   const filteredPositions = selectedEventId
     ? positions.filter(p => p.event.id === selectedEventId)
-    : positions;
+    : positions.filter(p => showArchived || p.event.status !== 'archived');
+  const listedEvents = events.filter(e => showArchived || e.status !== 'archived' || e.id === selectedEventId);
 
   return (
     <div className="space-y-6">
       <div className="bg-white shadow rounded-lg p-6">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-2xl font-bold text-gray-900">Events Overview</h1>
-          <select
-            value={selectedEventId || ''}
-            onChange={(e) => setSelectedEventId(e.target.value || null)}
-            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-          >
-            <option value="">All Events</option>
-            {events.map((event) => (
-              <option key={event.id} value={event.id}>
-                {event.name} - {format(new Date(event.date), 'PP')}
-              </option>
-            ))}
-          </select>
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              Show archived
+            </label>
+            <select
+              value={selectedEventId || ''}
+              onChange={(e) => setSelectedEventId(e.target.value || null)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">All Events</option>
+              {listedEvents.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name} - {formatDate(event.starts_at, event.timezone)}
+                  {event.status === 'archived' ? ' (archived)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -257,7 +294,7 @@ export function EventsOverviewPage() {
               <h2 className="text-lg font-semibold text-green-700">Filled Positions</h2>
             </div>
             <p className="text-3xl font-bold text-green-900 mt-2">
-              {filteredPositions.filter(p => p.filled >= p.needed).length}
+              {filteredPositions.filter(p => positionStatus(slotStaffing(p)) === 'filled').length}
             </p>
           </div>
           
@@ -267,7 +304,7 @@ export function EventsOverviewPage() {
               <h2 className="text-lg font-semibold text-red-700">Needs Volunteers</h2>
             </div>
             <p className="text-3xl font-bold text-red-900 mt-2">
-              {filteredPositions.filter(p => p.filled < p.needed).length}
+              {filteredPositions.filter(p => positionStatus(slotStaffing(p)) !== 'filled').length}
             </p>
           </div>
         </div>
@@ -290,27 +327,40 @@ export function EventsOverviewPage() {
                   url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                   attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                 />
-                {filteredPositions.map((position) => (
-                  <Marker
-                    key={position.id}
-                    position={[position.latitude, position.longitude]}
-                  >
-                    <Popup>
-                      <div className="p-2">
-                        <h3 className="font-medium">{position.name}</h3>
-                        <p className="text-sm text-gray-600">{position.event.name}</p>
-                        <p className="text-sm text-gray-600">
-                          {format(new Date(`${position.event.date} ${position.event.time}`), 'PPp')}
-                        </p>
-                        <p className={`text-sm ${
-                          position.filled >= position.needed ? 'text-green-600' : 'text-red-600'
-                        }`}>
-                          {position.filled}/{position.needed} Volunteers
-                        </p>
-                      </div>
-                    </Popup>
-                  </Marker>
-                ))}
+                {filteredPositions.map((position) => {
+                  const staffing = slotStaffing(position);
+                  const filled = staffing.reduce((sum, s) => sum + s.filled, 0);
+                  const needed = staffing.reduce((sum, s) => sum + s.needed, 0);
+                  return (
+                    <Marker
+                      key={position.id}
+                      position={[position.latitude, position.longitude]}
+                    >
+                      <Popup>
+                        <div className="p-2">
+                          <h3 className="font-medium">{position.name}</h3>
+                          <p className="text-sm text-gray-600">{position.event.name}</p>
+                          <p className="text-sm text-gray-600">
+                            {formatDateTime(position.event.starts_at, position.event.timezone)}
+                          </p>
+                          <p className={`text-sm ${
+                            positionStatus(staffing) === 'filled' ? 'text-green-600' : 'text-red-600'
+                          }`}>
+                            {filled}/{needed} Volunteers
+                          </p>
+                          {staffing.map(({ slot, filled, needed, status }) => slot && (
+                            <p
+                              key={slot.id}
+                              className={`text-xs ${status === 'filled' ? 'text-green-600' : 'text-red-600'}`}
+                            >
+                              {formatShift(slot.starts_at, slot.ends_at, position.event.timezone)}: {filled}/{needed}
+                            </p>
+                          ))}
+                        </div>
+                      </Popup>
+                    </Marker>
+                  );
+                })}
               </MapContainer>
             </div>
           </div>
@@ -2,52 +2,92 @@ import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
-import { format, isValid, parseISO } from 'date-fns';
-import { Calendar, Edit2, Trash2, Eye } from 'lucide-react';
+import { Calendar, Edit2, Trash2, Eye, Rss, Copy, BookmarkPlus, Repeat, ChevronDown, ChevronRight } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useCurrentOrganization, useOrganization } from '../contexts/OrganizationContext';
+import { GeoExportMenu } from '../components/GeoExportMenu';
+import { isValidTimeZone, localTimeZone } from '../lib/ical';
+import { formatDateRange, fromDateTimeInput, toDateTimeInput } from '../lib/datetime';
+import { getCalendarFeedUrl } from '../lib/calendarFeeds';
+import { createEventFromTemplate, fetchEventTemplates, saveEventAsTemplate } from '../lib/templates';
+import { createEventSeries, describeRule, fetchEventSeries, RecurrenceRule, SeriesDetails, updateSeriesFrom } from '../lib/series';
+import { EventStatus, setEventStatus, STATUS_COLORS, STATUS_LABELS, STATUS_TRANSITIONS } from '../lib/eventStatus';
+import { moveToTrash, restoreFromTrash } from '../lib/trash';
+import { DuplicateEventForm } from '../components/DuplicateEventForm';
+import { toastWithUndo } from '../components/UndoToast';
+import { RecurrenceFields } from '../components/RecurrenceFields';
+import { Link, useNavigate } from 'react-router-dom';
 
 interface Event {
   id: string;
   name: string;
-  date: string;
-  time: string;
+  starts_at: string;
+  ends_at: string;
   location: string;
+  timezone: string;
+  series_id: string | null;
+  status: EventStatus;
 }
 
 interface EventFormData {
   name: string;
-  date: string;
-  time: string;
+  starts_at: string;
+  ends_at: string;
   location: string;
+  timezone: string;
 }
 
+// A series stores each occurrence's local start time and length rather than
+// full timestamps, so the form's wall-clock values are converted directly
+const seriesDetails = (data: EventFormData): SeriesDetails => ({
+  name: data.name,
+  location: data.location,
+  timezone: data.timezone,
+  start_time: data.starts_at.slice(11, 16),
+  duration_minutes: (Date.parse(`${data.ends_at}Z`) - Date.parse(`${data.starts_at}Z`)) / 60000,
+});
+
 export function EventsPage() {
   const { user } = useAuth();
+  const organization = useCurrentOrganization();
+  const { hasRole } = useOrganization();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [duplicatingEvent, setDuplicatingEvent] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState('');
+  const [templateEventName, setTemplateEventName] = useState('');
+  const [templateStartsAt, setTemplateStartsAt] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  // "template:<id>" or "event:<id>" to copy each occurrence's positions from
+  const [positionsFrom, setPositionsFrom] = useState('');
+  const [expandedSeries, setExpandedSeries] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
-  const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<EventFormData>();
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<EventFormData>({
+    defaultValues: { timezone: localTimeZone() },
+  });
 
   useEffect(() => {
     if (editingEvent) {
       setValue('name', editingEvent.name);
-      setValue('date', editingEvent.date);
-      setValue('time', editingEvent.time);
+      setValue('starts_at', toDateTimeInput(editingEvent.starts_at, editingEvent.timezone));
+      setValue('ends_at', toDateTimeInput(editingEvent.ends_at, editingEvent.timezone));
       setValue('location', editingEvent.location);
+      setValue('timezone', editingEvent.timezone);
     }
   }, [editingEvent, setValue]);
 
   const { data: events, isLoading, error } = useQuery({
-    queryKey: ['events'],
+    queryKey: ['events', organization.id],
     queryFn: async () => {
       try {
         const { data, error } = await supabase
           .from('events')
           .select('*')
-          .order('date', { ascending: true });
+          .eq('organization_id', organization.id)
+          .order('starts_at', { ascending: true });
 
         if (error) throw error;
         return data;
@@ -60,12 +100,25 @@ export function EventsPage() {
     retryDelay: 1000,
   });
 
+  const { data: templates } = useQuery({
+    queryKey: ['event-templates', organization.id],
+    queryFn: () => fetchEventTemplates(organization.id),
+  });
+
+  const { data: series } = useQuery({
+    queryKey: ['event-series', organization.id],
+    queryFn: () => fetchEventSeries(organization.id),
+  });
+
+  const selectedTemplate = templates?.find(t => t.id === templateId);
+  const startsOn = watch('starts_at')?.slice(0, 10) ?? '';
+
   const createMutation = useMutation({
     mutationFn: async (data: EventFormData) => {
       try {
         const { error } = await supabase
           .from('events')
-          .insert([{ ...data, user_id: user?.id }]);
+          .insert([{ ...data, user_id: user?.id, organization_id: organization.id }]);
         if (error) throw error;
       } catch (error) {
         console.error('Error creating event:', error);
@@ -106,36 +159,171 @@ export function EventsPage() {
     },
   });
 
+  const createSeriesMutation = useMutation({
+    mutationFn: async (data: EventFormData) => {
+      try {
+        const [sourceType, sourceId] = positionsFrom.split(':');
+        return await createEventSeries(
+          organization.id,
+          seriesDetails(data),
+          { ...recurrence!, starts_on: data.starts_at.slice(0, 10) },
+          sourceType === 'template' ? { templateId: sourceId } : sourceType === 'event' ? { eventId: sourceId } : {}
+        );
+      } catch (error) {
+        console.error('Error creating event series:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['event-series'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success('Event series created successfully');
+      setRecurrence(null);
+      setPositionsFrom('');
+      reset();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create event series');
+    },
+  });
+
+  const updateSeriesMutation = useMutation({
+    mutationFn: async ({ eventId, data }: { eventId: string; data: EventFormData }) => {
+      try {
+        return await updateSeriesFrom(eventId, seriesDetails(data));
+      } catch (error) {
+        console.error('Error updating event series:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['event-series'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success('This and following events updated');
+      setEditingEvent(null);
+      reset();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update event series');
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ eventId, status }: { eventId: string; status: EventStatus }) => {
+      try {
+        await setEventStatus(eventId, status);
+      } catch (error) {
+        console.error('Error changing event status:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['events'] });
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success(`Event is now ${STATUS_LABELS[status].toLowerCase()}`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to change event status');
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       try {
-        const { error } = await supabase
-          .from('events')
-          .delete()
-          .eq('id', id);
-        if (error) throw error;
+        await moveToTrash('event', id);
       } catch (error) {
         console.error('Error deleting event:', error);
         throw error;
       }
     },
+    onSuccess: (_, id) => {
+      const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['events'] });
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+        queryClient.invalidateQueries({ queryKey: ['trash'] });
+      };
+      refresh();
+      toastWithUndo('Event moved to trash', async () => {
+        await restoreFromTrash('event', id);
+        refresh();
+      });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete event');
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: ({ eventId, name }: { eventId: string; name: string }) => saveEventAsTemplate(eventId, name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-templates'] });
+      toast.success('Template saved');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    },
+  });
+
+  const createFromTemplateMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        return await createEventFromTemplate(
+          templateId,
+          templateEventName.trim(),
+          fromDateTimeInput(templateStartsAt, selectedTemplate!.timezone)
+        );
+      } catch (error) {
+        console.error('Error creating event from template:', error);
+        throw error;
+      }
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['events'] });
-      toast.success('Event deleted successfully');
+      queryClient.invalidateQueries({ queryKey: ['positions'] });
+      toast.success('Event created from template');
+      setTemplateId('');
+      setTemplateEventName('');
+      setTemplateStartsAt('');
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : 'Failed to delete event');
+      toast.error(error instanceof Error ? error.message : 'Failed to create event from template');
+    },
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: () => getCalendarFeedUrl('coordinator', 'My volunteer events'),
+    onSuccess: async (url) => {
+      await navigator.clipboard.writeText(url);
+      toast.success('Calendar subscription link copied');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create calendar link');
     },
   });
 
+  // The form holds wall-clock values in the event's time zone
   const onSubmit = (data: EventFormData) => {
+    const values = {
+      ...data,
+      starts_at: fromDateTimeInput(data.starts_at, data.timezone),
+      ends_at: fromDateTimeInput(data.ends_at, data.timezone),
+    };
     if (editingEvent) {
-      updateMutation.mutate({ ...data, id: editingEvent.id });
+      updateMutation.mutate({ ...values, id: editingEvent.id, series_id: editingEvent.series_id, status: editingEvent.status });
+    } else if (recurrence) {
+      createSeriesMutation.mutate(data);
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate(values);
     }
   };
 
+  const onSubmitFollowing = (data: EventFormData) => {
+    updateSeriesMutation.mutate({ eventId: editingEvent!.id, data });
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -158,22 +346,108 @@ export function EventsPage() {
     );
   }
 
-  const formatEventDateTime = (date: string, time: string) => {
+  const formatEventDateTime = (event: Event) => {
     try {
-      const dateTimeString = `${date}T${time}:00Z`;
-      const parsedDate = parseISO(dateTimeString);
-      
-      if (!isValid(parsedDate)) {
-        return `${date} ${time}`;
-      }
-      
-      return format(parsedDate, 'PPp');
+      return formatDateRange(event.starts_at, event.ends_at, event.timezone);
     } catch (err) {
       console.error('Error formatting date/time:', err);
-      return `${date} ${time}`;
+      return `${event.starts_at} – ${event.ends_at}`;
     }
   };
 
+  // Occurrences of a series collapse into one row, placed where the first one falls
+  const rows: { seriesId: string | null; events: Event[] }[] = [];
+  const archivedCount = events?.filter(event => event.status === 'archived').length ?? 0;
+  const visibleEvents = showArchived ? events : events?.filter(event => event.status !== 'archived');
+  visibleEvents?.forEach((event) => {
+    const row = event.series_id && rows.find(r => r.seriesId === event.series_id);
+    if (row) {
+      row.events.push(event);
+    } else {
+      rows.push({ seriesId: event.series_id, events: [event] });
+    }
+  });
+
+  const renderEvent = (event: Event) => (
+    <li key={event.id} className="px-4 py-4 sm:px-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Calendar className="h-5 w-5 text-gray-400 mr-3" />
+          <div>
+            <p className="text-sm font-medium text-indigo-600">{event.name}</p>
+            <p className="text-sm text-gray-500">
+              {formatEventDateTime(event)}
+            </p>
+            <p className="text-sm text-gray-500">{event.location}</p>
+            <div className="mt-1 flex items-center space-x-2">
+              <span className={`px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_COLORS[event.status]}`}>
+                {STATUS_LABELS[event.status]}
+              </span>
+              {STATUS_TRANSITIONS[event.status].map(({ to, label }) => (
+                <button
+                  key={to}
+                  onClick={() => statusMutation.mutate({ eventId: event.id, status: to })}
+                  disabled={statusMutation.isPending}
+                  className="text-xs text-indigo-600 hover:text-indigo-500"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => navigate(`/overview?eventId=${event.id}`)}
+            className="text-gray-400 hover:text-gray-500"
+            title="View event overview"
+          >
+            <Eye className="h-5 w-5" />
+          </button>
+          <GeoExportMenu eventId={event.id} eventName={event.name} variant="icon" />
+          <button
+            onClick={() => setEditingEvent(event)}
+            className="text-gray-400 hover:text-gray-500"
+            title="Edit event"
+          >
+            <Edit2 className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => setDuplicatingEvent(duplicatingEvent === event.id ? null : event.id)}
+            className="text-gray-400 hover:text-gray-500"
+            title="Duplicate event"
+          >
+            <Copy className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => {
+              const name = window.prompt('Template name', event.name);
+              if (name?.trim()) {
+                saveTemplateMutation.mutate({ eventId: event.id, name: name.trim() });
+              }
+            }}
+            className="text-gray-400 hover:text-gray-500"
+            title="Save as template"
+          >
+            <BookmarkPlus className="h-5 w-5" />
+          </button>
+          {hasRole('owner') && (
+            <button
+              onClick={() => deleteMutation.mutate(event.id)}
+              className="text-gray-400 hover:text-gray-500"
+              title="Move to trash"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      </div>
+      {duplicatingEvent === event.id && (
+        <DuplicateEventForm event={event} onClose={() => setDuplicatingEvent(null)} />
+      )}
+    </li>
+  );
+
   return (
     <div className="space-y-6">
       <div className="bg-white shadow rounded-lg p-6">
@@ -192,41 +466,103 @@ export function EventsPage() {
             )}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Date</label>
-            <input
-              type="date"
-              {...register('date', { required: 'Date is required' })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-            {errors.date && (
-              <p className="mt-1 text-sm text-red-600">{errors.date.message}</p>
-            )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Starts</label>
+              <input
+                type="datetime-local"
+                {...register('starts_at', { required: 'Start is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.starts_at && (
+                <p className="mt-1 text-sm text-red-600">{errors.starts_at.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Ends</label>
+              <input
+                type="datetime-local"
+                {...register('ends_at', {
+                  required: 'End is required',
+                  validate: (value, { starts_at }) => value > starts_at || 'End must be after the start',
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.ends_at && (
+                <p className="mt-1 text-sm text-red-600">{errors.ends_at.message}</p>
+              )}
+            </div>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700">Time</label>
+            <label className="block text-sm font-medium text-gray-700">Location</label>
             <input
-              type="time"
-              {...register('time', { required: 'Time is required' })}
+              {...register('location', { required: 'Location is required' })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             />
-            {errors.time && (
-              <p className="mt-1 text-sm text-red-600">{errors.time.message}</p>
+            {errors.location && (
+              <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
             )}
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700">Location</label>
+            <label className="block text-sm font-medium text-gray-700">Time Zone</label>
             <input
-              {...register('location', { required: 'Location is required' })}
+              {...register('timezone', {
+                required: 'Time zone is required',
+                validate: (value) => isValidTimeZone(value) || 'Enter a time zone such as America/Chicago',
+              })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             />
-            {errors.location && (
-              <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
+            {errors.timezone && (
+              <p className="mt-1 text-sm text-red-600">{errors.timezone.message}</p>
             )}
           </div>
 
+          {!editingEvent && (
+            <RecurrenceFields rule={recurrence} startsOn={startsOn} onChange={setRecurrence} />
+          )}
+
+          {!editingEvent && recurrence && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Positions from</label>
+              <select
+                value={positionsFrom}
+                onChange={(e) => setPositionsFrom(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">No positions</option>
+                {templates && templates.length > 0 && (
+                  <optgroup label="Templates">
+                    {templates.map((template) => (
+                      <option key={template.id} value={`template:${template.id}`}>{template.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+                {events && events.length > 0 && (
+                  <optgroup label="Events">
+                    {events.map((event) => (
+                      <option key={event.id} value={`event:${event.id}`}>
+                        {event.name} ({formatEventDateTime(event)})
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Every occurrence gets a copy of these positions and shift slots.
+              </p>
+            </div>
+          )}
+
+          {editingEvent?.series_id && (
+            <p className="text-sm text-gray-500">
+              This event is part of a series. Saving this and following events applies the name, location,
+              time zone, start time and length to every later occurrence; their dates stay the same.
+            </p>
+          )}
+
           <div className="flex justify-end space-x-3">
             {editingEvent && (
               <button
@@ -240,68 +576,165 @@ export function EventsPage() {
                 Cancel
               </button>
             )}
+            {editingEvent?.series_id ? (
+              <>
+                <button
+                  type="submit"
+                  className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Save This Occurrence
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmit(onSubmitFollowing)}
+                  disabled={updateSeriesMutation.isPending}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  {updateSeriesMutation.isPending ? 'Saving...' : 'Save This and Following'}
+                </button>
+              </>
+            ) : (
+              <button
+                type="submit"
+                disabled={createSeriesMutation.isPending}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                {editingEvent ? 'Update Event' : recurrence ? 'Create Series' : 'Create Event'}
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-medium">Create from Template</h2>
+          <Link to="/templates" className="text-sm text-indigo-600 hover:text-indigo-500">
+            Manage templates
+          </Link>
+        </div>
+        {templates && templates.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Template</label>
+              <select
+                value={templateId}
+                onChange={(e) => {
+                  setTemplateId(e.target.value);
+                  setTemplateEventName(templates.find(t => t.id === e.target.value)?.event_name ?? '');
+                }}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Select a template</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} ({template.positions.length} positions)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Event Name</label>
+              <input
+                value={templateEventName}
+                onChange={(e) => setTemplateEventName(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Starts{selectedTemplate && ` (${selectedTemplate.timezone})`}
+              </label>
+              <input
+                type="datetime-local"
+                value={templateStartsAt}
+                onChange={(e) => setTemplateStartsAt(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
             <button
-              type="submit"
-              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              onClick={() => createFromTemplateMutation.mutate()}
+              disabled={!selectedTemplate || !templateEventName.trim() || !templateStartsAt || createFromTemplateMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
             >
-              {editingEvent ? 'Update Event' : 'Create Event'}
+              {createFromTemplateMutation.isPending ? 'Creating...' : 'Create Event'}
             </button>
           </div>
-        </form>
+        ) : (
+          <p className="text-sm text-gray-500">
+            No templates yet. Use the bookmark button on an event below to save it as a template.
+          </p>
+        )}
       </div>
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="px-4 py-5 sm:px-6">
+        <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
           <h3 className="text-lg font-medium leading-6 text-gray-900">
             Upcoming Events
           </h3>
+          <div className="flex items-center space-x-4">
+            {archivedCount > 0 && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showArchived}
+                  onChange={(e) => setShowArchived(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                Show archived ({archivedCount})
+              </label>
+            )}
+            <button
+              onClick={() => subscribeMutation.mutate()}
+              disabled={subscribeMutation.isPending}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              title="Copy a calendar subscription link for all your events"
+            >
+              <Rss className="h-4 w-4 mr-1" />
+              Subscribe in Calendar
+            </button>
+          </div>
         </div>
         <div className="border-t border-gray-200">
           <ul className="divide-y divide-gray-200">
-            {events?.map((event) => (
-              <li key={event.id} className="px-4 py-4 sm:px-6">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <Calendar className="h-5 w-5 text-gray-400 mr-3" />
-                    <div>
-                      <p className="text-sm font-medium text-indigo-600">{event.name}</p>
-                      <p className="text-sm text-gray-500">
-                        {formatEventDateTime(event.date, event.time)}
-                      </p>
-                      <p className="text-sm text-gray-500">{event.location}</p>
+            {rows.map((row) => {
+              const rowSeries = row.seriesId ? series?.find(item => item.id === row.seriesId) : undefined;
+              if (!rowSeries) return row.events.map(renderEvent);
+
+              const expanded = expandedSeries === rowSeries.id;
+              const next = row.events.find(event => Date.parse(event.ends_at) > Date.now());
+              return (
+                <li key={rowSeries.id} className="px-4 py-4 sm:px-6">
+                  <button
+                    onClick={() => setExpandedSeries(expanded ? null : rowSeries.id)}
+                    className="w-full flex items-center justify-between text-left"
+                  >
+                    <div className="flex items-center">
+                      <Repeat className="h-5 w-5 text-gray-400 mr-3" />
+                      <div>
+                        <p className="text-sm font-medium text-indigo-600">{rowSeries.name}</p>
+                        <p className="text-sm text-gray-500">{describeRule(rowSeries)}</p>
+                        <p className="text-sm text-gray-500">
+                          {row.events.length} {row.events.length === 1 ? 'event' : 'events'}
+                          {next ? ` · Next: ${formatEventDateTime(next)}` : ' · All occurrences have passed'}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex space-x-3">
-                    <button
-                      onClick={() => navigate(`/overview?eventId=${event.id}`)}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="View event overview"
-                    >
-                      <Eye className="h-5 w-5" />
-                    </button>
-                    <button
-                      onClick={() => setEditingEvent(event)}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="Edit event"
-                    >
-                      <Edit2 className="h-5 w-5" />
-                    </button>
-                    <button
-                      onClick={() => {
-                        if (window.confirm('Are you sure you want to delete this event?')) {
-                          deleteMutation.mutate(event.id);
-                        }
-                      }}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="Delete event"
-                    >
-                      <Trash2 className="h-5 w-5" />
-                    </button>
-                  </div>
-                </div>
-              </li>
-            ))}
-            {events?.length === 0 && (
+                    {expanded ? (
+                      <ChevronDown className="h-5 w-5 text-gray-400" />
+                    ) : (
+                      <ChevronRight className="h-5 w-5 text-gray-400" />
+                    )}
+                  </button>
+                  {expanded && (
+                    <ul className="mt-3 ml-8 border-l border-gray-200 divide-y divide-gray-200">
+                      {row.events.map(renderEvent)}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+            {visibleEvents?.length === 0 && (
               <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
                 No events found. Create one above!
               </li>
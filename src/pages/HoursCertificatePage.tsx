@@ -0,0 +1,100 @@
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { ChevronLeft, Printer } from 'lucide-react';
+import { certificateVerifyUrl, fetchHoursCertificate } from '../lib/hours';
+import { formatHours } from '../lib/attendance';
+import { formatCalendarDate, formatShift } from '../lib/datetime';
+
+export function HoursCertificatePage() {
+  const { certificateId } = useParams<{ certificateId: string }>();
+
+  const { data: certificate } = useQuery({
+    queryKey: ['hours-certificates', 'certificate', certificateId],
+    queryFn: () => fetchHoursCertificate(certificateId!),
+    enabled: !!certificateId,
+  });
+
+  if (!certificate) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const verifyUrl = certificateVerifyUrl(certificate.verification_code);
+
+  return (
+    <div className="print-pack bg-gray-100 min-h-screen print:bg-white">
+      <div className="print:hidden sticky top-0 z-10 bg-white shadow px-6 py-4 flex items-center justify-between">
+        <Link
+          to={`/volunteers/${certificate.volunteer_id}/hours`}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to service hours
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          Print or Save as PDF
+        </button>
+      </div>
+
+      <div className="max-w-4xl mx-auto py-8 print:p-0 print:max-w-none">
+        <section className="print-page bg-white shadow p-12 print:shadow-none text-center">
+          <p className="text-lg text-gray-600">{certificate.organization_name}</p>
+          <h1 className="text-4xl font-bold mt-2">Certificate of Volunteer Service</h1>
+          <p className="mt-10 text-gray-600">This certifies that</p>
+          <p className="mt-2 text-3xl font-semibold">{certificate.volunteer_name}</p>
+          <p className="mt-6 text-gray-600">
+            completed <span className="font-semibold text-black">{formatHours(certificate.total_minutes)} hours</span> of
+            volunteer service between {formatCalendarDate(certificate.period_start)} and {formatCalendarDate(certificate.period_end)}.
+          </p>
+
+          <table className="w-full text-sm text-left mt-10">
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-400">
+                <th className="py-1">Event</th>
+                <th className="py-1">Position</th>
+                <th className="py-1">Shift</th>
+                <th className="py-1 text-right">Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {certificate.shifts.map((shift, index) => (
+                <tr key={index} className="border-b border-gray-200">
+                  <td className="py-1">{shift.event_name}</td>
+                  <td className="py-1">{shift.position_name}</td>
+                  <td className="py-1">{formatShift(shift.starts_at, shift.ends_at, shift.timezone)}</td>
+                  <td className="py-1 text-right">{formatHours(shift.minutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-12 flex items-end justify-between text-left">
+            <div>
+              <div className="w-64 border-b border-gray-400 h-10"></div>
+              <p className="mt-1 text-sm text-gray-600">Coordinator signature</p>
+              <p className="mt-4 text-sm text-gray-600">
+                Approved {new Date(certificate.approved_at).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex items-end space-x-4">
+              <div className="text-right">
+                <p className="text-sm text-gray-600">Verification code</p>
+                <p className="text-lg font-mono font-semibold">{certificate.verification_code}</p>
+                <p className="text-xs text-gray-500 mt-1 max-w-xs break-all">{verifyUrl}</p>
+              </div>
+              <QRCodeSVG value={verifyUrl} size={96} level="M" />
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
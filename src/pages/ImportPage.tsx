@@ -0,0 +1,468 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { FileSpreadsheet, ChevronLeft, ChevronRight, Check } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
+import { FileUpload } from '../components/FileUpload';
+import { ColumnMapper } from '../components/ColumnMapper';
+import { PositionMapper, MappablePosition } from '../components/PositionMapper';
+import { DataTable } from '../components/DataTable';
+import { SaveToSupabase } from '../components/SaveToSupabase';
+import { ImportHistory } from '../components/ImportHistory';
+import {
+  ParsedSheet,
+  SPREADSHEET_ACCEPT,
+  countDistinctItems,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  parseSpreadsheet,
+  structureSignUpData,
+} from '../lib/signUpImport';
+import { fetchRememberedMatches, matchItem, rememberMatches } from '../lib/positionMatcher';
+import { diffImportRows, fetchExistingSignups, summarizeDiff } from '../lib/importBatches';
+import { acceptsAssignments, EventStatus } from '../lib/eventStatus';
+import { ColumnMapping, PositionMapping } from '../types';
+
+interface Event {
+  id: string;
+  organization_id: string;
+  name: string;
+  starts_at: string;
+  timezone: string;
+  status: EventStatus;
+}
+
+type ImportStep = 'upload' | 'columns' | 'positions' | 'preview';
+
+const steps: { key: ImportStep; label: string }[] = [
+  { key: 'upload', label: 'Upload' },
+  { key: 'columns', label: 'Map Columns' },
+  { key: 'positions', label: 'Map Positions' },
+  { key: 'preview', label: 'Dry Run & Save' },
+];
+
+export function ImportPage() {
+  const { user } = useAuth();
+  const organization = useCurrentOrganization();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+  const [sheets, setSheets] = useState<ParsedSheet[]>([]);
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [eventId, setEventId] = useState('');
+  const [positionMapping, setPositionMapping] = useState<PositionMapping>({});
+  const [resolvedItems, setResolvedItems] = useState<Set<string>>(new Set());
+  const [includeChanged, setIncludeChanged] = useState(false);
+
+  const { data: events } = useQuery({
+    queryKey: ['events', organization.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, organization_id, name, starts_at, timezone, status')
+        .eq('organization_id', organization.id)
+        .order('starts_at', { ascending: true });
+      if (error) throw error;
+      return data as Event[];
+    },
+  });
+
+  const { data: positions } = useQuery({
+    queryKey: ['positions', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('volunteer_positions')
+        .select('id, name, needed, filled')
+        .eq('event_id', eventId)
+        .order('name', { ascending: true });
+      if (error) throw error;
+      return data as MappablePosition[];
+    },
+    enabled: !!eventId,
+  });
+
+  const { data: rememberedMatches } = useQuery({
+    queryKey: ['import-position-matches', eventId],
+    queryFn: () => fetchRememberedMatches(eventId),
+    enabled: !!eventId,
+  });
+
+  // Dry run: compare against what is already stored for the event
+  const { data: existingSignups } = useQuery({
+    queryKey: ['volunteers', 'existing', eventId],
+    queryFn: () => fetchExistingSignups(eventId),
+    enabled: !!eventId && step === 'preview',
+  });
+
+  const items = useMemo(
+    () => (sheet && columnMapping ? countDistinctItems(sheet.rows, columnMapping) : []),
+    [sheet, columnMapping]
+  );
+
+  const matches = useMemo(() => {
+    if (!positions || !rememberedMatches) return {};
+    return Object.fromEntries(
+      items.map(item => [item.name, matchItem(item.name, positions, rememberedMatches)])
+    );
+  }, [items, positions, rememberedMatches]);
+
+  const structuredData = useMemo(() => {
+    if (!sheet || !columnMapping) return [];
+    return structureSignUpData(sheet.rows, columnMapping, positionMapping);
+  }, [sheet, columnMapping, positionMapping]);
+
+  const selectedEvent = events?.find(event => event.id === eventId);
+
+  const diff = useMemo(
+    () => (existingSignups && selectedEvent ? diffImportRows(structuredData, existingSignups, selectedEvent) : []),
+    [structuredData, existingSignups, selectedEvent]
+  );
+  const diffByRow = useMemo(() => Object.fromEntries(diff.map(entry => [entry.row.id, entry])), [diff]);
+  const summary = summarizeDiff(diff);
+
+  const positionNames = useMemo(
+    () => Object.fromEntries((positions ?? []).map(p => [p.id, p.name])),
+    [positions]
+  );
+
+  const selectSheet = (selected: ParsedSheet) => {
+    setSheet(selected);
+    setColumnMapping(guessColumnMapping(selected.headers));
+    setPositionMapping({});
+    setResolvedItems(new Set());
+    setStep('columns');
+  };
+
+  const handleFileUpload = async (file: File) => {
+    setIsParsing(true);
+    try {
+      const parsed = (await parseSpreadsheet(file)).filter(s => s.rows.length > 0);
+      if (parsed.length === 0) {
+        toast.error('The file does not contain any rows');
+        return;
+      }
+      setFileName(file.name);
+      setSheets(parsed);
+      // Workbooks with several non-empty sheets need the user to pick one
+      if (parsed.length === 1) {
+        selectSheet(parsed[0]);
+      }
+    } catch (error) {
+      console.error('Error parsing file:', error);
+      toast.error('Error reading file. Please upload a CSV, TSV or Excel export.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleEventChange = (id: string) => {
+    setEventId(id);
+    setPositionMapping({});
+    setResolvedItems(new Set());
+  };
+
+  // Pre-select remembered and confident matches; ambiguous items stay empty for review
+  useEffect(() => {
+    if (step !== 'positions') return;
+    setPositionMapping(current => {
+      const next = { ...current };
+      Object.entries(matches).forEach(([item, match]) => {
+        if (next[item] === undefined) next[item] = match.positionId;
+      });
+      return next;
+    });
+  }, [step, matches]);
+
+  const needsReview = (item: string) =>
+    matches[item]?.status === 'ambiguous' && !resolvedItems.has(item);
+
+  const handlePositionChange = (item: string, positionId: string | null) => {
+    setPositionMapping(current => ({ ...current, [item]: positionId }));
+    setResolvedItems(current => new Set(current).add(item));
+  };
+
+  const resetImport = () => {
+    setStep('upload');
+    setFileName('');
+    setSheets([]);
+    setSheet(null);
+    setColumnMapping(null);
+    setPositionMapping({});
+    setResolvedItems(new Set());
+    setIncludeChanged(false);
+  };
+
+  const missingFields = columnMapping ? getMissingRequiredFields(columnMapping) : [];
+  const stepIndex = steps.findIndex(s => s.key === step);
+
+  const reviewCount = items.filter(item => needsReview(item.name)).length;
+  const canContinue =
+    (step === 'columns' && missingFields.length === 0) ||
+    (step === 'positions' && !!eventId && reviewCount === 0 && Object.values(positionMapping).some(Boolean));
+
+  const goNext = () => {
+    if (step === 'columns') {
+      setStep('positions');
+    } else if (step === 'positions') {
+      setStep('preview');
+    }
+  };
+
+  const goBack = () => {
+    if (stepIndex > 0) setStep(steps[stepIndex - 1].key);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-center mb-6">
+          <FileSpreadsheet className="h-6 w-6 text-indigo-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Import SignUpGenius Export</h1>
+        </div>
+
+        <ol className="flex items-center space-x-4 text-sm">
+          {steps.map((s, index) => (
+            <li key={s.key} className="flex items-center">
+              <span
+                className={`flex items-center justify-center h-6 w-6 rounded-full mr-2 text-xs font-medium ${
+                  index < stepIndex
+                    ? 'bg-indigo-600 text-white'
+                    : index === stepIndex
+                    ? 'border-2 border-indigo-600 text-indigo-600'
+                    : 'border-2 border-gray-300 text-gray-400'
+                }`}
+              >
+                {index < stepIndex ? <Check className="h-3 w-3" /> : index + 1}
+              </span>
+              <span className={index === stepIndex ? 'text-indigo-600 font-medium' : 'text-gray-500'}>
+                {s.label}
+              </span>
+              {index < steps.length - 1 && <ChevronRight className="h-4 w-4 text-gray-300 ml-4" />}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        {step === 'upload' && (
+          <div className="flex flex-col items-center space-y-4">
+            <FileUpload
+              onFileUpload={handleFileUpload}
+              accept={SPREADSHEET_ACCEPT}
+              hint="CSV, TSV or Excel (.xlsx) files"
+              disabled={isParsing}
+            />
+            {isParsing ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600 mr-2"></div>
+                Reading file...
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Export the sign-up report from SignUpGenius, or upload a partner roster, and drop it here.
+              </p>
+            )}
+            {sheets.length > 1 && (
+              <div className="w-full max-w-md">
+                <h2 className="text-sm font-medium text-gray-900 mb-2">
+                  {fileName} has {sheets.length} sheets. Which one should be imported?
+                </h2>
+                <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
+                  {sheets.map((s) => (
+                    <li key={s.name}>
+                      <button
+                        type="button"
+                        onClick={() => selectSheet(s)}
+                        className="w-full flex justify-between items-center px-4 py-3 text-sm hover:bg-gray-50"
+                      >
+                        <span className="font-medium text-indigo-600">{s.name}</span>
+                        <span className="text-gray-500">{s.rows.length} rows</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'columns' && sheet && columnMapping && (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Map Columns</h2>
+              <p className="text-sm text-gray-500">
+                {sheets.length > 1 ? `${fileName} (${sheet.name})` : fileName} — {sheet.rows.length} rows. Choose which column holds each field.
+              </p>
+            </div>
+            <ColumnMapper
+              headers={sheet.headers}
+              rows={sheet.rows}
+              mapping={columnMapping}
+              onChange={setColumnMapping}
+            />
+            {missingFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Required: {missingFields.map(f => f.label).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'positions' && (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Map Positions</h2>
+              <p className="text-sm text-gray-500">
+                Pick the event, then check the volunteer position each imported item belongs to.
+                Confident and previously used matches are filled in automatically.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Event</label>
+              <select
+                value={eventId}
+                onChange={(e) => handleEventChange(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Select an event</option>
+                {events?.filter(event => acceptsAssignments(event.status)).map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {eventId && positions && (
+              positions.length > 0 ? (
+                <>
+                  {reviewCount > 0 && (
+                    <p className="text-sm text-yellow-700">
+                      {reviewCount} item{reviewCount === 1 ? '' : 's'} could match more than one position. Choose a position or skip them to continue.
+                    </p>
+                  )}
+                  <PositionMapper
+                    items={items}
+                    positions={positions}
+                    mapping={positionMapping}
+                    matches={matches}
+                    needsReview={needsReview}
+                    onChange={handlePositionChange}
+                  />
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  This event has no volunteer positions yet. Create them on the Positions page first.
+                </p>
+              )
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Dry Run</h2>
+              <p className="text-sm text-gray-500">
+                Nothing has been saved yet. This is how {fileName} compares with the signups already stored for the event.
+              </p>
+            </div>
+            {!existingSignups ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-green-50 p-4 rounded-lg">
+                    <p className="text-sm font-medium text-green-700">New</p>
+                    <p className="text-2xl font-bold text-green-900">{summary.new}</p>
+                  </div>
+                  <div className="bg-gray-50 p-4 rounded-lg">
+                    <p className="text-sm font-medium text-gray-700">Duplicate</p>
+                    <p className="text-2xl font-bold text-gray-900">{summary.duplicate}</p>
+                  </div>
+                  <div className="bg-yellow-50 p-4 rounded-lg">
+                    <p className="text-sm font-medium text-yellow-700">Changed</p>
+                    <p className="text-2xl font-bold text-yellow-900">{summary.changed}</p>
+                  </div>
+                  <div className="bg-red-50 p-4 rounded-lg">
+                    <p className="text-sm font-medium text-red-700">Invalid</p>
+                    <p className="text-2xl font-bold text-red-900">{summary.invalid}</p>
+                  </div>
+                </div>
+                <DataTable data={structuredData} positionNames={positionNames} diff={diffByRow} />
+                {summary.changed > 0 && (
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={includeChanged}
+                      onChange={(e) => setIncludeChanged(e.target.checked)}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-2"
+                    />
+                    Also import changed rows as additional signups
+                  </label>
+                )}
+                {selectedEvent && (
+                  <SaveToSupabase
+                    diff={diff}
+                    event={selectedEvent}
+                    fileName={fileName}
+                    userEmail={user?.email ?? null}
+                    includeChanged={includeChanged}
+                    onSaved={async (count) => {
+                      // Saved before the refetch below, so it sees these matches
+                      if (user) {
+                        try {
+                          await rememberMatches(eventId, user.id, positionMapping);
+                        } catch (error) {
+                          console.error('Error saving position matches:', error);
+                        }
+                      }
+                      queryClient.invalidateQueries({ queryKey: ['import-position-matches', eventId] });
+                      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+                      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+                      queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] });
+                      queryClient.invalidateQueries({ queryKey: ['positions'] });
+                      toast.success(`Imported ${count} volunteers`);
+                      resetImport();
+                    }}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {step !== 'upload' && (
+          <div className="mt-6 flex justify-between border-t border-gray-200 pt-4">
+            <button
+              type="button"
+              onClick={goBack}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back
+            </button>
+            {step !== 'preview' && (
+              <button
+                type="button"
+                onClick={goNext}
+                disabled={!canContinue}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed"
+              >
+                Continue
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ImportHistory />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
@@ -10,20 +10,52 @@ interface FormData {
   password: string;
 }
 
+type Mode = 'signIn' | 'signUp' | 'forgotPassword';
+
+const TITLES: Record<Mode, string> = {
+  signIn: 'Sign in to your account',
+  signUp: 'Create an account',
+  forgotPassword: 'Reset your password',
+};
+
 export function LoginPage() {
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [mode, setMode] = useState<Mode>('signIn');
   const [isLoading, setIsLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const [notice, setNotice] = useState<string | null>(null);
+  // Set once we know the address still needs confirming, to offer a resend
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const { user, signIn, signUp, resendVerification, requestPasswordReset } = useAuth();
   const navigate = useNavigate();
-  const { register, handleSubmit, formState: { errors } } = useForm<FormData>();
+  // The password field is hidden while requesting a reset link
+  const { register, handleSubmit, formState: { errors } } = useForm<FormData>({ shouldUnregister: true });
+
+  // Confirmation links sign the user in and land here
+  if (user) {
+    return <Navigate to="/" replace />;
+  }
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setNotice(null);
+  };
 
   const onSubmit = async (data: FormData) => {
     setIsLoading(true);
     try {
-      if (isSignUp) {
-        await signUp(data.email, data.password);
-        toast.success('Account created! Please sign in.');
-        setIsSignUp(false);
+      if (mode === 'forgotPassword') {
+        await requestPasswordReset(data.email);
+        switchMode('signIn');
+        setNotice(`If an account uses ${data.email}, we've sent it a link to choose a new password.`);
+      } else if (mode === 'signUp') {
+        const needsVerification = await signUp(data.email, data.password);
+        if (needsVerification) {
+          switchMode('signIn');
+          setNotice(`We've sent a confirmation link to ${data.email}. Confirm your address, then sign in.`);
+          setUnverifiedEmail(data.email);
+        } else {
+          toast.success('Account created!');
+          navigate('/');
+        }
       } else {
         await signIn(data.email, data.password);
         toast.success('Welcome back!');
@@ -33,7 +65,10 @@ export function LoginPage() {
       if (error instanceof Error) {
         if (error.message.includes('user_already_exists')) {
           toast.error('An account with this email already exists. Please sign in.');
-          setIsSignUp(false);
+          switchMode('signIn');
+        } else if (error.message.includes('Email not confirmed')) {
+          toast.error('Please confirm your email address before signing in.');
+          setUnverifiedEmail(data.email);
         } else if (error.message.includes('Invalid login credentials')) {
           toast.error('Invalid email or password');
         } else if (error.message.includes('connect error')) {
@@ -49,6 +84,19 @@ export function LoginPage() {
     }
   };
 
+  const onResendVerification = async () => {
+    if (!unverifiedEmail) return;
+    setIsLoading(true);
+    try {
+      await resendVerification(unverifiedEmail);
+      toast.success(`Confirmation email sent to ${unverifiedEmail}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resend confirmation email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow">
@@ -57,15 +105,40 @@ export function LoginPage() {
             <LogIn className="h-6 w-6 text-indigo-600" />
           </div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            {isSignUp ? 'Create an account' : 'Sign in to your account'}
+            {TITLES[mode]}
           </h2>
+          {mode === 'forgotPassword' && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Enter your email address and we'll send you a link to choose a new password.
+            </p>
+          )}
         </div>
+
+        {(notice || unverifiedEmail) && (
+          <div className="rounded-md bg-indigo-50 p-4 text-sm text-indigo-700 space-y-2">
+            {notice && <p>{notice}</p>}
+            {unverifiedEmail && (
+              <p>
+                Didn't get the confirmation email?{' '}
+                <button
+                  type="button"
+                  onClick={onResendVerification}
+                  disabled={isLoading}
+                  className="font-medium underline hover:text-indigo-500"
+                >
+                  Send it again
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="email" className="sr-only">Email address</label>
               <input
-                {...register('email', { 
+                {...register('email', {
                   required: 'Email is required',
                   pattern: {
                     value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
@@ -73,33 +146,50 @@ export function LoginPage() {
                   }
                 })}
                 type="email"
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm ${
+                  mode === 'forgotPassword' ? 'rounded-md' : 'rounded-t-md'
+                }`}
                 placeholder="Email address"
               />
               {errors.email && (
                 <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
               )}
             </div>
-            <div>
-              <label htmlFor="password" className="sr-only">Password</label>
-              <input
-                {...register('password', { 
-                  required: 'Password is required',
-                  minLength: {
-                    value: 6,
-                    message: 'Password must be at least 6 characters'
-                  }
-                })}
-                type="password"
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
-              />
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
-              )}
-            </div>
+            {mode !== 'forgotPassword' && (
+              <div>
+                <label htmlFor="password" className="sr-only">Password</label>
+                <input
+                  {...register('password', {
+                    required: 'Password is required',
+                    minLength: {
+                      value: 6,
+                      message: 'Password must be at least 6 characters'
+                    }
+                  })}
+                  type="password"
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+            )}
           </div>
 
+          {mode === 'signIn' && (
+            <div className="text-right">
+              <button
+                type="button"
+                onClick={() => switchMode('forgotPassword')}
+                className="text-sm text-indigo-600 hover:text-indigo-500"
+                disabled={isLoading}
+              >
+                Forgot password?
+              </button>
+            </div>
+          )}
+
           <div>
             <button
               type="submit"
@@ -108,22 +198,28 @@ export function LoginPage() {
                 isLoading ? 'opacity-50 cursor-not-allowed' : ''
               }`}
             >
-              {isLoading ? 'Please wait...' : (isSignUp ? 'Sign Up' : 'Sign In')}
+              {isLoading ? 'Please wait...' : (
+                mode === 'signUp' ? 'Sign Up' : mode === 'forgotPassword' ? 'Send Reset Link' : 'Sign In'
+              )}
             </button>
           </div>
 
           <div className="text-center">
             <button
               type="button"
-              onClick={() => setIsSignUp(!isSignUp)}
+              onClick={() => switchMode(mode === 'signIn' ? 'signUp' : 'signIn')}
               className="text-sm text-indigo-600 hover:text-indigo-500"
               disabled={isLoading}
             >
-              {isSignUp ? 'Already have an account? Sign in' : "Don't have an account? Sign up"}
+              {mode === 'signUp'
+                ? 'Already have an account? Sign in'
+                : mode === 'forgotPassword'
+                  ? 'Back to sign in'
+                  : "Don't have an account? Sign up"}
             </button>
           </div>
         </form>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
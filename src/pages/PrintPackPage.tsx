@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { ChevronLeft, Printer } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { checkInUrl } from '../lib/checkin';
+import { formatDateRange, formatShift } from '../lib/datetime';
+
+interface Event {
+  id: string;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  location: string;
+}
+
+interface Position {
+  id: string;
+  name: string;
+  needed: number;
+  filled: number;
+  description: string | null;
+}
+
+interface Signup {
+  id: string;
+  position_id: string;
+  volunteer_name: string;
+  phone_number: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+type Section = 'roster' | 'signin' | 'posters';
+
+const SECTIONS: { key: Section; label: string }[] = [
+  { key: 'roster', label: 'Roster' },
+  { key: 'signin', label: 'Sign-in sheets' },
+  { key: 'posters', label: 'QR posters' },
+];
+
+// Sign-in sheets always leave room for walk-ins
+const EXTRA_SIGNIN_ROWS = 3;
+
+export function PrintPackPage() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [sections, setSections] = useState<Record<Section, boolean>>({
+    roster: true,
+    signin: true,
+    posters: true,
+  });
+
+  const { data: event } = useQuery({
+    queryKey: ['event', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('*')
+        .eq('id', eventId)
+        .single();
+
+      if (error) throw error;
+      return data as Event;
+    },
+    enabled: !!eventId,
+  });
+
+  const { data: positions } = useQuery({
+    queryKey: ['positions', eventId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('volunteer_positions')
+        .select('*')
+        .eq('event_id', eventId);
+
+      if (error) throw error;
+      return data as Position[];
+    },
+    enabled: !!eventId,
+  });
+
+  const { data: signups } = useQuery({
+    queryKey: ['volunteers', eventId],
+    queryFn: async () => {
+      if (!positions) return [];
+
+      const { data, error } = await supabase
+        .from('volunteer_signups')
+        .select('*')
+        .in('position_id', positions.map(p => p.id));
+
+      if (error) throw error;
+      return data as Signup[];
+    },
+    enabled: !!positions,
+  });
+
+  if (!event || !positions || !signups) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const sortedPositions = [...positions].sort((a, b) => a.name.localeCompare(b.name));
+  const signupsFor = (positionId: string) =>
+    signups
+      .filter(s => s.position_id === positionId)
+      .sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at) || a.volunteer_name.localeCompare(b.volunteer_name));
+  const eventDates = formatDateRange(event.starts_at, event.ends_at, event.timezone);
+  const shiftTimes = (signup: Signup) => formatShift(signup.starts_at, signup.ends_at, event.timezone);
+
+  return (
+    <div className="print-pack bg-gray-100 min-h-screen print:bg-white">
+      <div className="print:hidden sticky top-0 z-10 bg-white shadow px-6 py-4 flex items-center justify-between">
+        <Link to={`/events/${event.id}`} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to {event.name}
+        </Link>
+        <div className="flex items-center space-x-6">
+          {SECTIONS.map(({ key, label }) => (
+            <label key={key} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={sections[key]}
+                onChange={(e) => setSections({ ...sections, [key]: e.target.checked })}
+                className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              {label}
+            </label>
+          ))}
+          <button
+            onClick={() => window.print()}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto py-8 space-y-8 print:p-0 print:space-y-0 print:max-w-none">
+        {sections.roster && (
+          <section className="print-page bg-white shadow p-8 print:shadow-none">
+            <h1 className="text-2xl font-bold">{event.name} - Roster</h1>
+            <p className="text-sm text-gray-600 mb-6">{eventDates} · {event.location}</p>
+            {sortedPositions.map((position) => {
+              const positionSignups = signupsFor(position.id);
+              return (
+                <div key={position.id} className="mb-6 break-inside-avoid">
+                  <h2 className="text-lg font-semibold border-b border-gray-400 mb-2">
+                    {position.name}
+                    <span className="ml-2 text-sm font-normal text-gray-600">
+                      {positionSignups.length}/{position.needed}
+                    </span>
+                  </h2>
+                  {positionSignups.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-1 w-1/2">Name</th>
+                          <th className="py-1">Phone</th>
+                          <th className="py-1">Shift</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {positionSignups.map((signup) => (
+                          <tr key={signup.id} className="border-t border-gray-200">
+                            <td className="py-1">{signup.volunteer_name}</td>
+                            <td className="py-1">{signup.phone_number}</td>
+                            <td className="py-1">{shiftTimes(signup)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-500">No volunteers assigned.</p>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        )}
+
+        {sections.signin && sortedPositions.map((position) => {
+          const positionSignups = signupsFor(position.id);
+          const blankRows = Math.max(position.needed - positionSignups.length, 0) + EXTRA_SIGNIN_ROWS;
+          return (
+            <section key={`signin-${position.id}`} className="print-page bg-white shadow p-8 print:shadow-none">
+              <h1 className="text-2xl font-bold">{position.name} - Sign-in Sheet</h1>
+              <p className="text-sm text-gray-600 mb-6">{event.name} · {eventDates}</p>
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left">
+                    <th className="border border-gray-400 px-2 py-1 w-1/4">Name</th>
+                    <th className="border border-gray-400 px-2 py-1">Phone</th>
+                    <th className="border border-gray-400 px-2 py-1">Shift</th>
+                    <th className="border border-gray-400 px-2 py-1">Time In</th>
+                    <th className="border border-gray-400 px-2 py-1">Time Out</th>
+                    <th className="border border-gray-400 px-2 py-1 w-1/4">Signature</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positionSignups.map((signup) => (
+                    <tr key={signup.id} className="h-10">
+                      <td className="border border-gray-400 px-2">{signup.volunteer_name}</td>
+                      <td className="border border-gray-400 px-2">{signup.phone_number}</td>
+                      <td className="border border-gray-400 px-2">{shiftTimes(signup)}</td>
+                      <td className="border border-gray-400" />
+                      <td className="border border-gray-400" />
+                      <td className="border border-gray-400" />
+                    </tr>
+                  ))}
+                  {Array.from({ length: blankRows }, (_, index) => (
+                    <tr key={`blank-${index}`} className="h-10">
+                      {Array.from({ length: 6 }, (_, cell) => (
+                        <td key={cell} className="border border-gray-400" />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          );
+        })}
+
+        {sections.posters && sortedPositions.map((position) => (
+          <section
+            key={`poster-${position.id}`}
+            className="print-page bg-white shadow p-8 print:shadow-none flex flex-col items-center justify-center text-center min-h-[60rem] print:min-h-0 print:h-[250mm]"
+          >
+            <p className="text-xl text-gray-600">{event.name}</p>
+            <h1 className="text-5xl font-bold mt-2 mb-8">{position.name}</h1>
+            <QRCodeSVG value={checkInUrl(position.id)} size={360} level="H" includeMargin={true} />
+            <p className="text-2xl font-semibold mt-8">Scan to check in</p>
+            <p className="text-sm text-gray-600 mt-4 break-all">{checkInUrl(position.id)}</p>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
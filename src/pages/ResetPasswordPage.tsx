@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { KeyRound } from 'lucide-react';
+
+interface FormData {
+  password: string;
+  confirmPassword: string;
+}
+
+// Landing page for the link in password reset emails. Following the link
+// signs the user in with a recovery session, which can only set a new password.
+export function ResetPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const { user, loading, passwordRecovery, resetPassword } = useAuth();
+  const navigate = useNavigate();
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<FormData>();
+
+  const onSubmit = async (data: FormData) => {
+    setIsLoading(true);
+    try {
+      await resetPassword(data.password);
+      toast.success('Password updated');
+      navigate('/');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-center text-sm text-gray-500">Loading...</p>;
+    }
+
+    if (!user || !passwordRecovery) {
+      return (
+        <p className="text-center text-sm text-gray-600">
+          This password reset link is invalid or has expired.{' '}
+          <Link to="/login" className="text-indigo-600 hover:text-indigo-500">
+            Request a new one
+          </Link>{' '}
+          from the sign in page.
+        </p>
+      );
+    }
+
+    return (
+      <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+        <p className="text-center text-sm text-gray-600">Choose a new password for {user.email}.</p>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">New password</label>
+          <input
+            {...register('password', {
+              required: 'Password is required',
+              minLength: {
+                value: 6,
+                message: 'Password must be at least 6 characters'
+              }
+            })}
+            type="password"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">Confirm new password</label>
+          <input
+            {...register('confirmPassword', {
+              required: 'Please confirm your new password',
+              validate: (value) => value === watch('password') || 'Passwords do not match'
+            })}
+            type="password"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className={`w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+            isLoading ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          {isLoading ? 'Please wait...' : 'Set New Password'}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 bg-white p-8 rounded-lg shadow">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-indigo-100">
+            <KeyRound className="h-6 w-6 text-indigo-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">Reset your password</h2>
+        </div>
+        {renderBody()}
+      </div>
+    </div>
+  );
+}
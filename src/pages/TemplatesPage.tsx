@@ -0,0 +1,356 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { LayoutTemplate, Edit2, Trash2, Plus, X } from 'lucide-react';
+import {
+  EventTemplate,
+  EventTemplateUpdate,
+  deleteEventTemplate,
+  fetchEventTemplates,
+  updateEventTemplate,
+} from '../lib/templates';
+import { isValidTimeZone } from '../lib/ical';
+import { formatHours } from '../lib/attendance';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
+
+interface TemplateFormData extends Omit<EventTemplateUpdate, 'duration_minutes'> {
+  duration_hours: number;
+}
+
+// "+2h 30m" from the event start
+const formatOffset = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `+${hours}h${rest ? ` ${rest}m` : ''}`;
+};
+
+const toFormData = (template: EventTemplate): TemplateFormData => ({
+  name: template.name,
+  event_name: template.event_name,
+  location: template.location,
+  timezone: template.timezone,
+  duration_hours: template.duration_minutes / 60,
+  positions: template.positions,
+});
+
+// Positions not placed on the map have no coordinates. Number inputs give
+// back '' once cleared.
+const toCoordinate = (value: number | string | null) =>
+  value === null || value === '' ? null : Number(value);
+
+export function TemplatesPage() {
+  const queryClient = useQueryClient();
+  const organization = useCurrentOrganization();
+  const [editingTemplate, setEditingTemplate] = useState<EventTemplate | null>(null);
+
+  const { register, control, handleSubmit, reset, watch, formState: { errors } } = useForm<TemplateFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'positions' });
+  const positions = watch('positions');
+
+  useEffect(() => {
+    if (editingTemplate) {
+      reset(toFormData(editingTemplate));
+    }
+  }, [editingTemplate, reset]);
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['event-templates', organization.id],
+    queryFn: () => fetchEventTemplates(organization.id),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: TemplateFormData }) => {
+      const { duration_hours, ...rest } = data;
+      try {
+        await updateEventTemplate(id, {
+          ...rest,
+          duration_minutes: Math.round(Number(duration_hours) * 60),
+          positions: rest.positions.map(position => ({
+            ...position,
+            needed: position.slots.length > 0
+              ? position.slots.reduce((sum, slot) => sum + slot.needed, 0)
+              : Number(position.needed),
+            description: position.description || null,
+            skill_level: position.skill_level || null,
+            latitude: toCoordinate(position.latitude),
+            longitude: toCoordinate(position.longitude),
+          })),
+        });
+      } catch (error) {
+        console.error('Error updating template:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-templates'] });
+      toast.success('Template updated successfully');
+      setEditingTemplate(null);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update template');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteEventTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['event-templates'] });
+      toast.success('Template deleted successfully');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {editingTemplate && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium mb-4">Edit Template</h2>
+          <form
+            onSubmit={handleSubmit((data) => updateMutation.mutate({ id: editingTemplate.id, data }))}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Template Name</label>
+                <input
+                  {...register('name', { required: 'Template name is required' })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Event Name</label>
+                <input
+                  {...register('event_name', { required: 'Event name is required' })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                {errors.event_name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.event_name.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Location</label>
+                <input
+                  {...register('location')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Time Zone</label>
+                  <input
+                    {...register('timezone', {
+                      required: 'Time zone is required',
+                      validate: (value) => isValidTimeZone(value) || 'Enter a time zone such as America/Chicago',
+                    })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  {errors.timezone && (
+                    <p className="mt-1 text-sm text-red-600">{errors.timezone.message}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Length (hours)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    {...register('duration_hours', {
+                      required: 'Length is required',
+                      min: { value: 0.25, message: 'Length must be at least 15 minutes' },
+                    })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  {errors.duration_hours && (
+                    <p className="mt-1 text-sm text-red-600">{errors.duration_hours.message}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-900">Positions</h3>
+                <button
+                  type="button"
+                  onClick={() => append({
+                    name: '',
+                    needed: 1,
+                    description: null,
+                    skill_level: null,
+                    latitude: null,
+                    longitude: null,
+                    slots: [],
+                  })}
+                  className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-500"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Position
+                </button>
+              </div>
+              <div className="space-y-3">
+                {fields.map((field, index) => {
+                  const slots = positions?.[index]?.slots ?? [];
+                  return (
+                    <div key={field.id} className="p-3 border border-gray-200 rounded-md space-y-2">
+                      <div className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-end">
+                        <div className="col-span-2">
+                          <label className="block text-xs font-medium text-gray-700">Name</label>
+                          <input
+                            {...register(`positions.${index}.name`, { required: true })}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700">Needed</label>
+                          <input
+                            type="number"
+                            min="1"
+                            readOnly={slots.length > 0}
+                            title={slots.length > 0 ? 'Set by the shift slots' : undefined}
+                            {...register(`positions.${index}.needed`, { required: true, min: 1 })}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm read-only:bg-gray-100"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700">Latitude</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register(`positions.${index}.latitude`)}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700">Longitude</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register(`positions.${index}.longitude`)}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                        <div className="flex justify-end">
+                          <button
+                            type="button"
+                            onClick={() => remove(index)}
+                            className="p-2 text-gray-400 hover:text-red-600"
+                            title="Remove position"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <input
+                          {...register(`positions.${index}.description`)}
+                          placeholder="Description"
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                        <input
+                          {...register(`positions.${index}.skill_level`)}
+                          placeholder="Skill level"
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+                      {slots.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          Shift slots: {slots.map(slot =>
+                            `${formatOffset(slot.start_offset_minutes)} for ${formatHours(slot.duration_minutes)}h (${slot.needed})`
+                          ).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+                {fields.length === 0 && (
+                  <p className="text-sm text-gray-500">No positions in this template.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingTemplate(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={updateMutation.isPending}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400"
+              >
+                {updateMutation.isPending ? 'Saving...' : 'Save Template'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Event Templates</h3>
+        </div>
+        <div className="border-t border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {templates?.map((template) => (
+              <li key={template.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <div className="flex items-center">
+                  <LayoutTemplate className="h-5 w-5 text-gray-400 mr-3" />
+                  <div>
+                    <p className="text-sm font-medium text-indigo-600">{template.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {template.event_name} · {template.positions.length} positions · {formatHours(template.duration_minutes)}h
+                    </p>
+                    {template.location && (
+                      <p className="text-sm text-gray-500">{template.location}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => setEditingTemplate(template)}
+                    className="text-gray-400 hover:text-gray-500"
+                    title="Edit template"
+                  >
+                    <Edit2 className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm('Are you sure you want to delete this template?')) {
+                        deleteMutation.mutate(template.id);
+                      }
+                    }}
+                    className="text-gray-400 hover:text-gray-500"
+                    title="Delete template"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {templates?.length === 0 && (
+              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                No templates yet. Save an event as a template from the Events page.
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Calendar, Users, UserRound, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  TrashItem,
+  TrashItemType,
+  fetchRetentionDays,
+  fetchTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  saveRetentionDays,
+} from '../lib/trash';
+import { useCurrentOrganization, useOrganization } from '../contexts/OrganizationContext';
+
+const ITEM_ICONS: Record<TrashItemType, typeof Calendar> = {
+  event: Calendar,
+  position: Users,
+  signup: UserRound,
+};
+
+const ITEM_LABELS: Record<TrashItemType, string> = {
+  event: 'Event',
+  position: 'Position',
+  signup: 'Volunteer',
+};
+
+// Children first, so nothing is already gone with its parent when its turn comes
+const PURGE_ORDER: TrashItemType[] = ['signup', 'position', 'event'];
+
+export function TrashPage() {
+  const organization = useCurrentOrganization();
+  const { hasRole } = useOrganization();
+  const queryClient = useQueryClient();
+  const [retentionDays, setRetentionDays] = useState('');
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: ['trash', organization.id],
+    queryFn: () => fetchTrash(organization.id),
+  });
+
+  const { data: savedRetentionDays } = useQuery({
+    queryKey: ['trash', 'retention', organization.id],
+    queryFn: () => fetchRetentionDays(organization.id),
+  });
+
+  useEffect(() => {
+    if (savedRetentionDays !== undefined) {
+      setRetentionDays(String(savedRetentionDays));
+    }
+  }, [savedRetentionDays]);
+
+  // Restored items show up again everywhere else
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['trash'] });
+    queryClient.invalidateQueries({ queryKey: ['events'] });
+    queryClient.invalidateQueries({ queryKey: ['positions'] });
+    queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+    queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      try {
+        return await restoreFromTrash(item.item_type, item.item_id);
+      } catch (error) {
+        console.error('Error restoring item:', error);
+        throw error;
+      }
+    },
+    onSuccess: (outcome, item) => {
+      refresh();
+      toast.success(outcome === 'waitlisted'
+        ? `${item.name}'s place was filled in the meantime, so they are back on the waitlist`
+        : `${item.name} restored`);
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore item');
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (purged: TrashItem[]) => {
+      try {
+        for (const item of purged) {
+          await purgeFromTrash(item.item_type, item.item_id);
+        }
+      } catch (error) {
+        console.error('Error purging trash:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, purged) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.success(purged.length === 1 ? 'Deleted for good' : `${purged.length} items deleted for good`);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      toast.error(error instanceof Error ? error.message : 'Failed to delete items');
+    },
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async (days: number) => {
+      try {
+        await saveRetentionDays(organization.id, days);
+      } catch (error) {
+        console.error('Error saving retention period:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+      toast.success('Retention period saved');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save retention period');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const days = Number(retentionDays);
+  const validRetention = Number.isInteger(days) && days >= 1 && days <= 365;
+  // Only owners delete events, here as anywhere else
+  const canPurge = (item: TrashItem) => item.item_type !== 'event' || hasRole('owner');
+  const purgeable = items?.filter(canPurge) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-2">Retention</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Deleted events, positions and volunteers stay in the trash for this long, then are deleted for good.
+        </p>
+        <div className="flex items-end space-x-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Keep for (days)</label>
+            <input
+              type="number"
+              min="1"
+              max="365"
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              disabled={!hasRole('owner')}
+              className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
+            />
+          </div>
+          {hasRole('owner') && (
+            <button
+              onClick={() => retentionMutation.mutate(days)}
+              disabled={!validRetention || days === savedRetentionDays || retentionMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+            >
+              Save
+            </button>
+          )}
+        </div>
+        {!validRetention && (
+          <p className="mt-1 text-sm text-red-600">Enter a number of days from 1 to 365</p>
+        )}
+        {!hasRole('owner') && (
+          <p className="mt-1 text-sm text-gray-500">Only owners can change the retention period.</p>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Trash</h3>
+          {purgeable.length > 0 && (
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete ${purgeable.length === items?.length ? 'all ' : ''}${purgeable.length} items in the trash for good? This cannot be undone.`)) {
+                  purgeMutation.mutate(
+                    [...purgeable].sort((a, b) => PURGE_ORDER.indexOf(a.item_type) - PURGE_ORDER.indexOf(b.item_type))
+                  );
+                }
+              }}
+              disabled={purgeMutation.isPending}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-red-600 bg-white hover:bg-gray-50"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Empty Trash
+            </button>
+          )}
+        </div>
+        <div className="border-t border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {items?.map((item) => {
+              const Icon = ITEM_ICONS[item.item_type];
+              return (
+                <li key={`${item.item_type}-${item.item_id}`} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                  <div className="flex items-center">
+                    <Icon className="h-5 w-5 text-gray-400 mr-3" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {item.name}
+                        <span className="ml-2 text-xs font-normal text-gray-500">{ITEM_LABELS[item.item_type]}</span>
+                      </p>
+                      {item.detail && <p className="text-sm text-gray-500">{item.detail}</p>}
+                      <p className="text-sm text-gray-500">
+                        Deleted {new Date(item.deleted_at).toLocaleString()}
+                        {item.signup_count > 0 && ` with ${item.signup_count} volunteer${item.signup_count === 1 ? '' : 's'}`}
+                        {' · '}deleted for good on {new Date(item.purge_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={() => restoreMutation.mutate(item)}
+                      disabled={restoreMutation.isPending}
+                      className="text-gray-400 hover:text-gray-500"
+                      title="Restore"
+                    >
+                      <RotateCcw className="h-5 w-5" />
+                    </button>
+                    {canPurge(item) && (
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Delete ${item.name} for good? This cannot be undone.`)) {
+                            purgeMutation.mutate([item]);
+                          }
+                        }}
+                        disabled={purgeMutation.isPending}
+                        className="text-gray-400 hover:text-red-500"
+                        title="Delete for good"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+            {items?.length === 0 && (
+              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                The trash is empty.
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { ChevronRight, Award, Download, Trash2 } from 'lucide-react';
+import { fetchVolunteerProfile } from '../lib/volunteers';
+import {
+  fetchHoursCertificates,
+  fetchHoursLines,
+  hoursCsv,
+  issueHoursCertificate,
+  revokeHoursCertificate,
+  totalLineMinutes,
+} from '../lib/hours';
+import { formatHours } from '../lib/attendance';
+import { formatShift, formatTime } from '../lib/datetime';
+import { downloadFile, fileSlug } from '../lib/download';
+
+// Remembered between reports so coordinators type it once
+const ORGANIZATION_KEY = 'certificateOrganization';
+
+const today = () => new Date().toISOString().slice(0, 10);
+const startOfYear = () => `${new Date().getFullYear()}-01-01`;
+
+export function VolunteerHoursPage() {
+  const { volunteerId } = useParams<{ volunteerId: string }>();
+  const queryClient = useQueryClient();
+  const [from, setFrom] = useState(startOfYear);
+  const [to, setTo] = useState(today);
+  const [organizationName, setOrganizationName] = useState(() => localStorage.getItem(ORGANIZATION_KEY) ?? '');
+
+  const { data: volunteer } = useQuery({
+    queryKey: ['volunteer-profiles', volunteerId],
+    queryFn: () => fetchVolunteerProfile(volunteerId!),
+    enabled: !!volunteerId,
+  });
+
+  const { data: lines, isLoading: linesLoading } = useQuery({
+    queryKey: ['volunteers', 'hours', volunteerId, from, to],
+    queryFn: () => fetchHoursLines({ volunteerId, from, to }),
+    enabled: !!volunteerId && !!from && !!to && from <= to,
+  });
+
+  const { data: certificates } = useQuery({
+    queryKey: ['hours-certificates', volunteerId],
+    queryFn: () => fetchHoursCertificates(volunteerId!),
+    enabled: !!volunteerId,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      try {
+        localStorage.setItem(ORGANIZATION_KEY, organizationName.trim());
+        return await issueHoursCertificate({
+          volunteer: volunteer!,
+          organizationName,
+          from,
+          to,
+          lines: lines ?? [],
+        });
+      } catch (error) {
+        console.error('Error issuing certificate:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hours-certificates', volunteerId] });
+      toast.success('Hours approved and certificate issued');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to issue certificate');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeHoursCertificate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hours-certificates', volunteerId] });
+      toast.success('Certificate revoked');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke certificate');
+    },
+  });
+
+  if (!volunteer) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const totalMinutes = totalLineMinutes(lines ?? []);
+  const canApprove = !!lines && lines.length > 0 && organizationName.trim() !== '' && !approveMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <nav className="flex items-center text-sm text-gray-500">
+        <Link to="/volunteers" className="hover:text-gray-700">Volunteers</Link>
+        <ChevronRight className="h-4 w-4 mx-2" />
+        <Link to={`/volunteers/${volunteer.id}`} className="hover:text-gray-700">{volunteer.name}</Link>
+        <ChevronRight className="h-4 w-4 mx-2" />
+        <span className="text-gray-900">Service Hours</span>
+      </nav>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div className="flex space-x-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">From</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">To</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-sm text-gray-500">Total hours</p>
+            <p className="text-2xl font-semibold text-gray-900">{formatHours(totalMinutes)}</p>
+          </div>
+        </div>
+        {from > to && (
+          <p className="text-sm text-red-600">The start date must be on or before the end date</p>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Attended Shifts</h3>
+          <button
+            onClick={() => lines && downloadFile(
+              hoursCsv(lines),
+              `hours-${fileSlug(volunteer.name)}-${from}-${to}.csv`,
+              'text/csv;charset=utf-8;'
+            )}
+            disabled={!lines || lines.length === 0}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </button>
+        </div>
+        <div className="border-t border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {lines?.map((line) => (
+              <li key={line.signup_id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{line.event_name}</p>
+                  <p className="text-sm text-gray-500">
+                    {line.position_name} · {formatShift(line.starts_at, line.ends_at, line.timezone)}
+                  </p>
+                  {line.checked_in_at && (
+                    <p className="text-xs text-gray-500">
+                      In {formatTime(line.checked_in_at, line.timezone)}
+                      {line.checked_out_at && ` · Out ${formatTime(line.checked_out_at, line.timezone)}`}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-gray-900">{formatHours(line.minutes)} h</p>
+                  <p className="text-xs text-gray-500">{line.basis === 'recorded' ? 'Checked out' : 'Scheduled shift'}</p>
+                </div>
+              </li>
+            ))}
+            {linesLoading && (
+              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">Loading...</li>
+            )}
+            {lines?.length === 0 && (
+              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                No attended shifts in this period.
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Approve Hours</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Approving issues a certificate for the shifts above. It keeps these hours even if the shifts are edited later.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700">Organization name</label>
+            <input
+              value={organizationName}
+              onChange={(e) => setOrganizationName(e.target.value)}
+              placeholder="As it should appear on the certificate"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <button
+            onClick={() => {
+              if (window.confirm(`Approve ${formatHours(totalMinutes)} hours for ${volunteer.name}?`)) {
+                approveMutation.mutate();
+              }
+            }}
+            disabled={!canApprove}
+            className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400"
+          >
+            <Award className="h-4 w-4 mr-2" />
+            {approveMutation.isPending ? 'Approving...' : 'Approve & Issue Certificate'}
+          </button>
+        </div>
+
+        {certificates && certificates.length > 0 && (
+          <ul className="border-t border-gray-200 divide-y divide-gray-200">
+            {certificates.map((certificate) => (
+              <li key={certificate.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <Link
+                    to={`/certificates/${certificate.id}`}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    {formatHours(certificate.total_minutes)} hours · {certificate.period_start} to {certificate.period_end}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {certificate.organization_name} · Code {certificate.verification_code} · Approved {new Date(certificate.approved_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => {
+                    if (window.confirm('Revoke this certificate? Its verification code will stop working.')) {
+                      revokeMutation.mutate(certificate.id);
+                    }
+                  }}
+                  className="text-red-600 hover:text-red-900"
+                  title="Revoke certificate"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { toast } from 'react-hot-toast';
-import { MapPin, Edit2, Trash2, QrCode } from 'lucide-react';
+import { MapPin, Edit2, Trash2, QrCode, Upload, Plus, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
 import { QRCodeSVG } from 'qrcode.react';
+import { PositionImport } from '../components/PositionImport';
+import { SKILL_LEVELS } from '../lib/positionImport';
+import { checkInUrl } from '../lib/checkin';
+import { formatShift, fromDateTimeInput, toDateTimeInput } from '../lib/datetime';
+import { PositionSlot, savePositionSlots, sortSlots } from '../lib/slots';
+import { EventStatus } from '../lib/eventStatus';
+import { moveToTrash, restoreFromTrash } from '../lib/trash';
+import { toastWithUndo } from '../components/UndoToast';
+import { fetchOrganizationMembers } from '../lib/organizations';
 
 interface Position {
   id: string;
@@ -17,11 +27,25 @@ interface Position {
   skill_level: string | null;
   latitude: number;
   longitude: number;
+  captain_id: string | null;
+  event: { name: string; starts_at: string; timezone: string };
+  slots: PositionSlot[];
 }
 
 interface Event {
   id: string;
   name: string;
+  starts_at: string;
+  timezone: string;
+  status: EventStatus;
+}
+
+// Slot times are datetime-local values in the event's time zone
+interface SlotFormData {
+  slot_id: string;
+  starts_at: string;
+  ends_at: string;
+  needed: number;
 }
 
 interface PositionFormData {
@@ -32,17 +56,28 @@ interface PositionFormData {
   skill_level: string;
   latitude: number;
   longitude: number;
+  // Empty for no captain
+  captain_id: string;
+  slots: SlotFormData[];
 }
 
 export function VolunteerPositionsPage() {
   const { user } = useAuth();
+  const organization = useCurrentOrganization();
   const queryClient = useQueryClient();
   const [editingPosition, setEditingPosition] = useState<Position | null>(null);
   const [showQRCode, setShowQRCode] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
 
-  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<PositionFormData>();
+  const { register, handleSubmit, reset, setValue, watch, control, formState: { errors } } = useForm<PositionFormData>({
+    defaultValues: { slots: [] },
+  });
+  const { fields: slotFields, append: appendSlot, remove: removeSlot, replace: replaceSlots } = useFieldArray({
+    control,
+    name: 'slots',
+  });
   const formValues = watch();
 
   // Get user's location
@@ -77,18 +112,25 @@ export function VolunteerPositionsPage() {
       setValue('skill_level', editingPosition.skill_level || '');
       setValue('latitude', editingPosition.latitude);
       setValue('longitude', editingPosition.longitude);
+      setValue('captain_id', editingPosition.captain_id ?? '');
+      replaceSlots(sortSlots(editingPosition.slots).map(slot => ({
+        slot_id: slot.id,
+        starts_at: toDateTimeInput(slot.starts_at, editingPosition.event.timezone),
+        ends_at: toDateTimeInput(slot.ends_at, editingPosition.event.timezone),
+        needed: slot.needed,
+      })));
     }
-  }, [editingPosition, setValue]);
+  }, [editingPosition, setValue, replaceSlots]);
 
   const { data: events } = useQuery({
-    queryKey: ['events'],
+    queryKey: ['events', organization.id],
     queryFn: async () => {
       try {
         const { data, error } = await supabase
           .from('events')
-          .select('id, name')
-          .eq('user_id', user?.id)
-          .order('date', { ascending: true });
+          .select('id, name, starts_at, timezone, status')
+          .eq('organization_id', organization.id)
+          .order('starts_at', { ascending: true });
         if (error) throw error;
         return data as Event[];
       } catch (error) {
@@ -99,16 +141,17 @@ export function VolunteerPositionsPage() {
   });
 
   const { data: positions, isLoading, error } = useQuery({
-    queryKey: ['positions'],
+    queryKey: ['positions', organization.id],
     queryFn: async () => {
       try {
         const { data, error } = await supabase
           .from('volunteer_positions')
           .select(`
             *,
-            event:events(name)
+            event:events!inner(name, starts_at, timezone),
+            slots:position_slots(id, starts_at, ends_at, needed, filled)
           `)
-          .eq('user_id', user?.id)
+          .eq('event.organization_id', organization.id)
           .order('created_at', { ascending: false });
         if (error) throw error;
         return data;
@@ -119,18 +162,58 @@ export function VolunteerPositionsPage() {
     },
   });
 
+  const { data: members } = useQuery({
+    queryKey: ['organization-members', organization.id],
+    queryFn: () => fetchOrganizationMembers(organization.id),
+  });
+  const captains = members?.filter(member => member.role === 'captain') ?? [];
+
+  const selectedEvent = events?.find(e => e.id === formValues.event_id);
+  const slotTotal = formValues.slots?.reduce((sum, slot) => sum + (Number(slot.needed) || 0), 0) ?? 0;
+
+  // A position with slots needs what its slots add up to
+  useEffect(() => {
+    if (slotFields.length > 0) {
+      setValue('needed', slotTotal);
+    }
+  }, [slotFields.length, slotTotal, setValue]);
+
+  const toSlotDrafts = (slots: SlotFormData[], eventId: string) => {
+    const timeZone = events?.find(e => e.id === eventId)?.timezone ?? 'UTC';
+    return slots.map(slot => ({
+      id: slot.slot_id || undefined,
+      starts_at: fromDateTimeInput(slot.starts_at, timeZone),
+      ends_at: fromDateTimeInput(slot.ends_at, timeZone),
+      needed: slot.needed,
+    }));
+  };
+
+  const addSlot = () => {
+    const previous = formValues.slots?.[formValues.slots.length - 1];
+    const start = previous?.ends_at
+      || (selectedEvent ? toDateTimeInput(selectedEvent.starts_at, selectedEvent.timezone) : '');
+    appendSlot({ slot_id: '', starts_at: start, ends_at: '', needed: 1 });
+  };
+
   const createMutation = useMutation({
-    mutationFn: async (data: PositionFormData) => {
+    mutationFn: async ({ slots, ...data }: PositionFormData) => {
       setIsSubmitting(true);
       try {
-        const { error } = await supabase
+        const { data: position, error } = await supabase
           .from('volunteer_positions')
           .insert([{ 
             ...data, 
+            captain_id: data.captain_id || null,
             user_id: user?.id,
             filled: 0
-          }]);
+          }])
+          .select('id')
+          .single();
         if (error) throw error;
+
+        if (slots.length > 0) {
+          await savePositionSlots(position.id, toSlotDrafts(slots, data.event_id));
+        }
       } catch (error) {
         console.error('Error creating position:', error);
         throw error;
@@ -149,14 +232,16 @@ export function VolunteerPositionsPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: Partial<Position>) => {
+    mutationFn: async ({ id, slots, ...data }: PositionFormData & { id: string }) => {
       setIsSubmitting(true);
       try {
         const { error } = await supabase
           .from('volunteer_positions')
-          .update(data)
-          .eq('id', data.id);
+          .update({ ...data, captain_id: data.captain_id || null })
+          .eq('id', id);
         if (error) throw error;
+
+        await savePositionSlots(id, toSlotDrafts(slots, data.event_id));
       } catch (error) {
         console.error('Error updating position:', error);
         throw error;
@@ -165,7 +250,10 @@ export function VolunteerPositionsPage() {
       }
     },
     onSuccess: () => {
+      // More room may have promoted people off the waitlist
       queryClient.invalidateQueries({ queryKey: ['positions'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
       toast.success('Position updated successfully');
       setEditingPosition(null);
       reset();
@@ -178,19 +266,23 @@ export function VolunteerPositionsPage() {
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       try {
-        const { error } = await supabase
-          .from('volunteer_positions')
-          .delete()
-          .eq('id', id);
-        if (error) throw error;
+        await moveToTrash('position', id);
       } catch (error) {
         console.error('Error deleting position:', error);
         throw error;
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['positions'] });
-      toast.success('Position deleted successfully');
+    onSuccess: (_, id) => {
+      const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['positions'] });
+        queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+        queryClient.invalidateQueries({ queryKey: ['trash'] });
+      };
+      refresh();
+      toastWithUndo('Position moved to trash', async () => {
+        await restoreFromTrash('position', id);
+        refresh();
+      });
     },
     onError: (error) => {
       toast.error(error instanceof Error ? error.message : 'Failed to delete position');
@@ -241,7 +333,7 @@ export function VolunteerPositionsPage() {
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
               <option value="">Select an event</option>
-              {events?.map((event) => (
+              {events?.filter(event => event.status !== 'archived' || event.id === editingPosition?.event_id).map((event) => (
                 <option key={event.id} value={event.id}>
                   {event.name}
                 </option>
@@ -276,13 +368,88 @@ export function VolunteerPositionsPage() {
                 },
                 valueAsNumber: true
               })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              readOnly={slotFields.length > 0}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm read-only:bg-gray-50"
             />
+            {slotFields.length > 0 && (
+              <p className="mt-1 text-xs text-gray-500">Total across {slotFields.length} shift {slotFields.length === 1 ? 'slot' : 'slots'}</p>
+            )}
             {errors.needed && (
               <p className="mt-1 text-sm text-red-600">{errors.needed.message}</p>
             )}
           </div>
 
+          <div>
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700">Shift Slots (Optional)</label>
+              <button
+                type="button"
+                onClick={addSlot}
+                className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Slot
+              </button>
+            </div>
+            {slotFields.length === 0 ? (
+              <p className="mt-1 text-xs text-gray-500">
+                Split the position into time windows that each need their own number of volunteers.
+              </p>
+            ) : (
+              <div className="mt-2 space-y-2">
+                {slotFields.map((field, index) => (
+                  <div key={field.id}>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="datetime-local"
+                        {...register(`slots.${index}.starts_at`, { required: 'Slot start is required' })}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      />
+                      <span className="text-gray-500">–</span>
+                      <input
+                        type="datetime-local"
+                        {...register(`slots.${index}.ends_at`, {
+                          required: 'Slot end is required',
+                          validate: (value, values) => value > values.slots[index].starts_at || 'Slot must end after it starts',
+                        })}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        title="Volunteers needed"
+                        {...register(`slots.${index}.needed`, {
+                          required: 'Number needed is required',
+                          min: { value: 1, message: 'At least 1 volunteer is required' },
+                          valueAsNumber: true,
+                        })}
+                        className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeSlot(index)}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="Remove slot"
+                      >
+                        <X className="h-5 w-5" />
+                      </button>
+                    </div>
+                    {errors.slots?.[index] && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.slots[index]?.starts_at?.message
+                          ?? errors.slots[index]?.ends_at?.message
+                          ?? errors.slots[index]?.needed?.message}
+                      </p>
+                    )}
+                  </div>
+                ))}
+                {selectedEvent && (
+                  <p className="text-xs text-gray-500">Times are in {selectedEvent.timezone}.</p>
+                )}
+              </div>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Description (Optional)</label>
             <textarea
@@ -292,6 +459,22 @@ export function VolunteerPositionsPage() {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Zone Captain (Optional)</label>
+            <select
+              {...register('captain_id')}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">No captain</option>
+              {captains.map((captain) => (
+                <option key={captain.user_id} value={captain.user_id}>{captain.email}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Members with the zone captain role can check volunteers in and out here.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Skill Level (Optional)</label>
             <select
@@ -299,10 +482,9 @@ export function VolunteerPositionsPage() {
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
               <option value="">Select skill level</option>
-              <option value="Beginner">Beginner</option>
-              <option value="Intermediate">Intermediate</option>
-              <option value="Advanced">Advanced</option>
-              <option value="Expert">Expert</option>
+              {SKILL_LEVELS.map((level) => (
+                <option key={level} value={level}>{level}</option>
+              ))}
             </select>
           </div>
 
@@ -382,10 +564,17 @@ export function VolunteerPositionsPage() {
       </div>
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="px-4 py-5 sm:px-6">
+        <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
           <h3 className="text-lg font-medium leading-6 text-gray-900">
             Volunteer Positions
           </h3>
+          <button
+            onClick={() => setShowImport(true)}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import Positions
+          </button>
         </div>
         <div className="border-t border-gray-200">
           <ul className="divide-y divide-gray-200">
@@ -400,12 +589,22 @@ export function VolunteerPositionsPage() {
                       <p className="text-sm text-gray-500">
                         Volunteers: {position.filled}/{position.needed}
                       </p>
+                      {sortSlots<PositionSlot>(position.slots).map((slot) => (
+                        <p key={slot.id} className="text-xs text-gray-500">
+                          {formatShift(slot.starts_at, slot.ends_at, position.event.timezone)} · {slot.needed} needed
+                        </p>
+                      ))}
                       {position.description && (
                         <p className="text-sm text-gray-500">{position.description}</p>
                       )}
                       {position.skill_level && (
                         <p className="text-sm text-gray-500">Skill Level: {position.skill_level}</p>
                       )}
+                      {position.captain_id && (
+                        <p className="text-sm text-gray-500">
+                          Captain: {members?.find(m => m.user_id === position.captain_id)?.email ?? 'Former member'}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex space-x-3">
@@ -424,13 +623,9 @@ export function VolunteerPositionsPage() {
                       <Edit2 className="h-5 w-5" />
                     </button>
                     <button
-                      onClick={() => {
-                        if (window.confirm('Are you sure you want to delete this position?')) {
-                          deleteMutation.mutate(position.id);
-                        }
-                      }}
+                      onClick={() => deleteMutation.mutate(position.id)}
                       className="text-gray-400 hover:text-gray-500"
-                      title="Delete position"
+                      title="Move to trash"
                     >
                       <Trash2 className="h-5 w-5" />
                     </button>
@@ -447,6 +642,10 @@ export function VolunteerPositionsPage() {
         </div>
       </div>
 
+      {showImport && (
+        <PositionImport events={events ?? []} onClose={() => setShowImport(false)} />
+      )}
+
       {showQRCode && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
@@ -465,7 +664,7 @@ export function VolunteerPositionsPage() {
             <div className="flex flex-col items-center justify-center">
               <div className="bg-white p-4 rounded-lg">
                 <QRCodeSVG 
-                  value={`${window.location.origin}/checkin?position=${showQRCode}`}
+                  value={checkInUrl(showQRCode)}
                   size={200}
                   level="H"
                   includeMargin={true}
@@ -477,8 +676,8 @@ export function VolunteerPositionsPage() {
               <p className="mt-2 text-xs text-gray-500 text-center">
                 URL: 
                 
-                <a href={`${window.location.origin}/checkin?position=${showQRCode}`} style={{ color: 'rgb(51,102,204)' }}>
-                  {`${window.location.origin}/checkin?position=${showQRCode}`}
+                <a href={checkInUrl(showQRCode)} style={{ color: 'rgb(51,102,204)' }}>
+                  {checkInUrl(showQRCode)}
                 </a>
               </p>
             </div>
@@ -0,0 +1,225 @@
+import { useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { toast } from 'react-hot-toast';
+import { ChevronRight, CheckCircle, Clock, Award } from 'lucide-react';
+import {
+  fetchVolunteerProfile,
+  fetchVolunteerShifts,
+  parseTags,
+  updateVolunteerProfile,
+} from '../lib/volunteers';
+import { formatShift } from '../lib/datetime';
+
+interface ProfileFormData {
+  name: string;
+  phone_number: string;
+  email: string;
+  notes: string;
+  tags: string;
+}
+
+export function VolunteerProfilePage() {
+  const { volunteerId } = useParams<{ volunteerId: string }>();
+  const queryClient = useQueryClient();
+  const { register, handleSubmit, reset, formState: { errors, isDirty } } = useForm<ProfileFormData>();
+
+  const { data: volunteer } = useQuery({
+    queryKey: ['volunteer-profiles', volunteerId],
+    queryFn: () => fetchVolunteerProfile(volunteerId!),
+    enabled: !!volunteerId,
+  });
+
+  const { data: shifts } = useQuery({
+    queryKey: ['volunteers', 'history', volunteerId],
+    queryFn: () => fetchVolunteerShifts(volunteerId!),
+    enabled: !!volunteerId,
+  });
+
+  useEffect(() => {
+    if (volunteer) {
+      reset({
+        name: volunteer.name,
+        phone_number: volunteer.phone_number,
+        email: volunteer.email ?? '',
+        notes: volunteer.notes ?? '',
+        tags: volunteer.tags.join(', '),
+      });
+    }
+  }, [volunteer, reset]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      try {
+        await updateVolunteerProfile(volunteerId!, {
+          name: data.name.trim(),
+          phone_number: data.phone_number.trim(),
+          email: data.email.trim() || null,
+          notes: data.notes.trim() || null,
+          tags: parseTags(data.tags),
+        });
+      } catch (error) {
+        console.error('Error updating volunteer:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] });
+      toast.success('Volunteer updated successfully');
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update volunteer');
+    },
+  });
+
+  if (!volunteer || !shifts) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const eventCount = new Set(shifts.map(s => s.position.event.id)).size;
+  const checkedInCount = shifts.filter(s => s.arrived).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <nav className="flex items-center text-sm text-gray-500">
+          <Link to="/volunteers" className="hover:text-gray-700">Volunteers</Link>
+          <ChevronRight className="h-4 w-4 mx-2" />
+          <span className="text-gray-900">{volunteer.name}</span>
+        </nav>
+        <Link
+          to={`/volunteers/${volunteer.id}/hours`}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <Award className="h-4 w-4 mr-2" />
+          Service Hours
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {[
+          { label: 'Events', value: eventCount },
+          { label: 'Shifts', value: shifts.length },
+          { label: 'Checked in', value: checkedInCount },
+        ].map(({ label, value }) => (
+          <div key={label} className="bg-white shadow rounded-lg p-4">
+            <p className="text-sm text-gray-500">{label}</p>
+            <p className="text-2xl font-semibold text-gray-900">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h2 className="text-lg font-medium mb-4">Profile</h2>
+        <form onSubmit={handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                {...register('name', { required: 'Name is required' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Phone Number</label>
+              <input
+                {...register('phone_number', {
+                  pattern: {
+                    value: /^[0-9+\-\s()]*$/,
+                    message: 'Please enter a valid phone number'
+                  }
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+              {errors.phone_number && (
+                <p className="mt-1 text-sm text-red-600">{errors.phone_number.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email</label>
+              <input
+                type="email"
+                {...register('email')}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Tags</label>
+              <input
+                {...register('tags')}
+                placeholder="first aid, spanish, returning"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Notes</label>
+            <textarea
+              {...register('notes')}
+              rows={3}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!isDirty || updateMutation.isPending}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400"
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save Profile'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Participation History</h3>
+        </div>
+        <div className="border-t border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {shifts.map((shift) => (
+              <li key={shift.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <div>
+                  <Link
+                    to={`/events/${shift.position.event.id}`}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    {shift.position.event.name}
+                  </Link>
+                  <p className="text-sm text-gray-500">
+                    {shift.position.name} · {formatShift(shift.starts_at, shift.ends_at, shift.position.event.timezone)}
+                  </p>
+                </div>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  shift.arrived ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {shift.arrived ? (
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                  ) : (
+                    <Clock className="h-3 w-3 mr-1" />
+                  )}
+                  {shift.arrived ? 'Checked In' : 'Not Arrived'}
+                </span>
+              </li>
+            ))}
+            {shifts.length === 0 && (
+              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                No shifts yet.
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
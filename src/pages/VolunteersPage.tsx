@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Contact, Download, Search } from 'lucide-react';
+import { fetchVolunteerDirectory } from '../lib/volunteers';
+import { normalizePhone } from '../lib/duplicates';
+import { downloadHoursReport } from '../lib/hours';
+import { useCurrentOrganization } from '../contexts/OrganizationContext';
+
+export function VolunteersPage() {
+  const navigate = useNavigate();
+  const organization = useCurrentOrganization();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [hoursFrom, setHoursFrom] = useState(() => `${new Date().getFullYear()}-01-01`);
+  const [hoursTo, setHoursTo] = useState(() => new Date().toISOString().slice(0, 10));
+
+  const { data: volunteers, isLoading, error } = useQuery({
+    queryKey: ['volunteer-profiles', 'directory', organization.id],
+    queryFn: async () => {
+      try {
+        return await fetchVolunteerDirectory(organization.id);
+      } catch (error) {
+        console.error('Error fetching volunteers:', error);
+        throw error;
+      }
+    },
+  });
+
+  const exportHoursMutation = useMutation({
+    mutationFn: () => downloadHoursReport(organization.id, hoursFrom, hoursTo),
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to export hours');
+    },
+  });
+
+  const tags = useMemo(
+    () => [...new Set(volunteers?.flatMap(v => v.tags) ?? [])].sort(),
+    [volunteers]
+  );
+
+  const filteredVolunteers = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    const digits = normalizePhone(search);
+    return (volunteers ?? []).filter(volunteer => {
+      if (tagFilter && !volunteer.tags.includes(tagFilter)) return false;
+      if (!text) return true;
+      return volunteer.name.toLowerCase().includes(text)
+        || (volunteer.email ?? '').toLowerCase().includes(text)
+        || (digits.length >= 3 && normalizePhone(volunteer.phone_number).includes(digits));
+    });
+  }, [volunteers, search, tagFilter]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-4">
+        <p className="text-red-600">Error loading volunteers. Please try again later.</p>
+        <button
+          onClick={() => queryClient.invalidateQueries({ queryKey: ['volunteer-profiles'] })}
+          className="mt-2 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-4 py-4 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">Service Hours Export</h3>
+        <div className="flex items-center space-x-3">
+          <input
+            type="date"
+            value={hoursFrom}
+            onChange={(e) => setHoursFrom(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={hoursTo}
+            onChange={(e) => setHoursTo(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          <button
+            onClick={() => exportHoursMutation.mutate()}
+            disabled={!hoursFrom || !hoursTo || hoursFrom > hoursTo || exportHoursMutation.isPending}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">
+            Volunteers
+            <span className="ml-2 text-sm font-normal text-gray-500">{volunteers?.length ?? 0}</span>
+          </h3>
+          <div className="flex space-x-3">
+            <div className="relative">
+              <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search name, phone or email"
+                className="pl-9 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            {tags.length > 0 && (
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="rounded-md border-gray-300 text-sm"
+              >
+                <option value="">All tags</option>
+                {tags.map((tag) => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+        <div className="border-t border-gray-200">
+          <ul className="divide-y divide-gray-200">
+            {filteredVolunteers.map((volunteer) => (
+              <li
+                key={volunteer.id}
+                onClick={() => navigate(`/volunteers/${volunteer.id}`)}
+                className="px-4 py-4 sm:px-6 cursor-pointer hover:bg-gray-50"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <Contact className="h-5 w-5 text-gray-400 mr-3" />
+                    <div>
+                      <p className="text-sm font-medium text-indigo-600">{volunteer.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {[volunteer.phone_number, volunteer.email].filter(Boolean).join(' · ') || 'No contact details'}
+                      </p>
+                      {volunteer.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {volunteer.tags.map((tag) => (
+                            <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right text-sm text-gray-500">
+                    <p>{volunteer.event_count} {volunteer.event_count === 1 ? 'event' : 'events'}</p>
+                    <p>{volunteer.shift_count} {volunteer.shift_count === 1 ? 'shift' : 'shifts'}</p>
+                  </div>
+                </div>
+              </li>
+            ))}
+            {filteredVolunteers.length === 0 && (
+              <li className="px-4 py-4 sm:px-6 text-center text-gray-500">
+                {volunteers?.length ? 'No volunteers match your search.' : 'No volunteers yet. Assign or import some to build the directory.'}
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,29 @@
-export interface RawSignUpData {
-    [key: string]: string;
-    'Item': string;
-    'First Name': string;
-    'Last Name': string;
-    'Email': string;
-    'Start Date/Time': string;
-    'End Date/Time': string;
-  }
-  
-  export interface StructuredSignUpData {
-    id: number;
-    position_ID: string;
-    volunteer_name: string;
-    volunteer_email: string;
-    start_date: string;
-    start_datetime: string;
-    end_datetime: string;
-    arrived: string;
-  }
\ No newline at end of file
+// A row from an uploaded sign-up sheet, keyed by whatever headers the file has.
+export type RawSignUpData = Record<string, string>;
+
+export type SignUpField =
+  | 'item'
+  | 'first_name'
+  | 'last_name'
+  | 'phone_number'
+  | 'date'
+  | 'start'
+  | 'end';
+
+// Maps each field we import to the header it is read from ('' when unmapped).
+export type ColumnMapping = Record<SignUpField, string>;
+
+// Maps each distinct Item value to a volunteer_positions id (null to skip those rows).
+export type PositionMapping = Record<string, string | null>;
+
+export interface StructuredSignUpData {
+  id: number;
+  item: string;
+  position_id: string | null;
+  volunteer_name: string;
+  phone_number: string;
+  start_date: string;
+  start_time: string;
+  end_time: string;
+  errors: string[];
+}
@@ -0,0 +1,56 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { ParsedSheet, SpreadsheetWorkerRequest, SpreadsheetWorkerResponse } from '../lib/signUpImport';
+import type { RawSignUpData } from '../types';
+
+// Parses uploaded rosters off the main thread so large files don't freeze the tab.
+
+const cleanRows = (headers: string[], rows: RawSignUpData[]) =>
+  rows.filter(row => headers.some(header => (row[header] ?? '').toString().trim() !== ''));
+
+function parseDelimited(text: string, name: string, delimiter: string): ParsedSheet {
+  const results = Papa.parse<RawSignUpData>(text, {
+    header: true,
+    delimiter,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim(),
+  });
+  const headers = (results.meta.fields ?? []).filter(Boolean);
+  return { name, headers, rows: cleanRows(headers, results.data) };
+}
+
+function parseWorkbook(buffer: ArrayBuffer): ParsedSheet[] {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  return workbook.SheetNames.map(name => {
+    const worksheet = workbook.Sheets[name];
+    const [headerRow = []] = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1, raw: false, blankrows: false });
+    const headers = headerRow.map(header => String(header ?? '').trim()).filter(Boolean);
+    // raw: false keeps dates and times as they are displayed in Excel
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { raw: false, defval: '' })
+      .map(row => Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key.trim(), String(value ?? '')])
+      ));
+    return { name, headers, rows: cleanRows(headers, rows) };
+  });
+}
+
+self.onmessage = async (event: MessageEvent<SpreadsheetWorkerRequest>) => {
+  const { file } = event.data;
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let response: SpreadsheetWorkerResponse;
+
+  try {
+    if (extension === 'xlsx' || extension === 'xls') {
+      response = { sheets: parseWorkbook(await file.arrayBuffer()) };
+    } else {
+      const text = await file.text();
+      // An empty delimiter lets Papa detect commas, tabs or semicolons itself
+      const delimiter = extension === 'tsv' ? '\t' : '';
+      response = { sheets: [parseDelimited(text, file.name, delimiter)] };
+    }
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Unable to read file' };
+  }
+
+  self.postMessage(response);
+};
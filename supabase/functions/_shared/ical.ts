@@ -0,0 +1,146 @@
+// iCalendar (RFC 5545) builder, shared by the calendar-feed edge function and
+// the app (through src/lib/ical.ts). Kept free of imports so both can bundle it.
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+}
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds the given zone is ahead of UTC at the given instant
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Interprets a date ("2025-04-12") and wall-clock time ("07:30" or "07:30:00")
+// in the event's time zone. The second pass corrects the offset when the first
+// guess lands on the other side of a DST change.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  const firstGuess = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffset(new Date(firstGuess), timeZone));
+}
+
+// For wall-clock shift times without their own end date (as in spreadsheet
+// imports), a shift that ends at or before it starts runs past midnight.
+export function shiftBounds(date: string, startTime: string, endTime: string, timeZone: string) {
+  const start = zonedTimeToUtc(date, startTime, timeZone);
+  let end = zonedTimeToUtc(date, endTime, timeZone);
+  if (end <= start) {
+    end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return { start, end };
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Bytes the character takes up in UTF-8
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Content lines longer than 75 octets continue on the next line after a space,
+// which counts towards the continuation's 75. Iterating the string by code
+// point keeps characters, surrogate pairs included, in one piece.
+const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let size = 0;
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (size + utf8Length(char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      size = 0;
+    }
+    chunk += char;
+    size += utf8Length(char);
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Volunteer Manager//Shifts//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export interface ShiftDetails {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  position: {
+    name: string;
+    description: string | null;
+    event: { name: string; location: string };
+  };
+}
+
+export function shiftToCalendarEvent(shift: ShiftDetails): CalendarEvent {
+  const { position } = shift;
+  return {
+    uid: `signup-${shift.id}@volunteer-manager`,
+    start: new Date(shift.starts_at),
+    end: new Date(shift.ends_at),
+    summary: `${position.event.name} - ${position.name}`,
+    description: position.description,
+    location: position.event.location,
+  };
+}
@@ -0,0 +1,27 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Prints messages to the function logs instead of delivering them. The
+// default until a real transport is installed with setMailTransport.
+export const logTransport: MailTransport = {
+  send: async ({ to, subject, text }) => {
+    console.info(`Mail to ${to}\nSubject: ${subject}\n\n${text}`);
+  },
+};
+
+let transport: MailTransport = logTransport;
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  await transport.send(message);
+}
@@ -0,0 +1,91 @@
+// Serves iCalendar subscription feeds. Calendar apps cannot send a Supabase
+// session, so the secret token in the URL is the only credential; deploy with
+//   supabase functions deploy calendar-feed --no-verify-jwt
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  CalendarEvent,
+  buildCalendar,
+  shiftToCalendarEvent,
+} from '../_shared/ical.ts';
+
+// The service role bypasses the policies that hide trashed rows, so filter
+// them here. Trashing an event or position trashes its signups too.
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const digits = (phone: string) => phone.replace(/\D/g, '').replace(/^1(\d{10})$/, '$1');
+
+// Feeds cover every organization the feed's owner belongs to
+async function organizationIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return data.map((member) => member.organization_id);
+}
+
+async function coordinatorEvents(userId: string): Promise<CalendarEvent[]> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, name, starts_at, ends_at, location')
+    .in('organization_id', await organizationIds(userId))
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  return data.map((event) => ({
+    uid: `event-${event.id}@volunteer-manager`,
+    start: new Date(event.starts_at),
+    end: new Date(event.ends_at),
+    summary: event.name,
+    location: event.location,
+  }));
+}
+
+async function volunteerShifts(userId: string, phoneNumber: string): Promise<CalendarEvent[]> {
+  const { data, error } = await supabase
+    .from('volunteer_signups')
+    .select('id, phone_number, starts_at, ends_at, position:volunteer_positions!inner(name, description, event:events!inner(name, location, organization_id))')
+    .in('position.event.organization_id', await organizationIds(userId))
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  return data
+    .filter((signup) => digits(signup.phone_number) === phoneNumber)
+    .map((signup) => shiftToCalendarEvent(signup));
+}
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return new Response('Missing token', { status: 400 });
+  }
+
+  try {
+    const { data: feed, error } = await supabase
+      .from('calendar_feeds')
+      .select('user_id, kind, phone_number, label')
+      .eq('token', token)
+      .maybeSingle();
+    if (error) throw error;
+    if (!feed) {
+      return new Response('Feed not found', { status: 404 });
+    }
+
+    const events = feed.kind === 'coordinator'
+      ? await coordinatorEvents(feed.user_id)
+      : await volunteerShifts(feed.user_id, feed.phone_number);
+
+    return new Response(buildCalendar(feed.label, events), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Failed to build calendar', { status: 500 });
+  }
+});
@@ -0,0 +1,79 @@
+// Invites someone to an organization and emails them the link. Mail is sent
+// from here rather than the browser so the transport's credentials stay on
+// the server. Runs with the caller's session, so only owners get past the
+// policies on organization_invitations.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { sendMail } from '../_shared/mail.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ROLE_NAMES: Record<string, string> = {
+  owner: 'an owner',
+  coordinator: 'a coordinator',
+  captain: 'a zone captain',
+  viewer: 'a viewer',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  );
+
+  // Links point at the app, set as SITE_URL when deploying
+  const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('Origin');
+  if (!siteUrl) {
+    return json({ error: 'SITE_URL is not set' }, 500);
+  }
+
+  try {
+    const { organization_id, email, role } = await req.json();
+
+    const { data: organization, error: organizationError } = await supabase
+      .from('organizations')
+      .select('name')
+      .eq('id', organization_id)
+      .single();
+    if (organizationError) {
+      return json({ error: 'Organization not found' }, 404);
+    }
+
+    const { data: invitation, error } = await supabase.rpc('send_invitation', {
+      target_organization: organization_id,
+      invitee_email: email,
+      invitee_role: role,
+    });
+    if (error) {
+      return json({ error: error.message }, 400);
+    }
+
+    await sendMail({
+      to: invitation.email,
+      subject: `You're invited to ${organization.name}`,
+      text: [
+        `You've been invited to join ${organization.name} as ${ROLE_NAMES[invitation.role]}.`,
+        `Accept the invitation here: ${siteUrl}/accept-invite?token=${invitation.token}`,
+        `The link expires on ${new Date(invitation.expires_at).toISOString().slice(0, 10)}.`,
+      ].join('\n\n'),
+    });
+
+    return json({ id: invitation.id });
+  } catch (error) {
+    console.error('Error sending invitation:', error);
+    return json({ error: 'Failed to send invitation' }, 500);
+  }
+});
@@ -0,0 +1,48 @@
+// Confirms a printed service-hours certificate. Whoever checks it (a school or
+// court) has no account, so the code on the certificate is the only input;
+// deploy with
+//   supabase functions deploy verify-certificate --no-verify-jwt
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const hours = (minutes: number) => (minutes / 60).toFixed(1).replace(/\.0$/, '');
+
+Deno.serve(async (req) => {
+  const code = new URL(req.url).searchParams.get('code')?.trim().toUpperCase();
+  if (!code) {
+    return new Response('Missing verification code', { status: 400 });
+  }
+
+  try {
+    const { data: certificate, error } = await supabase
+      .from('hours_certificates')
+      .select('volunteer_name, organization_name, period_start, period_end, total_minutes, approved_at')
+      .eq('verification_code', code)
+      .maybeSingle();
+    if (error) throw error;
+    if (!certificate) {
+      return new Response(`No certificate found for code ${code}. It may have been revoked.`, { status: 404 });
+    }
+
+    const body = [
+      `Certificate ${code} is valid.`,
+      '',
+      `Volunteer: ${certificate.volunteer_name}`,
+      `Organization: ${certificate.organization_name}`,
+      `Period: ${certificate.period_start} to ${certificate.period_end}`,
+      `Hours of service: ${hours(certificate.total_minutes)}`,
+      `Approved: ${certificate.approved_at.slice(0, 10)}`,
+    ].join('\n');
+
+    return new Response(body, {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('Error verifying certificate:', error);
+    return new Response('Failed to verify certificate', { status: 500 });
+  }
+});
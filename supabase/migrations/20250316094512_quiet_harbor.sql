@@ -0,0 +1,66 @@
+/*
+  # Remember imported item to position matches
+
+  1. New Tables
+    - `import_position_matches`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, references events)
+      - `item_label` (text, normalized SignUpGenius "Item" value)
+      - `position_id` (uuid, references volunteer_positions)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `import_position_matches` table
+    - Add policies for owners of the event
+*/
+
+CREATE TABLE IF NOT EXISTS import_position_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  item_label text NOT NULL,
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, item_label)
+);
+
+ALTER TABLE import_position_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read position matches for their events"
+  ON import_position_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_position_matches.event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert position matches for their events"
+  ON import_position_matches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update position matches for their events"
+  ON import_position_matches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_position_matches.event_id
+      AND events.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,142 @@
+/*
+  # Record bulk imports as batches that can be reverted
+
+  1. New Tables
+    - `import_batches`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, references events)
+      - `user_id` (uuid, references auth.users, who ran the import)
+      - `user_email` (text)
+      - `file_name` (text)
+      - `total_rows`, `inserted_rows`, `duplicate_rows`, `changed_rows`, `invalid_rows` (integer)
+      - `status` (text, 'committed' or 'reverted')
+      - `created_at` (timestamptz)
+      - `reverted_at` (timestamptz)
+      - `reverted_by` (uuid, references auth.users)
+
+  2. Changes
+    - Add `import_batch_id` to `volunteer_signups` so a batch knows exactly which rows it created
+
+  3. Functions
+    - `revert_import_batch(batch_id)` deletes the rows a batch created, recomputes
+      `volunteer_positions.filled` for the affected positions and marks the batch reverted
+
+  4. Security
+    - Enable RLS on `import_batches` table
+    - Add policies for owners of the event
+*/
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  user_email text,
+  file_name text NOT NULL,
+  total_rows integer NOT NULL DEFAULT 0,
+  inserted_rows integer NOT NULL DEFAULT 0,
+  duplicate_rows integer NOT NULL DEFAULT 0,
+  changed_rows integer NOT NULL DEFAULT 0,
+  invalid_rows integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'reverted')),
+  created_at timestamptz DEFAULT now(),
+  reverted_at timestamptz,
+  reverted_by uuid REFERENCES auth.users(id)
+);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read import batches for their events"
+  ON import_batches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert import batches for their events"
+  ON import_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update import batches for their events"
+  ON import_batches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete import batches for their events"
+  ON import_batches
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE volunteer_signups
+  ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS volunteer_signups_import_batch_id_idx
+  ON volunteer_signups (import_batch_id);
+
+-- Runs with the caller's privileges so the RLS policies above still apply
+CREATE OR REPLACE FUNCTION revert_import_batch(batch_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  removed integer;
+  affected_positions uuid[];
+BEGIN
+  PERFORM 1 FROM import_batches
+  WHERE id = batch_id AND status = 'committed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found or already reverted', batch_id;
+  END IF;
+
+  WITH deleted AS (
+    DELETE FROM volunteer_signups
+    WHERE import_batch_id = batch_id
+    RETURNING position_id
+  )
+  SELECT count(*), array_agg(DISTINCT position_id)
+  INTO removed, affected_positions
+  FROM deleted;
+
+  UPDATE volunteer_positions
+  SET filled = (
+    SELECT count(*) FROM volunteer_signups
+    WHERE volunteer_signups.position_id = volunteer_positions.id
+  )
+  WHERE id = ANY(affected_positions);
+
+  UPDATE import_batches
+  SET status = 'reverted', reverted_at = now(), reverted_by = auth.uid()
+  WHERE id = batch_id;
+
+  RETURN removed;
+END;
+$$;
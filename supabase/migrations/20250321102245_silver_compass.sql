@@ -0,0 +1,21 @@
+/*
+  # Attach zones to events with a boundary
+
+  1. Changes
+    - `zones`
+      - Add `event_id` (uuid, references events, nullable for existing zones)
+      - Add `boundary` (jsonb, GeoJSON Polygon or MultiPolygon geometry)
+
+  2. Indexes
+    - Index `zones.event_id` for per-event exports
+*/
+
+ALTER TABLE zones
+  ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES events(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS boundary jsonb;
+
+ALTER TABLE zones
+  ADD CONSTRAINT zones_boundary_is_polygon
+  CHECK (boundary IS NULL OR boundary->>'type' IN ('Polygon', 'MultiPolygon'));
+
+CREATE INDEX IF NOT EXISTS zones_event_id_idx ON zones(event_id);
@@ -0,0 +1,59 @@
+/*
+  # Calendar feeds and event time zones
+
+  1. Changes
+    - `events`
+      - Add `timezone` (text, IANA zone name such as 'America/Chicago').
+        Event dates and shift times are wall-clock values in this zone.
+        Existing events default to 'UTC' until a coordinator sets the real zone.
+
+  2. New Tables
+    - `calendar_feeds`
+      - `id` (uuid, primary key)
+      - `token` (text, unique, secret part of the subscription URL)
+      - `user_id` (uuid, references auth.users, the coordinator who owns the events)
+      - `kind` (text, 'volunteer' for one person's shifts or 'coordinator' for every owned event)
+      - `phone_number` (text, digits identifying the volunteer, null for coordinator feeds)
+      - `label` (text, calendar name shown in the subscriber's app)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `calendar_feeds` table
+    - Coordinators manage their own feeds; the calendar-feed edge function reads
+      them with the service role key
+*/
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  kind text NOT NULL CHECK (kind IN ('volunteer', 'coordinator')),
+  phone_number text,
+  label text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((kind = 'volunteer') = (phone_number IS NOT NULL)),
+  UNIQUE NULLS NOT DISTINCT (user_id, kind, phone_number)
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own calendar feeds"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own calendar feeds"
+  ON calendar_feeds
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own calendar feeds"
+  ON calendar_feeds
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
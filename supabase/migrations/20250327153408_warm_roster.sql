@@ -0,0 +1,131 @@
+/*
+  # Volunteer profiles
+
+  1. New Tables
+    - `volunteers`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, the coordinator who keeps this directory)
+      - `name` (text)
+      - `phone_number` (text)
+      - `email` (text)
+      - `notes` (text)
+      - `tags` (text[])
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `volunteer_id` to `volunteer_signups`. The signup keeps its own
+      `volunteer_name` and `phone_number` copies, which a trigger refreshes when
+      the profile changes.
+    - Backfill one volunteer per event owner and phone number (or name when the
+      phone is blank) from existing signups.
+
+  3. Security
+    - Enable RLS on `volunteers` table
+    - Coordinators manage their own directory
+*/
+
+CREATE TABLE IF NOT EXISTS volunteers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  name text NOT NULL,
+  phone_number text NOT NULL DEFAULT '',
+  email text,
+  notes text,
+  tags text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS volunteers_user_id_idx ON volunteers(user_id);
+
+ALTER TABLE volunteer_signups
+  ADD COLUMN IF NOT EXISTS volunteer_id uuid REFERENCES volunteers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS volunteer_signups_volunteer_id_idx ON volunteer_signups(volunteer_id);
+
+-- Backfill
+ALTER TABLE volunteers ADD COLUMN backfill_key text;
+
+WITH keyed AS (
+  SELECT
+    s.id AS signup_id,
+    e.user_id,
+    s.volunteer_name,
+    s.phone_number,
+    s.created_at,
+    COALESCE(
+      NULLIF(regexp_replace(regexp_replace(s.phone_number, '\D', '', 'g'), '^1(\d{10})$', '\1'), ''),
+      'name:' || lower(trim(s.volunteer_name))
+    ) AS person_key
+  FROM volunteer_signups s
+  JOIN volunteer_positions p ON p.id = s.position_id
+  JOIN events e ON e.id = p.event_id
+  WHERE s.volunteer_id IS NULL
+)
+INSERT INTO volunteers (user_id, name, phone_number, backfill_key)
+SELECT DISTINCT ON (user_id, person_key)
+  user_id, volunteer_name, phone_number, user_id::text || '|' || person_key
+FROM keyed
+ORDER BY user_id, person_key, created_at DESC;
+
+UPDATE volunteer_signups s
+SET volunteer_id = v.id
+FROM volunteer_positions p, events e, volunteers v
+WHERE p.id = s.position_id
+  AND e.id = p.event_id
+  AND s.volunteer_id IS NULL
+  AND v.backfill_key = e.user_id::text || '|' || COALESCE(
+    NULLIF(regexp_replace(regexp_replace(s.phone_number, '\D', '', 'g'), '^1(\d{10})$', '\1'), ''),
+    'name:' || lower(trim(s.volunteer_name))
+  );
+
+ALTER TABLE volunteers DROP COLUMN backfill_key;
+
+-- Keep the copies on signups in step with the profile
+CREATE OR REPLACE FUNCTION sync_volunteer_signups()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.name IS DISTINCT FROM OLD.name OR NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    UPDATE volunteer_signups
+    SET volunteer_name = NEW.name,
+        phone_number = NEW.phone_number
+    WHERE volunteer_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER volunteers_sync_signups
+  BEFORE UPDATE ON volunteers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_volunteer_signups();
+
+ALTER TABLE volunteers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own volunteers"
+  ON volunteers
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own volunteers"
+  ON volunteers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own volunteers"
+  ON volunteers
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own volunteers"
+  ON volunteers
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
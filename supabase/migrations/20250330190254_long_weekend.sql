@@ -0,0 +1,67 @@
+/*
+  # Multi-day events and full datetime shifts
+
+  1. Changes
+    - `events`
+      - Add `starts_at` and `ends_at` (timestamptz) so an event can span several days
+      - Drop `date` and `time` after migrating them into `starts_at`
+    - `volunteer_signups`
+      - Add `starts_at` and `ends_at` (timestamptz) so a shift can cross midnight
+      - Drop `start_time` and `end_time` after migrating them
+
+  2. Data
+    - Wall-clock values are interpreted in the event's `timezone`
+    - A shift whose end time is at or before its start time ends the next day
+      (22:00-02:00 becomes an overnight shift)
+    - An event ends when its last shift ends, and never less than an hour after it starts
+*/
+
+ALTER TABLE volunteer_signups
+  ADD COLUMN IF NOT EXISTS starts_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ends_at timestamptz;
+
+UPDATE volunteer_signups s
+SET
+  starts_at = (e.date + s.start_time) AT TIME ZONE e.timezone,
+  ends_at = (
+    e.date + s.end_time
+    + CASE WHEN s.end_time <= s.start_time THEN interval '1 day' ELSE interval '0' END
+  ) AT TIME ZONE e.timezone
+FROM volunteer_positions p, events e
+WHERE p.id = s.position_id
+  AND e.id = p.event_id;
+
+ALTER TABLE volunteer_signups
+  ALTER COLUMN starts_at SET NOT NULL,
+  ALTER COLUMN ends_at SET NOT NULL,
+  ADD CONSTRAINT volunteer_signups_shift_order CHECK (ends_at > starts_at),
+  DROP COLUMN start_time,
+  DROP COLUMN end_time;
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS starts_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ends_at timestamptz;
+
+UPDATE events
+SET starts_at = (date + time) AT TIME ZONE timezone;
+
+UPDATE events e
+SET ends_at = GREATEST(
+  e.starts_at + interval '1 hour',
+  (
+    SELECT max(s.ends_at)
+    FROM volunteer_signups s
+    JOIN volunteer_positions p ON p.id = s.position_id
+    WHERE p.event_id = e.id
+  )
+);
+
+ALTER TABLE events
+  ALTER COLUMN starts_at SET NOT NULL,
+  ALTER COLUMN ends_at SET NOT NULL,
+  ADD CONSTRAINT events_date_order CHECK (ends_at > starts_at),
+  DROP COLUMN date,
+  DROP COLUMN time;
+
+CREATE INDEX IF NOT EXISTS events_starts_at_idx ON events(starts_at);
+CREATE INDEX IF NOT EXISTS volunteer_signups_starts_at_idx ON volunteer_signups(starts_at);
@@ -0,0 +1,149 @@
+/*
+  # Shift slots with their own capacity
+
+  1. New Tables
+    - `position_slots`
+      - `id` (uuid, primary key)
+      - `position_id` (uuid, references volunteer_positions)
+      - `starts_at` (timestamptz)
+      - `ends_at` (timestamptz)
+      - `needed` (integer, volunteers needed during this window)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `slot_id` to `volunteer_signups`. The slot must belong to the signup's
+      position; deleting a slot leaves its signups on the position without a slot.
+    - A signup saved without a slot is placed in the slot of its position that
+      contains its start time, so imported sheets land in the right window.
+    - A position with slots needs as many volunteers as its slots add up to.
+      Positions without slots keep their own `needed`.
+
+  3. Security
+    - Enable RLS on `position_slots` table
+    - Users manage slots of positions in their own events
+*/
+
+CREATE TABLE IF NOT EXISTS position_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  needed integer NOT NULL CHECK (needed > 0),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT position_slots_window_order CHECK (ends_at > starts_at),
+  CONSTRAINT position_slots_id_position_key UNIQUE (id, position_id)
+);
+
+CREATE INDEX IF NOT EXISTS position_slots_position_id_idx ON position_slots(position_id, starts_at);
+
+ALTER TABLE volunteer_signups
+  ADD COLUMN IF NOT EXISTS slot_id uuid,
+  ADD CONSTRAINT volunteer_signups_slot_fkey
+    FOREIGN KEY (slot_id, position_id) REFERENCES position_slots(id, position_id)
+    ON DELETE SET NULL (slot_id);
+
+CREATE INDEX IF NOT EXISTS volunteer_signups_slot_id_idx ON volunteer_signups(slot_id);
+
+-- Place unslotted signups in the window they start in
+CREATE OR REPLACE FUNCTION match_signup_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.slot_id IS NULL THEN
+    SELECT id INTO NEW.slot_id
+    FROM position_slots
+    WHERE position_id = NEW.position_id
+      AND NEW.starts_at >= starts_at
+      AND NEW.starts_at < ends_at
+    ORDER BY starts_at
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER volunteer_signups_match_slot
+  BEFORE INSERT OR UPDATE OF position_id, starts_at, slot_id ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION match_signup_slot();
+
+-- Keep the position's total in step with its slots
+CREATE OR REPLACE FUNCTION sync_position_needed()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_position uuid := COALESCE(NEW.position_id, OLD.position_id);
+BEGIN
+  UPDATE volunteer_positions
+  SET needed = totals.needed
+  FROM (
+    SELECT sum(needed)::integer AS needed
+    FROM position_slots
+    WHERE position_id = target_position
+  ) totals
+  WHERE volunteer_positions.id = target_position
+    AND totals.needed IS NOT NULL;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER position_slots_sync_needed
+  AFTER INSERT OR UPDATE OF needed OR DELETE ON position_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_position_needed();
+
+ALTER TABLE position_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read slots for their events"
+  ON position_slots
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert slots for their events"
+  ON position_slots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update slots for their events"
+  ON position_slots
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete slots for their events"
+  ON position_slots
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,167 @@
+/*
+  # Database-maintained filled counts and capacity checks
+
+  1. Changes
+    - `position_slots`
+      - Add `filled` (integer, signups in the slot)
+    - `volunteer_positions.filled` and `position_slots.filled` are now kept in
+      step by a trigger on `volunteer_signups` and recounted once here. Clients
+      no longer write them.
+    - `revert_import_batch` leaves the recount to the trigger
+
+  2. New Functions
+    - `assign_volunteer` creates a signup while holding a lock on the position,
+      so two coordinators cannot both take its last place. It fails with
+      SQLSTATE PT409 (HTTP 409) when the slot, or the position if it has no
+      slots, is already full, unless `allow_overbooking` is set.
+*/
+
+ALTER TABLE position_slots
+  ADD COLUMN IF NOT EXISTS filled integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION recount_position_filled(target_position uuid, target_slot uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE volunteer_positions
+  SET filled = (
+    SELECT count(*) FROM volunteer_signups
+    WHERE volunteer_signups.position_id = target_position
+  )
+  WHERE id = target_position;
+
+  IF target_slot IS NOT NULL THEN
+    UPDATE position_slots
+    SET filled = (
+      SELECT count(*) FROM volunteer_signups
+      WHERE volunteer_signups.slot_id = target_slot
+    )
+    WHERE id = target_slot;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_filled_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM recount_position_filled(OLD.position_id, OLD.slot_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM recount_position_filled(NEW.position_id, NEW.slot_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER volunteer_signups_sync_filled
+  AFTER INSERT OR UPDATE OF position_id, slot_id OR DELETE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_filled_counts();
+
+UPDATE volunteer_positions
+SET filled = (
+  SELECT count(*) FROM volunteer_signups
+  WHERE volunteer_signups.position_id = volunteer_positions.id
+);
+
+UPDATE position_slots
+SET filled = (
+  SELECT count(*) FROM volunteer_signups
+  WHERE volunteer_signups.slot_id = position_slots.id
+);
+
+CREATE OR REPLACE FUNCTION revert_import_batch(batch_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  removed integer;
+BEGIN
+  PERFORM 1 FROM import_batches
+  WHERE id = batch_id AND status = 'committed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found or already reverted', batch_id;
+  END IF;
+
+  DELETE FROM volunteer_signups
+  WHERE import_batch_id = batch_id;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+
+  UPDATE import_batches
+  SET status = 'reverted', reverted_at = now(), reverted_by = auth.uid()
+  WHERE id = batch_id;
+
+  RETURN removed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_volunteer(
+  position_id uuid,
+  volunteer_name text,
+  phone_number text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  slot_id uuid DEFAULT NULL,
+  volunteer_id uuid DEFAULT NULL,
+  allow_overbooking boolean DEFAULT false
+)
+RETURNS volunteer_signups
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  signup volunteer_signups;
+  over_capacity boolean;
+BEGIN
+  -- Assignments to the same position wait for each other here
+  PERFORM 1 FROM volunteer_positions
+  WHERE id = assign_volunteer.position_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Position % not found', assign_volunteer.position_id;
+  END IF;
+
+  INSERT INTO volunteer_signups (
+    position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived
+  )
+  VALUES (
+    assign_volunteer.position_id,
+    assign_volunteer.slot_id,
+    assign_volunteer.volunteer_id,
+    assign_volunteer.volunteer_name,
+    assign_volunteer.phone_number,
+    assign_volunteer.starts_at,
+    assign_volunteer.ends_at,
+    false
+  )
+  RETURNING * INTO signup;
+
+  IF NOT allow_overbooking THEN
+    IF signup.slot_id IS NOT NULL THEN
+      SELECT filled > needed INTO over_capacity
+      FROM position_slots
+      WHERE id = signup.slot_id;
+
+      IF over_capacity THEN
+        RAISE EXCEPTION 'This shift slot just filled up' USING ERRCODE = 'PT409';
+      END IF;
+    ELSE
+      SELECT filled > needed INTO over_capacity
+      FROM volunteer_positions
+      WHERE id = signup.position_id;
+
+      IF over_capacity THEN
+        RAISE EXCEPTION 'This position just filled up' USING ERRCODE = 'PT409';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN signup;
+END;
+$$;
@@ -0,0 +1,263 @@
+/*
+  # Position waitlist with automatic promotion
+
+  1. New Tables
+    - `position_waitlist`
+      - `id` (uuid, primary key)
+      - `position_id` (uuid, references volunteer_positions)
+      - `slot_id` (uuid, the shift slot the volunteer is waiting for)
+      - `volunteer_id` (uuid, references volunteers)
+      - `volunteer_name` (text)
+      - `phone_number` (text)
+      - `starts_at` / `ends_at` (timestamptz, the shift they get when promoted)
+      - `priority` (integer, lower goes first)
+      - `created_at` (timestamptz)
+    - `waitlist_promotions`
+      - `id` (uuid, primary key)
+      - `position_id` (uuid, references volunteer_positions)
+      - `slot_id` (uuid, references position_slots)
+      - `signup_id` (uuid, references volunteer_signups, the signup created)
+      - `volunteer_name` (text)
+      - `phone_number` (text)
+      - `waited_since` (timestamptz, when they joined the waitlist)
+      - `promoted_at` (timestamptz)
+
+  2. Promotion
+    - `promote_from_waitlist` moves waiting volunteers into a position, in
+      priority order, while their slot (or the position) has room
+    - Runs when a signup is deleted or moved away, when a position or slot
+      needs more volunteers or a new slot is added, and when someone joins the
+      waitlist of a position that still has room
+    - Every promotion is logged in `waitlist_promotions`
+
+  3. Security
+    - Enable RLS on both tables
+    - Users manage waitlists and read promotions for their own events
+*/
+
+CREATE TABLE IF NOT EXISTS position_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  slot_id uuid,
+  volunteer_id uuid REFERENCES volunteers(id) ON DELETE SET NULL,
+  volunteer_name text NOT NULL,
+  phone_number text NOT NULL DEFAULT '',
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT position_waitlist_shift_order CHECK (ends_at > starts_at),
+  CONSTRAINT position_waitlist_slot_fkey
+    FOREIGN KEY (slot_id, position_id) REFERENCES position_slots(id, position_id)
+    ON DELETE SET NULL (slot_id)
+);
+
+CREATE INDEX IF NOT EXISTS position_waitlist_position_id_idx ON position_waitlist(position_id, priority, created_at);
+
+CREATE TABLE IF NOT EXISTS waitlist_promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  position_id uuid REFERENCES volunteer_positions(id) ON DELETE CASCADE NOT NULL,
+  slot_id uuid REFERENCES position_slots(id) ON DELETE SET NULL,
+  signup_id uuid REFERENCES volunteer_signups(id) ON DELETE SET NULL,
+  volunteer_name text NOT NULL,
+  phone_number text NOT NULL DEFAULT '',
+  waited_since timestamptz,
+  promoted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waitlist_promotions_position_id_idx ON waitlist_promotions(position_id, promoted_at);
+
+-- Counts signups directly rather than reading `filled`, which the row
+-- triggers on volunteer_signups may not have refreshed yet
+CREATE OR REPLACE FUNCTION promote_from_waitlist(target_position uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  entry position_waitlist;
+  capacity integer;
+  taken integer;
+  new_signup uuid;
+  promoted integer := 0;
+BEGIN
+  -- Nothing to do while the position itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM volunteer_positions WHERE id = target_position) THEN
+    RETURN 0;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM position_waitlist
+    WHERE position_id = target_position
+    ORDER BY priority, created_at
+  LOOP
+    IF entry.slot_id IS NOT NULL THEN
+      SELECT needed INTO capacity FROM position_slots WHERE id = entry.slot_id;
+      SELECT count(*) INTO taken FROM volunteer_signups WHERE slot_id = entry.slot_id;
+    ELSE
+      SELECT needed INTO capacity FROM volunteer_positions WHERE id = target_position;
+      SELECT count(*) INTO taken FROM volunteer_signups WHERE position_id = target_position;
+    END IF;
+    CONTINUE WHEN capacity IS NULL OR taken >= capacity;
+
+    INSERT INTO volunteer_signups (
+      position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived
+    )
+    VALUES (
+      entry.position_id, entry.slot_id, entry.volunteer_id, entry.volunteer_name,
+      entry.phone_number, entry.starts_at, entry.ends_at, false
+    )
+    RETURNING id INTO new_signup;
+
+    INSERT INTO waitlist_promotions (
+      position_id, slot_id, signup_id, volunteer_name, phone_number, waited_since
+    )
+    VALUES (
+      entry.position_id, entry.slot_id, new_signup, entry.volunteer_name,
+      entry.phone_number, entry.created_at
+    );
+
+    DELETE FROM position_waitlist WHERE id = entry.id;
+    promoted := promoted + 1;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION promote_after_signup_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM promote_from_waitlist(OLD.position_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER volunteer_signups_promote_waitlist
+  AFTER DELETE OR UPDATE OF position_id, slot_id ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_after_signup_change();
+
+CREATE OR REPLACE FUNCTION promote_after_capacity_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.needed > OLD.needed THEN
+    IF TG_TABLE_NAME = 'position_slots' THEN
+      PERFORM promote_from_waitlist(NEW.position_id);
+    ELSE
+      PERFORM promote_from_waitlist(NEW.id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER volunteer_positions_promote_waitlist
+  AFTER UPDATE OF needed ON volunteer_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_after_capacity_change();
+
+CREATE TRIGGER position_slots_promote_waitlist
+  AFTER INSERT OR UPDATE OF needed ON position_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_after_capacity_change();
+
+-- Someone added while there is still room goes straight in
+CREATE OR REPLACE FUNCTION promote_after_waitlist_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM promote_from_waitlist(NEW.position_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER position_waitlist_promote
+  AFTER INSERT ON position_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_after_waitlist_insert();
+
+ALTER TABLE position_waitlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read waitlists for their events"
+  ON position_waitlist
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert waitlist entries for their events"
+  ON position_waitlist
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update waitlist entries for their events"
+  ON position_waitlist
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete waitlist entries for their events"
+  ON position_waitlist
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can read promotions for their events"
+  ON waitlist_promotions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = waitlist_promotions.position_id
+      AND events.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can log promotions for their events"
+  ON waitlist_promotions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND events.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,56 @@
+/*
+  # Check-in and check-out times
+
+  1. Changes
+    - `volunteer_signups`
+      - Add `checked_in_at` and `checked_out_at` (timestamptz)
+      - Add `served_minutes` (integer, generated from the two times)
+    - `arrived` now follows `checked_in_at`. Setting `arrived` on its own still
+      works and stamps or clears the check-in time.
+
+  2. Data
+    - Signups already marked as arrived are taken to have checked in at the
+      start of their shift. They have no check-out time, so no served hours.
+*/
+
+ALTER TABLE volunteer_signups
+  ADD COLUMN IF NOT EXISTS checked_in_at timestamptz,
+  ADD COLUMN IF NOT EXISTS checked_out_at timestamptz;
+
+UPDATE volunteer_signups
+SET checked_in_at = starts_at
+WHERE arrived AND checked_in_at IS NULL;
+
+ALTER TABLE volunteer_signups
+  ADD CONSTRAINT volunteer_signups_check_out_after_in
+    CHECK (checked_out_at IS NULL OR (checked_in_at IS NOT NULL AND checked_out_at >= checked_in_at)),
+  ADD COLUMN served_minutes integer
+    GENERATED ALWAYS AS ((extract(epoch FROM checked_out_at - checked_in_at) / 60)::integer) STORED;
+
+CREATE OR REPLACE FUNCTION sync_signup_arrival()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Older clients only flip `arrived`
+  IF TG_OP = 'UPDATE'
+    AND NEW.arrived IS DISTINCT FROM OLD.arrived
+    AND NEW.checked_in_at IS NOT DISTINCT FROM OLD.checked_in_at
+  THEN
+    IF NEW.arrived THEN
+      NEW.checked_in_at := now();
+    ELSE
+      NEW.checked_in_at := NULL;
+      NEW.checked_out_at := NULL;
+    END IF;
+  END IF;
+
+  NEW.arrived := NEW.checked_in_at IS NOT NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER volunteer_signups_sync_arrival
+  BEFORE INSERT OR UPDATE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_signup_arrival();
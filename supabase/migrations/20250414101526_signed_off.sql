@@ -0,0 +1,70 @@
+/*
+  # Volunteer service-hours certificates
+
+  1. New Tables
+    - `hours_certificates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, the coordinator who approved it)
+      - `volunteer_id` (uuid, references volunteers)
+      - `volunteer_name` (text)
+      - `organization_name` (text)
+      - `period_start` / `period_end` (date, the reporting period)
+      - `total_minutes` (integer)
+      - `shifts` (jsonb, the approved lines: event, position, shift times, minutes)
+      - `verification_code` (text, unique, printed on the certificate)
+      - `approved_at` (timestamptz)
+
+  2. Notes
+    - A certificate is a snapshot taken when a coordinator approves a
+      volunteer's hours, so later edits to signups do not change it
+    - The `verify-certificate` edge function looks certificates up by code for
+      anyone holding a printed copy
+
+  3. Security
+    - Enable RLS on `hours_certificates` table
+    - Coordinators manage certificates for their own volunteers
+*/
+
+CREATE TABLE IF NOT EXISTS hours_certificates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  volunteer_id uuid REFERENCES volunteers(id) ON DELETE CASCADE NOT NULL,
+  volunteer_name text NOT NULL,
+  organization_name text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  total_minutes integer NOT NULL CHECK (total_minutes >= 0),
+  shifts jsonb NOT NULL DEFAULT '[]',
+  verification_code text UNIQUE NOT NULL DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 12)),
+  approved_at timestamptz DEFAULT now(),
+  CONSTRAINT hours_certificates_period_order CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS hours_certificates_volunteer_id_idx ON hours_certificates(volunteer_id, approved_at);
+
+ALTER TABLE hours_certificates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read certificates for their volunteers"
+  ON hours_certificates
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can issue certificates for their volunteers"
+  ON hours_certificates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id = volunteer_id
+      AND volunteers.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can revoke certificates for their volunteers"
+  ON hours_certificates
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,293 @@
+/*
+  # Event templates and duplicating events
+
+  1. New Tables
+    - `event_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text, the template's own name)
+      - `event_name` (text, default name for events made from it)
+      - `location` (text)
+      - `timezone` (text)
+      - `duration_minutes` (integer, event length)
+      - `positions` (jsonb, positions with name, needed, description,
+        skill_level, latitude, longitude and shift slots given as minutes from
+        the event start)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. New Functions
+    - `save_event_as_template` stores an event and its positions as a template
+    - `create_event_from_template` creates an event and its positions from a
+      template at a new start time
+    - `duplicate_event` copies an event, its positions and shift slots, and
+      optionally its signups, moved to a new start time
+
+  3. Notes
+    - Times move by wall-clock time in the event's zone, so a 7:00 shift stays
+      at 7:00 across daylight saving changes
+    - Copied signups start out not checked in. Waitlists are not copied.
+
+  4. Security
+    - Enable RLS on `event_templates` table
+    - Coordinators manage their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS event_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  name text NOT NULL,
+  event_name text NOT NULL,
+  location text NOT NULL DEFAULT '',
+  timezone text NOT NULL DEFAULT 'UTC',
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  positions jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS event_templates_user_id_idx ON event_templates(user_id);
+
+CREATE OR REPLACE FUNCTION touch_event_template()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER event_templates_touch
+  BEFORE UPDATE ON event_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_event_template();
+
+-- Moves an instant by a wall-clock interval in the given zone
+CREATE OR REPLACE FUNCTION shift_local_time(ts timestamptz, delta interval, zone text)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ((ts AT TIME ZONE zone) + delta) AT TIME ZONE zone;
+$$;
+
+CREATE OR REPLACE FUNCTION save_event_as_template(source_event uuid, template_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source events;
+  new_template uuid;
+BEGIN
+  SELECT * INTO source FROM events WHERE id = source_event;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', source_event;
+  END IF;
+
+  INSERT INTO event_templates (name, event_name, location, timezone, duration_minutes, positions)
+  VALUES (
+    template_name,
+    source.name,
+    source.location,
+    source.timezone,
+    GREATEST(1, (extract(epoch FROM source.ends_at - source.starts_at) / 60)::integer),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', p.name,
+        'needed', p.needed,
+        'description', p.description,
+        'skill_level', p.skill_level,
+        'latitude', p.latitude,
+        'longitude', p.longitude,
+        'slots', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'start_offset_minutes',
+              (extract(epoch FROM (s.starts_at AT TIME ZONE source.timezone) - (source.starts_at AT TIME ZONE source.timezone)) / 60)::integer,
+            'duration_minutes',
+              (extract(epoch FROM (s.ends_at AT TIME ZONE source.timezone) - (s.starts_at AT TIME ZONE source.timezone)) / 60)::integer,
+            'needed', s.needed
+          ) ORDER BY s.starts_at)
+          FROM position_slots s
+          WHERE s.position_id = p.id
+        ), '[]'::jsonb)
+      ) ORDER BY p.name)
+      FROM volunteer_positions p
+      WHERE p.event_id = source_event
+    ), '[]'::jsonb)
+  )
+  RETURNING id INTO new_template;
+
+  RETURN new_template;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_event_from_template(
+  source_template uuid,
+  new_name text,
+  new_starts_at timestamptz
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  template event_templates;
+  new_event uuid;
+  new_position uuid;
+  position_data jsonb;
+  slot_data jsonb;
+BEGIN
+  SELECT * INTO template FROM event_templates WHERE id = source_template;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template % not found', source_template;
+  END IF;
+
+  INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id)
+  VALUES (
+    new_name,
+    new_starts_at,
+    shift_local_time(new_starts_at, make_interval(mins => template.duration_minutes), template.timezone),
+    template.location,
+    template.timezone,
+    auth.uid()
+  )
+  RETURNING id INTO new_event;
+
+  FOR position_data IN SELECT * FROM jsonb_array_elements(template.positions)
+  LOOP
+    INSERT INTO volunteer_positions (event_id, name, needed, description, skill_level, latitude, longitude, user_id)
+    VALUES (
+      new_event,
+      position_data->>'name',
+      (position_data->>'needed')::integer,
+      position_data->>'description',
+      position_data->>'skill_level',
+      (position_data->>'latitude')::double precision,
+      (position_data->>'longitude')::double precision,
+      auth.uid()
+    )
+    RETURNING id INTO new_position;
+
+    FOR slot_data IN SELECT * FROM jsonb_array_elements(COALESCE(position_data->'slots', '[]'::jsonb))
+    LOOP
+      INSERT INTO position_slots (position_id, starts_at, ends_at, needed)
+      VALUES (
+        new_position,
+        shift_local_time(new_starts_at, make_interval(mins => (slot_data->>'start_offset_minutes')::integer), template.timezone),
+        shift_local_time(
+          new_starts_at,
+          make_interval(mins => (slot_data->>'start_offset_minutes')::integer + (slot_data->>'duration_minutes')::integer),
+          template.timezone
+        ),
+        (slot_data->>'needed')::integer
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN new_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION duplicate_event(
+  source_event uuid,
+  new_name text,
+  new_starts_at timestamptz,
+  include_signups boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source events;
+  delta interval;
+  new_event uuid;
+  new_position uuid;
+  source_position volunteer_positions;
+BEGIN
+  SELECT * INTO source FROM events WHERE id = source_event;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', source_event;
+  END IF;
+
+  delta := (new_starts_at AT TIME ZONE source.timezone) - (source.starts_at AT TIME ZONE source.timezone);
+
+  INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id)
+  VALUES (
+    new_name,
+    new_starts_at,
+    shift_local_time(source.ends_at, delta, source.timezone),
+    source.location,
+    source.timezone,
+    auth.uid()
+  )
+  RETURNING id INTO new_event;
+
+  FOR source_position IN
+    SELECT * FROM volunteer_positions WHERE event_id = source_event
+  LOOP
+    INSERT INTO volunteer_positions (event_id, name, needed, description, skill_level, latitude, longitude, user_id)
+    VALUES (
+      new_event,
+      source_position.name,
+      source_position.needed,
+      source_position.description,
+      source_position.skill_level,
+      source_position.latitude,
+      source_position.longitude,
+      auth.uid()
+    )
+    RETURNING id INTO new_position;
+
+    INSERT INTO position_slots (position_id, starts_at, ends_at, needed)
+    SELECT
+      new_position,
+      shift_local_time(starts_at, delta, source.timezone),
+      shift_local_time(ends_at, delta, source.timezone),
+      needed
+    FROM position_slots
+    WHERE position_id = source_position.id;
+
+    -- Slots are matched again from the shifted start times
+    IF include_signups THEN
+      INSERT INTO volunteer_signups (position_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived)
+      SELECT
+        new_position,
+        volunteer_id,
+        volunteer_name,
+        phone_number,
+        shift_local_time(starts_at, delta, source.timezone),
+        shift_local_time(ends_at, delta, source.timezone),
+        false
+      FROM volunteer_signups
+      WHERE position_id = source_position.id;
+    END IF;
+  END LOOP;
+
+  RETURN new_event;
+END;
+$$;
+
+ALTER TABLE event_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own templates"
+  ON event_templates
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own templates"
+  ON event_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own templates"
+  ON event_templates
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own templates"
+  ON event_templates
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,271 @@
+/*
+  # Recurring event series
+
+  1. New Tables
+    - `event_series`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text)
+      - `frequency` (text, 'weekly' or 'monthly')
+      - `repeat_interval` (integer, every n weeks or months)
+      - `weekdays` (integer[], weekly: days of the week, 0 = Sunday)
+      - `month_week` (integer, monthly: 1 to 4, or -1 for the last)
+      - `month_weekday` (integer, monthly: day of the week, 0 = Sunday)
+      - `starts_on` / `until` (date, first and last possible occurrence)
+      - `exceptions` (date[], dates skipped)
+      - `timezone` (text)
+      - `start_time` (time, local start of each occurrence)
+      - `duration_minutes` (integer)
+      - `location` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `events`
+      - Add `series_id` (uuid, references event_series)
+      - Add `series_date` (date, the occurrence's date in the series)
+
+  3. New Functions
+    - `create_event_series` creates the series and one event per occurrence
+      date, with positions copied from a template or an existing event
+    - `update_event_series_from` applies an edit to an occurrence and every
+      later one. Unless it is the first occurrence, the series is split there
+      so the earlier occurrences keep their settings. Shift slots, signups and
+      waitlist entries move with their event's new start time.
+
+  4. Security
+    - Enable RLS on `event_series` table
+    - Coordinators manage their own series
+*/
+
+CREATE TABLE IF NOT EXISTS event_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) NOT NULL DEFAULT auth.uid(),
+  name text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  repeat_interval integer NOT NULL DEFAULT 1 CHECK (repeat_interval > 0),
+  weekdays integer[] NOT NULL DEFAULT '{}',
+  month_week integer CHECK (month_week IN (-1, 1, 2, 3, 4)),
+  month_weekday integer CHECK (month_weekday BETWEEN 0 AND 6),
+  starts_on date NOT NULL,
+  until date NOT NULL,
+  exceptions date[] NOT NULL DEFAULT '{}',
+  timezone text NOT NULL DEFAULT 'UTC',
+  start_time time NOT NULL,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  location text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT event_series_range_order CHECK (until >= starts_on),
+  CONSTRAINT event_series_rule CHECK (
+    (frequency = 'weekly' AND cardinality(weekdays) > 0)
+    OR (frequency = 'monthly' AND month_week IS NOT NULL AND month_weekday IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS event_series_user_id_idx ON event_series(user_id);
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES event_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS series_date date;
+
+CREATE INDEX IF NOT EXISTS events_series_id_idx ON events(series_id, series_date);
+
+CREATE OR REPLACE FUNCTION create_event_series(
+  series_name text,
+  series_location text,
+  series_timezone text,
+  start_time time,
+  duration_minutes integer,
+  frequency text,
+  repeat_interval integer,
+  weekdays integer[],
+  month_week integer,
+  month_weekday integer,
+  starts_on date,
+  until date,
+  exceptions date[],
+  occurrence_dates date[],
+  source_template uuid DEFAULT NULL,
+  source_event uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_series uuid;
+  new_event uuid;
+  occurrence date;
+  occurrence_start timestamptz;
+  occurrence_end timestamptz;
+BEGIN
+  IF cardinality(occurrence_dates) = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule has no occurrences';
+  END IF;
+
+  INSERT INTO event_series (
+    name, frequency, repeat_interval, weekdays, month_week, month_weekday,
+    starts_on, until, exceptions, timezone, start_time, duration_minutes, location
+  )
+  VALUES (
+    series_name,
+    create_event_series.frequency,
+    create_event_series.repeat_interval,
+    create_event_series.weekdays,
+    create_event_series.month_week,
+    create_event_series.month_weekday,
+    create_event_series.starts_on,
+    create_event_series.until,
+    create_event_series.exceptions,
+    series_timezone,
+    create_event_series.start_time,
+    create_event_series.duration_minutes,
+    series_location
+  )
+  RETURNING id INTO new_series;
+
+  FOREACH occurrence IN ARRAY occurrence_dates
+  LOOP
+    occurrence_start := (occurrence + create_event_series.start_time) AT TIME ZONE series_timezone;
+    occurrence_end := shift_local_time(
+      occurrence_start, make_interval(mins => create_event_series.duration_minutes), series_timezone
+    );
+
+    IF source_template IS NOT NULL THEN
+      new_event := create_event_from_template(source_template, series_name, occurrence_start);
+    ELSIF source_event IS NOT NULL THEN
+      new_event := duplicate_event(source_event, series_name, occurrence_start, false);
+    ELSE
+      INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id)
+      VALUES (series_name, occurrence_start, occurrence_end, series_location, series_timezone, auth.uid())
+      RETURNING id INTO new_event;
+    END IF;
+
+    -- The series' own place and times win over those of the source
+    UPDATE events
+    SET location = series_location,
+        timezone = series_timezone,
+        ends_at = occurrence_end,
+        series_id = new_series,
+        series_date = occurrence
+    WHERE id = new_event;
+  END LOOP;
+
+  RETURN new_series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_event_series_from(
+  target_event uuid,
+  new_name text,
+  new_location text,
+  new_timezone text,
+  new_start_time time,
+  new_duration_minutes integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target events;
+  series event_series;
+  following_series uuid;
+  occurrence events;
+  new_start timestamptz;
+  delta interval;
+BEGIN
+  SELECT * INTO target FROM events WHERE id = target_event;
+  IF NOT FOUND OR target.series_id IS NULL THEN
+    RAISE EXCEPTION 'Event % is not part of a series', target_event;
+  END IF;
+
+  SELECT * INTO series FROM event_series WHERE id = target.series_id FOR UPDATE;
+
+  IF target.series_date > series.starts_on THEN
+    INSERT INTO event_series (
+      name, frequency, repeat_interval, weekdays, month_week, month_weekday,
+      starts_on, until, exceptions, timezone, start_time, duration_minutes, location
+    )
+    VALUES (
+      new_name, series.frequency, series.repeat_interval, series.weekdays, series.month_week,
+      series.month_weekday, target.series_date, series.until, series.exceptions, new_timezone,
+      new_start_time, new_duration_minutes, new_location
+    )
+    RETURNING id INTO following_series;
+
+    UPDATE event_series
+    SET until = target.series_date - 1
+    WHERE id = series.id;
+
+    UPDATE events
+    SET series_id = following_series
+    WHERE series_id = series.id
+      AND series_date >= target.series_date;
+  ELSE
+    following_series := series.id;
+
+    UPDATE event_series
+    SET name = new_name,
+        location = new_location,
+        timezone = new_timezone,
+        start_time = new_start_time,
+        duration_minutes = new_duration_minutes
+    WHERE id = series.id;
+  END IF;
+
+  FOR occurrence IN
+    SELECT * FROM events WHERE series_id = following_series
+  LOOP
+    new_start := (occurrence.series_date + new_start_time) AT TIME ZONE new_timezone;
+    delta := new_start - occurrence.starts_at;
+
+    UPDATE events
+    SET name = new_name,
+        location = new_location,
+        timezone = new_timezone,
+        starts_at = new_start,
+        ends_at = shift_local_time(new_start, make_interval(mins => new_duration_minutes), new_timezone)
+    WHERE id = occurrence.id;
+
+    IF delta <> interval '0' THEN
+      UPDATE position_slots
+      SET starts_at = starts_at + delta, ends_at = ends_at + delta
+      WHERE position_id IN (SELECT id FROM volunteer_positions WHERE event_id = occurrence.id);
+
+      UPDATE volunteer_signups
+      SET starts_at = starts_at + delta, ends_at = ends_at + delta
+      WHERE position_id IN (SELECT id FROM volunteer_positions WHERE event_id = occurrence.id);
+
+      UPDATE position_waitlist
+      SET starts_at = starts_at + delta, ends_at = ends_at + delta
+      WHERE position_id IN (SELECT id FROM volunteer_positions WHERE event_id = occurrence.id);
+    END IF;
+  END LOOP;
+
+  RETURN following_series;
+END;
+$$;
+
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own series"
+  ON event_series
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own series"
+  ON event_series
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own series"
+  ON event_series
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own series"
+  ON event_series
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,176 @@
+/*
+  # Event lifecycle status
+
+  1. Changes
+    - `events`
+      - Add `status` (text): 'draft', 'published', 'live', 'closed' or 'archived'.
+        New events start as drafts. Existing events become 'closed' once they
+        have ended and 'published' otherwise.
+
+  2. Transitions
+    - draft -> published, archived
+    - published -> draft, live, closed
+    - live -> closed
+    - closed -> live (reopen), archived
+    - archived -> closed
+    - Any other change of status is rejected by a trigger
+
+  3. Enforcement
+    - Volunteers can only be checked in while their event is live. Check-out
+      times and attendance corrections are also allowed once it has closed.
+    - Signups and waitlist entries cannot be added, removed or moved while
+      the event is closed or archived. These failures use SQLSTATE PT423
+      (HTTP 423).
+*/
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'published', 'live', 'closed', 'archived'));
+
+UPDATE events
+SET status = CASE WHEN ends_at < now() THEN 'closed' ELSE 'published' END;
+
+CREATE INDEX IF NOT EXISTS events_status_idx ON events(status);
+
+CREATE OR REPLACE FUNCTION event_status_transition_allowed(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT from_status = to_status OR (from_status, to_status) IN (
+    ('draft', 'published'),
+    ('draft', 'archived'),
+    ('published', 'draft'),
+    ('published', 'live'),
+    ('published', 'closed'),
+    ('live', 'closed'),
+    ('closed', 'live'),
+    ('closed', 'archived'),
+    ('archived', 'closed')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_event_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT event_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'An event cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER events_check_status_transition
+  BEFORE UPDATE OF status ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION check_event_status_transition();
+
+-- NULL when the position or its event is already gone, e.g. during a cascade
+CREATE OR REPLACE FUNCTION position_event_status(target_position uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT events.status
+  FROM volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE volunteer_positions.id = target_position;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_event_status_on_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  event_status text;
+  assignment_changed boolean;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    event_status := position_event_status(OLD.position_id);
+  ELSE
+    event_status := position_event_status(NEW.position_id);
+  END IF;
+
+  assignment_changed := TG_OP <> 'UPDATE' OR (
+    NEW.position_id, NEW.slot_id, NEW.volunteer_id, NEW.volunteer_name,
+    NEW.phone_number, NEW.starts_at, NEW.ends_at
+  ) IS DISTINCT FROM (
+    OLD.position_id, OLD.slot_id, OLD.volunteer_id, OLD.volunteer_name,
+    OLD.phone_number, OLD.starts_at, OLD.ends_at
+  );
+
+  IF assignment_changed AND event_status IN ('closed', 'archived') THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', event_status
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  -- A moved signup must also be allowed to leave its old event
+  IF TG_OP = 'UPDATE' AND NEW.position_id <> OLD.position_id
+    AND position_event_status(OLD.position_id) IN ('closed', 'archived')
+  THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', position_event_status(OLD.position_id)
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Runs before sync_signup_arrival, so older clients that only flip
+    -- `arrived` count as checking in too
+    IF OLD.checked_in_at IS NULL AND (NEW.checked_in_at IS NOT NULL OR (NEW.arrived AND NOT OLD.arrived))
+      AND event_status <> 'live'
+    THEN
+      RAISE EXCEPTION 'Check-in is only open while the event is live'
+        USING ERRCODE = 'PT423';
+    END IF;
+
+    IF (NEW.checked_in_at, NEW.checked_out_at, NEW.arrived)
+        IS DISTINCT FROM (OLD.checked_in_at, OLD.checked_out_at, OLD.arrived)
+      AND event_status NOT IN ('live', 'closed')
+    THEN
+      RAISE EXCEPTION 'Attendance can only be changed once the event is live'
+        USING ERRCODE = 'PT423';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER volunteer_signups_enforce_event_status
+  BEFORE INSERT OR UPDATE OR DELETE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_event_status_on_signup();
+
+CREATE OR REPLACE FUNCTION enforce_event_status_on_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  event_status text;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    event_status := position_event_status(OLD.position_id);
+  ELSE
+    event_status := position_event_status(NEW.position_id);
+  END IF;
+
+  IF event_status IN ('closed', 'archived') THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', event_status
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER position_waitlist_enforce_event_status
+  BEFORE INSERT OR UPDATE OR DELETE ON position_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_event_status_on_waitlist();
@@ -0,0 +1,532 @@
+/*
+  # Trash bin for events, positions and signups
+
+  1. Changes
+    - Add `deleted_at` (timestamptz) to `events`, `volunteer_positions` and
+      `volunteer_signups`. A row with `deleted_at` set is in the trash.
+    - Trashed rows are hidden from every query by restrictive SELECT
+      policies, so they can only be listed, restored or purged through the
+      functions below
+    - Filled counts and waitlist promotion ignore trashed signups, so a
+      trashed signup frees its place like a deleted one did
+
+  2. New Tables
+    - `trash_settings`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `retention_days` (integer, days before trashed items are purged)
+      - `updated_at` (timestamptz)
+
+  3. New Functions
+    - `move_to_trash` trashes an event, position or signup together with
+      everything under it, all stamped with the same `deleted_at`
+    - `restore_from_trash` brings back an item and whatever was trashed with
+      it. Items trashed separately beforehand stay in the trash.
+    - `purge_from_trash` deletes a trashed item for good
+    - `list_trash` returns the caller's trashed items, leaving out those that
+      were trashed as part of a larger item
+    - `purge_expired_trash` deletes items older than their owner's retention
+      period (`trash_retention`, 30 days unless set). pg_cron runs it every
+      night.
+
+  4. Security
+    - Enable RLS on `trash_settings` table
+    - The trash functions run as their owner so they can reach trashed rows.
+      Each checks that the caller owns the item's event.
+*/
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE volunteer_positions
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE volunteer_signups
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS events_deleted_at_idx ON events(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS volunteer_positions_deleted_at_idx ON volunteer_positions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS volunteer_signups_deleted_at_idx ON volunteer_signups(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE POLICY "Trashed events are hidden"
+  ON events
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed volunteer positions are hidden"
+  ON volunteer_positions
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed volunteer signups are hidden"
+  ON volunteer_signups
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE TABLE IF NOT EXISTS trash_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) DEFAULT auth.uid(),
+  retention_days integer NOT NULL DEFAULT 30 CHECK (retention_days BETWEEN 1 AND 365),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Trashed signups no longer take up a place
+
+CREATE OR REPLACE FUNCTION recount_position_filled(target_position uuid, target_slot uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE volunteer_positions
+  SET filled = (
+    SELECT count(*) FROM volunteer_signups
+    WHERE volunteer_signups.position_id = target_position
+      AND volunteer_signups.deleted_at IS NULL
+  )
+  WHERE id = target_position;
+
+  IF target_slot IS NOT NULL THEN
+    UPDATE position_slots
+    SET filled = (
+      SELECT count(*) FROM volunteer_signups
+      WHERE volunteer_signups.slot_id = target_slot
+        AND volunteer_signups.deleted_at IS NULL
+    )
+    WHERE id = target_slot;
+  END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS volunteer_signups_sync_filled ON volunteer_signups;
+
+CREATE TRIGGER volunteer_signups_sync_filled
+  AFTER INSERT OR UPDATE OF position_id, slot_id, deleted_at OR DELETE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_filled_counts();
+
+CREATE OR REPLACE FUNCTION promote_from_waitlist(target_position uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  entry position_waitlist;
+  capacity integer;
+  taken integer;
+  new_signup uuid;
+  promoted integer := 0;
+BEGIN
+  -- Nothing to do while the position itself is being deleted or is in the trash
+  IF NOT EXISTS (SELECT 1 FROM volunteer_positions WHERE id = target_position AND deleted_at IS NULL) THEN
+    RETURN 0;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM position_waitlist
+    WHERE position_id = target_position
+    ORDER BY priority, created_at
+  LOOP
+    IF entry.slot_id IS NOT NULL THEN
+      SELECT needed INTO capacity FROM position_slots WHERE id = entry.slot_id;
+      SELECT count(*) INTO taken FROM volunteer_signups
+      WHERE slot_id = entry.slot_id AND deleted_at IS NULL;
+    ELSE
+      SELECT needed INTO capacity FROM volunteer_positions WHERE id = target_position;
+      SELECT count(*) INTO taken FROM volunteer_signups
+      WHERE position_id = target_position AND deleted_at IS NULL;
+    END IF;
+    CONTINUE WHEN capacity IS NULL OR taken >= capacity;
+
+    INSERT INTO volunteer_signups (
+      position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived
+    )
+    VALUES (
+      entry.position_id, entry.slot_id, entry.volunteer_id, entry.volunteer_name,
+      entry.phone_number, entry.starts_at, entry.ends_at, false
+    )
+    RETURNING id INTO new_signup;
+
+    INSERT INTO waitlist_promotions (
+      position_id, slot_id, signup_id, volunteer_name, phone_number, waited_since
+    )
+    VALUES (
+      entry.position_id, entry.slot_id, new_signup, entry.volunteer_name,
+      entry.phone_number, entry.created_at
+    );
+
+    DELETE FROM position_waitlist WHERE id = entry.id;
+    promoted := promoted + 1;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS volunteer_signups_promote_waitlist ON volunteer_signups;
+
+CREATE TRIGGER volunteer_signups_promote_waitlist
+  AFTER DELETE OR UPDATE OF position_id, slot_id, deleted_at ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_after_signup_change();
+
+-- Trashing counts as removing an assignment. Rows under a trashed position
+-- or event have no status to respect, so whole events can still be trashed,
+-- restored and purged after they close.
+
+CREATE OR REPLACE FUNCTION position_event_status(target_position uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT events.status
+  FROM volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE volunteer_positions.id = target_position
+    AND volunteer_positions.deleted_at IS NULL
+    AND events.deleted_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_event_status_on_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  event_status text;
+  assignment_changed boolean;
+BEGIN
+  -- Purging something already in the trash
+  IF TG_OP = 'DELETE' AND OLD.deleted_at IS NOT NULL THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    event_status := position_event_status(OLD.position_id);
+  ELSE
+    event_status := position_event_status(NEW.position_id);
+  END IF;
+
+  assignment_changed := TG_OP <> 'UPDATE' OR (
+    NEW.position_id, NEW.slot_id, NEW.volunteer_id, NEW.volunteer_name,
+    NEW.phone_number, NEW.starts_at, NEW.ends_at, NEW.deleted_at
+  ) IS DISTINCT FROM (
+    OLD.position_id, OLD.slot_id, OLD.volunteer_id, OLD.volunteer_name,
+    OLD.phone_number, OLD.starts_at, OLD.ends_at, OLD.deleted_at
+  );
+
+  IF assignment_changed AND event_status IN ('closed', 'archived') THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', event_status
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  -- A moved signup must also be allowed to leave its old event
+  IF TG_OP = 'UPDATE' AND NEW.position_id <> OLD.position_id
+    AND position_event_status(OLD.position_id) IN ('closed', 'archived')
+  THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', position_event_status(OLD.position_id)
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Runs before sync_signup_arrival, so older clients that only flip
+    -- `arrived` count as checking in too
+    IF OLD.checked_in_at IS NULL AND (NEW.checked_in_at IS NOT NULL OR (NEW.arrived AND NOT OLD.arrived))
+      AND event_status <> 'live'
+    THEN
+      RAISE EXCEPTION 'Check-in is only open while the event is live'
+        USING ERRCODE = 'PT423';
+    END IF;
+
+    IF (NEW.checked_in_at, NEW.checked_out_at, NEW.arrived)
+        IS DISTINCT FROM (OLD.checked_in_at, OLD.checked_out_at, OLD.arrived)
+      AND event_status NOT IN ('live', 'closed')
+    THEN
+      RAISE EXCEPTION 'Attendance can only be changed once the event is live'
+        USING ERRCODE = 'PT423';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trash_retention(owner uuid)
+RETURNS interval
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT make_interval(days => COALESCE(
+    (SELECT retention_days FROM trash_settings WHERE user_id = owner), 30
+  ));
+$$;
+
+-- Owner of the event an item belongs to, trashed or not
+CREATE OR REPLACE FUNCTION trash_item_owner(item_type text, item_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT events.user_id
+  FROM events
+  WHERE item_type = 'event' AND events.id = item_id
+  UNION ALL
+  SELECT events.user_id
+  FROM volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE item_type = 'position' AND volunteer_positions.id = item_id
+  UNION ALL
+  SELECT events.user_id
+  FROM volunteer_signups
+  JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE item_type = 'signup' AND volunteer_signups.id = item_id;
+$$;
+
+CREATE OR REPLACE FUNCTION move_to_trash(item_type text, item_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz := now();
+BEGIN
+  IF trash_item_owner(item_type, item_id) IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+
+  -- Top down, so the status checks on signups see their event already gone
+  IF item_type = 'event' THEN
+    UPDATE events SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_positions SET deleted_at = stamp
+    WHERE event_id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE deleted_at IS NULL
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_positions SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE position_id = item_id AND deleted_at IS NULL;
+  ELSE
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+  END IF;
+
+  RETURN stamp;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_from_trash(item_type text, item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz;
+  parent_trashed boolean;
+BEGIN
+  IF trash_item_owner(item_type, item_id) IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+
+  IF item_type = 'event' THEN
+    SELECT deleted_at, false INTO stamp, parent_trashed
+    FROM events WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    SELECT volunteer_positions.deleted_at, events.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = item_id;
+  ELSE
+    SELECT volunteer_signups.deleted_at, volunteer_positions.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_signups
+    JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+    WHERE volunteer_signups.id = item_id;
+  END IF;
+
+  IF stamp IS NULL THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+  IF parent_trashed THEN
+    RAISE EXCEPTION 'Restore the % it belongs to first', CASE item_type WHEN 'position' THEN 'event' ELSE 'position' END;
+  END IF;
+
+  -- Bottom up, the reverse of move_to_trash
+  IF item_type = 'event' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE deleted_at = stamp
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE event_id = item_id AND deleted_at = stamp;
+
+    UPDATE events SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE position_id = item_id AND deleted_at = stamp;
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSE
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE id = item_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_from_trash(item_type text, item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF trash_item_owner(item_type, item_id) IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+
+  IF item_type = 'event' THEN
+    DELETE FROM events WHERE id = item_id AND deleted_at IS NOT NULL;
+  ELSIF item_type = 'position' THEN
+    DELETE FROM volunteer_positions WHERE id = item_id AND deleted_at IS NOT NULL;
+  ELSE
+    DELETE FROM volunteer_signups WHERE id = item_id AND deleted_at IS NOT NULL;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_trash()
+RETURNS TABLE (
+  item_type text,
+  item_id uuid,
+  name text,
+  detail text,
+  signup_count integer,
+  deleted_at timestamptz,
+  purge_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH retention AS (
+    SELECT trash_retention(auth.uid()) AS period
+  )
+  SELECT 'event', events.id, events.name, events.location,
+    (
+      SELECT count(*)::integer
+      FROM volunteer_signups
+      JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+      WHERE volunteer_positions.event_id = events.id
+        AND volunteer_signups.deleted_at = events.deleted_at
+    ),
+    events.deleted_at, events.deleted_at + retention.period
+  FROM events, retention
+  WHERE events.user_id = auth.uid()
+    AND events.deleted_at IS NOT NULL
+  UNION ALL
+  SELECT 'position', volunteer_positions.id, volunteer_positions.name, events.name,
+    (
+      SELECT count(*)::integer
+      FROM volunteer_signups
+      WHERE volunteer_signups.position_id = volunteer_positions.id
+        AND volunteer_signups.deleted_at = volunteer_positions.deleted_at
+    ),
+    volunteer_positions.deleted_at, volunteer_positions.deleted_at + retention.period
+  FROM volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id, retention
+  WHERE events.user_id = auth.uid()
+    AND volunteer_positions.deleted_at IS NOT NULL
+    AND volunteer_positions.deleted_at IS DISTINCT FROM events.deleted_at
+  UNION ALL
+  SELECT 'signup', volunteer_signups.id, volunteer_signups.volunteer_name,
+    volunteer_positions.name || ' · ' || events.name,
+    0,
+    volunteer_signups.deleted_at, volunteer_signups.deleted_at + retention.period
+  FROM volunteer_signups
+  JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+  JOIN events ON events.id = volunteer_positions.event_id, retention
+  WHERE events.user_id = auth.uid()
+    AND volunteer_signups.deleted_at IS NOT NULL
+    AND volunteer_signups.deleted_at IS DISTINCT FROM volunteer_positions.deleted_at
+  ORDER BY 6 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer := 0;
+  removed integer;
+BEGIN
+  DELETE FROM events
+  WHERE deleted_at < now() - trash_retention(events.user_id);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  purged := purged + removed;
+
+  DELETE FROM volunteer_positions
+  USING events
+  WHERE events.id = volunteer_positions.event_id
+    AND volunteer_positions.deleted_at < now() - trash_retention(events.user_id);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  purged := purged + removed;
+
+  DELETE FROM volunteer_signups
+  USING volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE volunteer_positions.id = volunteer_signups.position_id
+    AND volunteer_signups.deleted_at < now() - trash_retention(events.user_id);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  purged := purged + removed;
+
+  RETURN purged;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-expired-trash', '15 3 * * *', 'SELECT purge_expired_trash()');
+
+ALTER TABLE trash_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own trash settings"
+  ON trash_settings
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own trash settings"
+  ON trash_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own trash settings"
+  ON trash_settings
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,189 @@
+/*
+  # Audit log for events, positions and signups
+
+  1. New Tables
+    - `audit_log`
+      - `id` (bigint, primary key)
+      - `occurred_at` (timestamptz)
+      - `actor_id` (uuid, the signed-in user who made the change, null for
+        changes made by the server such as nightly trash purges)
+      - `actor_email` (text, kept so the entry stays readable if the user
+        goes away)
+      - `table_name` (text, `events`, `volunteer_positions` or
+        `volunteer_signups`)
+      - `row_id` (uuid, id of the changed row)
+      - `event_id` (uuid, the event the row belongs to)
+      - `owner_id` (uuid, owner of that event)
+      - `action` (text, `insert`, `update` or `delete`)
+      - `old_values` / `new_values` (jsonb, the row before and after)
+      - `changed_columns` (text[], columns that differ on update)
+
+  2. Changes
+    - `record_audit_entry` runs on every insert, update and delete on
+      `events`, `volunteer_positions` and `volunteer_signups`. Trashing and
+      restoring show up as updates of `deleted_at`.
+    - Updates that only touch derived columns (`filled`, `served_minutes`)
+      or change nothing are not recorded
+    - `event_id` and `owner_id` are copied onto each entry, so an event's
+      history is still there after it is deleted for good. They are not
+      foreign keys for the same reason.
+
+  3. Security
+    - Enable RLS on `audit_log` table
+    - Event owners can read the entries of their events
+    - Nobody writes entries directly. The trigger runs as its owner, and
+      updates and deletes are refused even for the service role.
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_id uuid,
+  actor_email text,
+  table_name text NOT NULL,
+  row_id uuid NOT NULL,
+  event_id uuid,
+  owner_id uuid,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  old_values jsonb,
+  new_values jsonb,
+  changed_columns text[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_event_id_idx ON audit_log(event_id, occurred_at);
+CREATE INDEX IF NOT EXISTS audit_log_row_id_idx ON audit_log(row_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read the audit log of their own events"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+-- Append-only
+
+CREATE OR REPLACE FUNCTION refuse_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION refuse_audit_log_change();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refuse_audit_log_change();
+
+-- Deletes are recorded before they happen, so when a purge cascades from an
+-- event down to its signups each child can still find its parent's entry
+
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  current_row jsonb;
+  changed text[] := '{}';
+  target_event uuid;
+  target_owner uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  current_row := coalesce(new_row, old_row);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO changed
+    FROM jsonb_each(new_row)
+    WHERE key NOT IN ('filled', 'served_minutes')
+      AND new_row -> key IS DISTINCT FROM old_row -> key;
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_TABLE_NAME = 'events' THEN
+    target_event := (current_row ->> 'id')::uuid;
+    target_owner := (current_row ->> 'user_id')::uuid;
+  ELSIF TG_TABLE_NAME = 'volunteer_positions' THEN
+    target_event := (current_row ->> 'event_id')::uuid;
+    SELECT user_id INTO target_owner FROM events WHERE id = target_event;
+    target_owner := coalesce(target_owner, (current_row ->> 'user_id')::uuid);
+  ELSE
+    SELECT events.id, events.user_id INTO target_event, target_owner
+    FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = (current_row ->> 'position_id')::uuid;
+
+    -- Part of a purge that already removed the position
+    IF target_event IS NULL THEN
+      SELECT event_id, owner_id INTO target_event, target_owner
+      FROM audit_log
+      WHERE table_name = 'volunteer_positions'
+        AND row_id = (current_row ->> 'position_id')::uuid
+      ORDER BY id DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    actor_id, actor_email, table_name, row_id, event_id, owner_id,
+    action, old_values, new_values, changed_columns
+  )
+  VALUES (
+    auth.uid(), auth.jwt() ->> 'email', TG_TABLE_NAME, (current_row ->> 'id')::uuid,
+    target_event, target_owner, lower(TG_OP), old_row, new_row, changed
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER events_audit
+  AFTER INSERT OR UPDATE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER events_audit_delete
+  BEFORE DELETE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER volunteer_positions_audit
+  AFTER INSERT OR UPDATE ON volunteer_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER volunteer_positions_audit_delete
+  BEFORE DELETE ON volunteer_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER volunteer_signups_audit
+  AFTER INSERT OR UPDATE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
+
+CREATE TRIGGER volunteer_signups_audit_delete
+  BEFORE DELETE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_entry();
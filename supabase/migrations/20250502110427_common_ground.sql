@@ -0,0 +1,1520 @@
+/*
+  # Organizations shared by several coordinators
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `trash_retention_days` (integer, days before trashed items are purged)
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+    - `organization_members`
+      - `organization_id` (uuid, references organizations)
+      - `user_id` (uuid, references auth.users)
+      - `email` (text, copied from the account so members can be listed)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `organization_id` to `events`, `volunteers`, `event_templates` and
+      `event_series`. Positions, signups, slots, waitlists, import batches and
+      certificates belong to an organization through their event or volunteer.
+    - Every existing account gets its own organization holding everything it
+      created, and new accounts get one when they sign up
+    - `user_id` on these tables now records who created the row
+    - The trash retention period moves from `trash_settings`, which is
+      dropped, to the organization. Backfilled organizations keep the period
+      their account had set.
+    - Add `organization_id` to `audit_log`
+    - `create_event_series` takes the organization of the series. Events made
+      from a template or another event join the organization of their source.
+    - `list_trash` lists the trash of one organization
+
+  3. New Functions
+    - `is_organization_member` tells whether the caller belongs to an
+      organization
+    - `create_organization` creates an organization with the caller as its
+      first member
+    - `add_organization_member` adds the account with an email address to an
+      organization
+
+  4. Security
+    - Enable RLS on `organizations` and `organization_members` tables
+    - Every policy that checked `events.user_id = auth.uid()` (or the row's
+      own `user_id`) now checks membership of the organization instead
+    - Members can rename their organization, see its members, remove members
+      and leave it. The last member cannot leave.
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  trash_retention_days integer NOT NULL DEFAULT 30 CHECK (trash_retention_days BETWEEN 1 AND 365),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON organization_members(user_id);
+
+-- Runs as its owner so policies on organization_members can use it without
+-- recursing into themselves
+CREATE OR REPLACE FUNCTION is_organization_member(target_organization uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = target_organization
+      AND user_id = auth.uid()
+  );
+$$;
+
+-- Backfill: one organization per account
+
+INSERT INTO organizations (name, created_by, trash_retention_days)
+SELECT
+  COALESCE(NULLIF(split_part(users.email, '@', 1), ''), 'My') || '''s organization',
+  users.id,
+  COALESCE(trash_settings.retention_days, 30)
+FROM auth.users
+LEFT JOIN trash_settings ON trash_settings.user_id = users.id;
+
+INSERT INTO organization_members (organization_id, user_id, email)
+SELECT organizations.id, users.id, COALESCE(users.email, '')
+FROM organizations
+JOIN auth.users ON users.id = organizations.created_by;
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE volunteers
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE event_templates
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE event_series
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE events SET organization_id = organizations.id
+FROM organizations WHERE organizations.created_by = events.user_id;
+
+UPDATE volunteers SET organization_id = organizations.id
+FROM organizations WHERE organizations.created_by = volunteers.user_id;
+
+UPDATE event_templates SET organization_id = organizations.id
+FROM organizations WHERE organizations.created_by = event_templates.user_id;
+
+UPDATE event_series SET organization_id = organizations.id
+FROM organizations WHERE organizations.created_by = event_series.user_id;
+
+ALTER TABLE events ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE volunteers ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE event_templates ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE event_series ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS events_organization_id_idx ON events(organization_id);
+CREATE INDEX IF NOT EXISTS volunteers_organization_id_idx ON volunteers(organization_id);
+CREATE INDEX IF NOT EXISTS event_templates_organization_id_idx ON event_templates(organization_id);
+CREATE INDEX IF NOT EXISTS event_series_organization_id_idx ON event_series(organization_id);
+
+-- New accounts start with an organization of their own
+
+CREATE OR REPLACE FUNCTION create_personal_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_organization uuid;
+BEGIN
+  INSERT INTO organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(split_part(NEW.email, '@', 1), ''), 'My') || '''s organization', NEW.id)
+  RETURNING id INTO new_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, email)
+  VALUES (new_organization, NEW.id, COALESCE(NEW.email, ''));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_organization
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_personal_organization();
+
+CREATE OR REPLACE FUNCTION create_organization(organization_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_organization uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(organization_name), auth.uid())
+  RETURNING id INTO new_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, email)
+  VALUES (new_organization, auth.uid(), COALESCE(auth.jwt() ->> 'email', ''));
+
+  RETURN new_organization;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_organization_member(target_organization uuid, member_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member auth.users;
+BEGIN
+  IF NOT is_organization_member(target_organization) THEN
+    RAISE EXCEPTION 'Organization % not found', target_organization;
+  END IF;
+
+  SELECT * INTO member FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account uses %. Ask them to sign up first.', trim(member_email);
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, email)
+  VALUES (target_organization, member.id, member.email)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% is already a member', member.email;
+  END IF;
+END;
+$$;
+
+-- An organization always keeps at least one member, unless the organization
+-- or the member's account is being deleted
+CREATE OR REPLACE FUNCTION keep_last_organization_member()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id)
+    AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = OLD.organization_id
+        AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'An organization needs at least one member';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER organization_members_keep_last
+  BEFORE DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_last_organization_member();
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organizations"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(id));
+
+CREATE POLICY "Members can update their organizations"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(id));
+
+CREATE POLICY "Members can read the members of their organizations"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can remove members of their organizations"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+-- Events, templates, series and volunteers
+
+DROP POLICY IF EXISTS "Users can read their own events" ON events;
+DROP POLICY IF EXISTS "Users can insert their own events" ON events;
+DROP POLICY IF EXISTS "Users can update their own events" ON events;
+DROP POLICY IF EXISTS "Users can delete their own events" ON events;
+
+CREATE POLICY "Members can read their organization's events"
+  ON events
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert their organization's events"
+  ON events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND is_organization_member(organization_id));
+
+CREATE POLICY "Members can update their organization's events"
+  ON events
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete their organization's events"
+  ON events
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can read their own volunteers" ON volunteers;
+DROP POLICY IF EXISTS "Users can insert their own volunteers" ON volunteers;
+DROP POLICY IF EXISTS "Users can update their own volunteers" ON volunteers;
+DROP POLICY IF EXISTS "Users can delete their own volunteers" ON volunteers;
+
+CREATE POLICY "Members can read their organization's volunteers"
+  ON volunteers
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert their organization's volunteers"
+  ON volunteers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND is_organization_member(organization_id));
+
+CREATE POLICY "Members can update their organization's volunteers"
+  ON volunteers
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete their organization's volunteers"
+  ON volunteers
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can read their own templates" ON event_templates;
+DROP POLICY IF EXISTS "Users can insert their own templates" ON event_templates;
+DROP POLICY IF EXISTS "Users can update their own templates" ON event_templates;
+DROP POLICY IF EXISTS "Users can delete their own templates" ON event_templates;
+
+CREATE POLICY "Members can read their organization's templates"
+  ON event_templates
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert their organization's templates"
+  ON event_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND is_organization_member(organization_id));
+
+CREATE POLICY "Members can update their organization's templates"
+  ON event_templates
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete their organization's templates"
+  ON event_templates
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can read their own series" ON event_series;
+DROP POLICY IF EXISTS "Users can insert their own series" ON event_series;
+DROP POLICY IF EXISTS "Users can update their own series" ON event_series;
+DROP POLICY IF EXISTS "Users can delete their own series" ON event_series;
+
+CREATE POLICY "Members can read their organization's series"
+  ON event_series
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can insert their organization's series"
+  ON event_series
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND is_organization_member(organization_id));
+
+CREATE POLICY "Members can update their organization's series"
+  ON event_series
+  FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can delete their organization's series"
+  ON event_series
+  FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+-- Rows that belong to an event
+
+DROP POLICY IF EXISTS "Users can read volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Users can insert volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Users can update their volunteer positions" ON volunteer_positions;
+DROP POLICY IF EXISTS "Users can delete their volunteer positions" ON volunteer_positions;
+
+CREATE POLICY "Members can read volunteer positions for their events"
+  ON volunteer_positions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = volunteer_positions.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can insert volunteer positions for their events"
+  ON volunteer_positions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can update volunteer positions for their events"
+  ON volunteer_positions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = volunteer_positions.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can delete volunteer positions for their events"
+  ON volunteer_positions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = volunteer_positions.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Users can insert volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Users can update volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Users can delete volunteer signups for their events" ON volunteer_signups;
+
+CREATE POLICY "Members can read volunteer signups for their events"
+  ON volunteer_signups
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = volunteer_signups.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can insert volunteer signups for their events"
+  ON volunteer_signups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can update volunteer signups for their events"
+  ON volunteer_signups
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = volunteer_signups.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can delete volunteer signups for their events"
+  ON volunteer_signups
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = volunteer_signups.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read position matches for their events" ON import_position_matches;
+DROP POLICY IF EXISTS "Users can insert position matches for their events" ON import_position_matches;
+DROP POLICY IF EXISTS "Users can update position matches for their events" ON import_position_matches;
+
+CREATE POLICY "Members can read position matches for their events"
+  ON import_position_matches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_position_matches.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can insert position matches for their events"
+  ON import_position_matches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can update position matches for their events"
+  ON import_position_matches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_position_matches.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read import batches for their events" ON import_batches;
+DROP POLICY IF EXISTS "Users can insert import batches for their events" ON import_batches;
+DROP POLICY IF EXISTS "Users can update import batches for their events" ON import_batches;
+DROP POLICY IF EXISTS "Users can delete import batches for their events" ON import_batches;
+
+CREATE POLICY "Members can read import batches for their events"
+  ON import_batches
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can insert import batches for their events"
+  ON import_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can update import batches for their events"
+  ON import_batches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can delete import batches for their events"
+  ON import_batches
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read slots for their events" ON position_slots;
+DROP POLICY IF EXISTS "Users can insert slots for their events" ON position_slots;
+DROP POLICY IF EXISTS "Users can update slots for their events" ON position_slots;
+DROP POLICY IF EXISTS "Users can delete slots for their events" ON position_slots;
+
+CREATE POLICY "Members can read slots for their events"
+  ON position_slots
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can insert slots for their events"
+  ON position_slots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can update slots for their events"
+  ON position_slots
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can delete slots for their events"
+  ON position_slots
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read waitlists for their events" ON position_waitlist;
+DROP POLICY IF EXISTS "Users can insert waitlist entries for their events" ON position_waitlist;
+DROP POLICY IF EXISTS "Users can update waitlist entries for their events" ON position_waitlist;
+DROP POLICY IF EXISTS "Users can delete waitlist entries for their events" ON position_waitlist;
+
+CREATE POLICY "Members can read waitlists for their events"
+  ON position_waitlist
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can insert waitlist entries for their events"
+  ON position_waitlist
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can update waitlist entries for their events"
+  ON position_waitlist
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can delete waitlist entries for their events"
+  ON position_waitlist
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read promotions for their events" ON waitlist_promotions;
+DROP POLICY IF EXISTS "Users can log promotions for their events" ON waitlist_promotions;
+
+CREATE POLICY "Members can read promotions for their events"
+  ON waitlist_promotions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = waitlist_promotions.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can log promotions for their events"
+  ON waitlist_promotions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read certificates for their volunteers" ON hours_certificates;
+DROP POLICY IF EXISTS "Users can issue certificates for their volunteers" ON hours_certificates;
+DROP POLICY IF EXISTS "Users can revoke certificates for their volunteers" ON hours_certificates;
+
+CREATE POLICY "Members can read certificates for their volunteers"
+  ON hours_certificates
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id = hours_certificates.volunteer_id
+      AND is_organization_member(volunteers.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can issue certificates for their volunteers"
+  ON hours_certificates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id = volunteer_id
+      AND is_organization_member(volunteers.organization_id)
+    )
+  );
+
+CREATE POLICY "Members can revoke certificates for their volunteers"
+  ON hours_certificates
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id = hours_certificates.volunteer_id
+      AND is_organization_member(volunteers.organization_id)
+    )
+  );
+
+-- Events made from a template or another event join its organization
+
+CREATE OR REPLACE FUNCTION save_event_as_template(source_event uuid, template_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source events;
+  new_template uuid;
+BEGIN
+  SELECT * INTO source FROM events WHERE id = source_event;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', source_event;
+  END IF;
+
+  INSERT INTO event_templates (name, event_name, location, timezone, duration_minutes, positions, organization_id)
+  VALUES (
+    template_name,
+    source.name,
+    source.location,
+    source.timezone,
+    GREATEST(1, (extract(epoch FROM source.ends_at - source.starts_at) / 60)::integer),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', p.name,
+        'needed', p.needed,
+        'description', p.description,
+        'skill_level', p.skill_level,
+        'latitude', p.latitude,
+        'longitude', p.longitude,
+        'slots', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'start_offset_minutes',
+              (extract(epoch FROM (s.starts_at AT TIME ZONE source.timezone) - (source.starts_at AT TIME ZONE source.timezone)) / 60)::integer,
+            'duration_minutes',
+              (extract(epoch FROM (s.ends_at AT TIME ZONE source.timezone) - (s.starts_at AT TIME ZONE source.timezone)) / 60)::integer,
+            'needed', s.needed
+          ) ORDER BY s.starts_at)
+          FROM position_slots s
+          WHERE s.position_id = p.id
+        ), '[]'::jsonb)
+      ) ORDER BY p.name)
+      FROM volunteer_positions p
+      WHERE p.event_id = source_event
+    ), '[]'::jsonb),
+    source.organization_id
+  )
+  RETURNING id INTO new_template;
+
+  RETURN new_template;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_event_from_template(
+  source_template uuid,
+  new_name text,
+  new_starts_at timestamptz
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  template event_templates;
+  new_event uuid;
+  new_position uuid;
+  position_data jsonb;
+  slot_data jsonb;
+BEGIN
+  SELECT * INTO template FROM event_templates WHERE id = source_template;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template % not found', source_template;
+  END IF;
+
+  INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id, organization_id)
+  VALUES (
+    new_name,
+    new_starts_at,
+    shift_local_time(new_starts_at, make_interval(mins => template.duration_minutes), template.timezone),
+    template.location,
+    template.timezone,
+    auth.uid(),
+    template.organization_id
+  )
+  RETURNING id INTO new_event;
+
+  FOR position_data IN SELECT * FROM jsonb_array_elements(template.positions)
+  LOOP
+    INSERT INTO volunteer_positions (event_id, name, needed, description, skill_level, latitude, longitude, user_id)
+    VALUES (
+      new_event,
+      position_data->>'name',
+      (position_data->>'needed')::integer,
+      position_data->>'description',
+      position_data->>'skill_level',
+      (position_data->>'latitude')::double precision,
+      (position_data->>'longitude')::double precision,
+      auth.uid()
+    )
+    RETURNING id INTO new_position;
+
+    FOR slot_data IN SELECT * FROM jsonb_array_elements(COALESCE(position_data->'slots', '[]'::jsonb))
+    LOOP
+      INSERT INTO position_slots (position_id, starts_at, ends_at, needed)
+      VALUES (
+        new_position,
+        shift_local_time(new_starts_at, make_interval(mins => (slot_data->>'start_offset_minutes')::integer), template.timezone),
+        shift_local_time(
+          new_starts_at,
+          make_interval(mins => (slot_data->>'start_offset_minutes')::integer + (slot_data->>'duration_minutes')::integer),
+          template.timezone
+        ),
+        (slot_data->>'needed')::integer
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN new_event;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION duplicate_event(
+  source_event uuid,
+  new_name text,
+  new_starts_at timestamptz,
+  include_signups boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source events;
+  delta interval;
+  new_event uuid;
+  new_position uuid;
+  source_position volunteer_positions;
+BEGIN
+  SELECT * INTO source FROM events WHERE id = source_event;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', source_event;
+  END IF;
+
+  delta := (new_starts_at AT TIME ZONE source.timezone) - (source.starts_at AT TIME ZONE source.timezone);
+
+  INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id, organization_id)
+  VALUES (
+    new_name,
+    new_starts_at,
+    shift_local_time(source.ends_at, delta, source.timezone),
+    source.location,
+    source.timezone,
+    auth.uid(),
+    source.organization_id
+  )
+  RETURNING id INTO new_event;
+
+  FOR source_position IN
+    SELECT * FROM volunteer_positions WHERE event_id = source_event
+  LOOP
+    INSERT INTO volunteer_positions (event_id, name, needed, description, skill_level, latitude, longitude, user_id)
+    VALUES (
+      new_event,
+      source_position.name,
+      source_position.needed,
+      source_position.description,
+      source_position.skill_level,
+      source_position.latitude,
+      source_position.longitude,
+      auth.uid()
+    )
+    RETURNING id INTO new_position;
+
+    INSERT INTO position_slots (position_id, starts_at, ends_at, needed)
+    SELECT
+      new_position,
+      shift_local_time(starts_at, delta, source.timezone),
+      shift_local_time(ends_at, delta, source.timezone),
+      needed
+    FROM position_slots
+    WHERE position_id = source_position.id;
+
+    -- Slots are matched again from the shifted start times
+    IF include_signups THEN
+      INSERT INTO volunteer_signups (position_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived)
+      SELECT
+        new_position,
+        volunteer_id,
+        volunteer_name,
+        phone_number,
+        shift_local_time(starts_at, delta, source.timezone),
+        shift_local_time(ends_at, delta, source.timezone),
+        false
+      FROM volunteer_signups
+      WHERE position_id = source_position.id;
+    END IF;
+  END LOOP;
+
+  RETURN new_event;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS create_event_series(
+  text, text, text, time, integer, text, integer, integer[], integer, integer, date, date, date[], date[], uuid, uuid
+);
+
+CREATE OR REPLACE FUNCTION create_event_series(
+  series_organization uuid,
+  series_name text,
+  series_location text,
+  series_timezone text,
+  start_time time,
+  duration_minutes integer,
+  frequency text,
+  repeat_interval integer,
+  weekdays integer[],
+  month_week integer,
+  month_weekday integer,
+  starts_on date,
+  until date,
+  exceptions date[],
+  occurrence_dates date[],
+  source_template uuid DEFAULT NULL,
+  source_event uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_series uuid;
+  new_event uuid;
+  occurrence date;
+  occurrence_start timestamptz;
+  occurrence_end timestamptz;
+BEGIN
+  IF cardinality(occurrence_dates) = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule has no occurrences';
+  END IF;
+
+  INSERT INTO event_series (
+    name, frequency, repeat_interval, weekdays, month_week, month_weekday,
+    starts_on, until, exceptions, timezone, start_time, duration_minutes, location, organization_id
+  )
+  VALUES (
+    series_name,
+    create_event_series.frequency,
+    create_event_series.repeat_interval,
+    create_event_series.weekdays,
+    create_event_series.month_week,
+    create_event_series.month_weekday,
+    create_event_series.starts_on,
+    create_event_series.until,
+    create_event_series.exceptions,
+    series_timezone,
+    create_event_series.start_time,
+    create_event_series.duration_minutes,
+    series_location,
+    series_organization
+  )
+  RETURNING id INTO new_series;
+
+  FOREACH occurrence IN ARRAY occurrence_dates
+  LOOP
+    occurrence_start := (occurrence + create_event_series.start_time) AT TIME ZONE series_timezone;
+    occurrence_end := shift_local_time(
+      occurrence_start, make_interval(mins => create_event_series.duration_minutes), series_timezone
+    );
+
+    IF source_template IS NOT NULL THEN
+      new_event := create_event_from_template(source_template, series_name, occurrence_start);
+    ELSIF source_event IS NOT NULL THEN
+      new_event := duplicate_event(source_event, series_name, occurrence_start, false);
+    ELSE
+      INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id, organization_id)
+      VALUES (series_name, occurrence_start, occurrence_end, series_location, series_timezone, auth.uid(), series_organization)
+      RETURNING id INTO new_event;
+    END IF;
+
+    -- The series' own place and times win over those of the source
+    UPDATE events
+    SET location = series_location,
+        timezone = series_timezone,
+        ends_at = occurrence_end,
+        series_id = new_series,
+        series_date = occurrence
+    WHERE id = new_event;
+  END LOOP;
+
+  RETURN new_series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_event_series_from(
+  target_event uuid,
+  new_name text,
+  new_location text,
+  new_timezone text,
+  new_start_time time,
+  new_duration_minutes integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target events;
+  series event_series;
+  following_series uuid;
+  occurrence events;
+  new_start timestamptz;
+  delta interval;
+BEGIN
+  SELECT * INTO target FROM events WHERE id = target_event;
+  IF NOT FOUND OR target.series_id IS NULL THEN
+    RAISE EXCEPTION 'Event % is not part of a series', target_event;
+  END IF;
+
+  SELECT * INTO series FROM event_series WHERE id = target.series_id FOR UPDATE;
+
+  IF target.series_date > series.starts_on THEN
+    INSERT INTO event_series (
+      name, frequency, repeat_interval, weekdays, month_week, month_weekday,
+      starts_on, until, exceptions, timezone, start_time, duration_minutes, location, organization_id
+    )
+    VALUES (
+      new_name, series.frequency, series.repeat_interval, series.weekdays, series.month_week,
+      series.month_weekday, target.series_date, series.until, series.exceptions, new_timezone,
+      new_start_time, new_duration_minutes, new_location, series.organization_id
+    )
+    RETURNING id INTO following_series;
+
+    UPDATE event_series
+    SET until = target.series_date - 1
+    WHERE id = series.id;
+
+    UPDATE events
+    SET series_id = following_series
+    WHERE series_id = series.id
+      AND series_date >= target.series_date;
+  ELSE
+    following_series := series.id;
+
+    UPDATE event_series
+    SET name = new_name,
+        location = new_location,
+        timezone = new_timezone,
+        start_time = new_start_time,
+        duration_minutes = new_duration_minutes
+    WHERE id = series.id;
+  END IF;
+
+  FOR occurrence IN
+    SELECT * FROM events WHERE series_id = following_series
+  LOOP
+    new_start := (occurrence.series_date + new_start_time) AT TIME ZONE new_timezone;
+    delta := new_start - occurrence.starts_at;
+
+    UPDATE events
+    SET name = new_name,
+        location = new_location,
+        timezone = new_timezone,
+        starts_at = new_start,
+        ends_at = shift_local_time(new_start, make_interval(mins => new_duration_minutes), new_timezone)
+    WHERE id = occurrence.id;
+
+    IF delta <> interval '0' THEN
+      UPDATE position_slots
+      SET starts_at = starts_at + delta, ends_at = ends_at + delta
+      WHERE position_id IN (SELECT id FROM volunteer_positions WHERE event_id = occurrence.id);
+
+      UPDATE volunteer_signups
+      SET starts_at = starts_at + delta, ends_at = ends_at + delta
+      WHERE position_id IN (SELECT id FROM volunteer_positions WHERE event_id = occurrence.id);
+
+      UPDATE position_waitlist
+      SET starts_at = starts_at + delta, ends_at = ends_at + delta
+      WHERE position_id IN (SELECT id FROM volunteer_positions WHERE event_id = occurrence.id);
+    END IF;
+  END LOOP;
+
+  RETURN following_series;
+END;
+$$;
+
+-- The trash belongs to the organization
+
+DROP FUNCTION IF EXISTS trash_retention(uuid);
+
+CREATE OR REPLACE FUNCTION trash_retention(target_organization uuid)
+RETURNS interval
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT make_interval(days => COALESCE(
+    (SELECT trash_retention_days FROM organizations WHERE id = target_organization), 30
+  ));
+$$;
+
+DROP FUNCTION IF EXISTS trash_item_owner(text, uuid);
+
+-- Organization of the event an item belongs to, trashed or not
+CREATE OR REPLACE FUNCTION trash_item_organization(item_type text, item_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT events.organization_id
+  FROM events
+  WHERE item_type = 'event' AND events.id = item_id
+  UNION ALL
+  SELECT events.organization_id
+  FROM volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE item_type = 'position' AND volunteer_positions.id = item_id
+  UNION ALL
+  SELECT events.organization_id
+  FROM volunteer_signups
+  JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE item_type = 'signup' AND volunteer_signups.id = item_id;
+$$;
+
+CREATE OR REPLACE FUNCTION move_to_trash(item_type text, item_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz := now();
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+
+  -- Top down, so the status checks on signups see their event already gone
+  IF item_type = 'event' THEN
+    UPDATE events SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_positions SET deleted_at = stamp
+    WHERE event_id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE deleted_at IS NULL
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_positions SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE position_id = item_id AND deleted_at IS NULL;
+  ELSE
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+  END IF;
+
+  RETURN stamp;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_from_trash(item_type text, item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz;
+  parent_trashed boolean;
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+
+  IF item_type = 'event' THEN
+    SELECT deleted_at, false INTO stamp, parent_trashed
+    FROM events WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    SELECT volunteer_positions.deleted_at, events.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = item_id;
+  ELSE
+    SELECT volunteer_signups.deleted_at, volunteer_positions.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_signups
+    JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+    WHERE volunteer_signups.id = item_id;
+  END IF;
+
+  IF stamp IS NULL THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+  IF parent_trashed THEN
+    RAISE EXCEPTION 'Restore the % it belongs to first', CASE item_type WHEN 'position' THEN 'event' ELSE 'position' END;
+  END IF;
+
+  -- Bottom up, the reverse of move_to_trash
+  IF item_type = 'event' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE deleted_at = stamp
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE event_id = item_id AND deleted_at = stamp;
+
+    UPDATE events SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE position_id = item_id AND deleted_at = stamp;
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSE
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE id = item_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_from_trash(item_type text, item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+
+  IF item_type = 'event' THEN
+    DELETE FROM events WHERE id = item_id AND deleted_at IS NOT NULL;
+  ELSIF item_type = 'position' THEN
+    DELETE FROM volunteer_positions WHERE id = item_id AND deleted_at IS NOT NULL;
+  ELSE
+    DELETE FROM volunteer_signups WHERE id = item_id AND deleted_at IS NOT NULL;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS list_trash();
+
+CREATE OR REPLACE FUNCTION list_trash(target_organization uuid)
+RETURNS TABLE (
+  item_type text,
+  item_id uuid,
+  name text,
+  detail text,
+  signup_count integer,
+  deleted_at timestamptz,
+  purge_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH retention AS (
+    SELECT trash_retention(target_organization) AS period
+    WHERE is_organization_member(target_organization)
+  )
+  SELECT 'event', events.id, events.name, events.location,
+    (
+      SELECT count(*)::integer
+      FROM volunteer_signups
+      JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+      WHERE volunteer_positions.event_id = events.id
+        AND volunteer_signups.deleted_at = events.deleted_at
+    ),
+    events.deleted_at, events.deleted_at + retention.period
+  FROM events, retention
+  WHERE events.organization_id = target_organization
+    AND events.deleted_at IS NOT NULL
+  UNION ALL
+  SELECT 'position', volunteer_positions.id, volunteer_positions.name, events.name,
+    (
+      SELECT count(*)::integer
+      FROM volunteer_signups
+      WHERE volunteer_signups.position_id = volunteer_positions.id
+        AND volunteer_signups.deleted_at = volunteer_positions.deleted_at
+    ),
+    volunteer_positions.deleted_at, volunteer_positions.deleted_at + retention.period
+  FROM volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id, retention
+  WHERE events.organization_id = target_organization
+    AND volunteer_positions.deleted_at IS NOT NULL
+    AND volunteer_positions.deleted_at IS DISTINCT FROM events.deleted_at
+  UNION ALL
+  SELECT 'signup', volunteer_signups.id, volunteer_signups.volunteer_name,
+    volunteer_positions.name || ' · ' || events.name,
+    0,
+    volunteer_signups.deleted_at, volunteer_signups.deleted_at + retention.period
+  FROM volunteer_signups
+  JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+  JOIN events ON events.id = volunteer_positions.event_id, retention
+  WHERE events.organization_id = target_organization
+    AND volunteer_signups.deleted_at IS NOT NULL
+    AND volunteer_signups.deleted_at IS DISTINCT FROM volunteer_positions.deleted_at
+  ORDER BY 6 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer := 0;
+  removed integer;
+BEGIN
+  DELETE FROM events
+  WHERE deleted_at < now() - trash_retention(events.organization_id);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  purged := purged + removed;
+
+  DELETE FROM volunteer_positions
+  USING events
+  WHERE events.id = volunteer_positions.event_id
+    AND volunteer_positions.deleted_at < now() - trash_retention(events.organization_id);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  purged := purged + removed;
+
+  DELETE FROM volunteer_signups
+  USING volunteer_positions
+  JOIN events ON events.id = volunteer_positions.event_id
+  WHERE volunteer_positions.id = volunteer_signups.position_id
+    AND volunteer_signups.deleted_at < now() - trash_retention(events.organization_id);
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  purged := purged + removed;
+
+  RETURN purged;
+END;
+$$;
+
+DROP TABLE IF EXISTS trash_settings;
+
+-- The audit log belongs to the organization too
+
+ALTER TABLE audit_log
+  ADD COLUMN IF NOT EXISTS organization_id uuid;
+
+CREATE INDEX IF NOT EXISTS audit_log_organization_id_idx ON audit_log(organization_id);
+
+ALTER TABLE audit_log DISABLE TRIGGER audit_log_append_only;
+
+UPDATE audit_log SET organization_id = organizations.id
+FROM organizations WHERE organizations.created_by = audit_log.owner_id;
+
+ALTER TABLE audit_log ENABLE TRIGGER audit_log_append_only;
+
+DROP POLICY IF EXISTS "Users can read the audit log of their own events" ON audit_log;
+
+CREATE POLICY "Members can read the audit log of their organization's events"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  current_row jsonb;
+  changed text[] := '{}';
+  target_event uuid;
+  target_owner uuid;
+  target_organization uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+  current_row := coalesce(new_row, old_row);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO changed
+    FROM jsonb_each(new_row)
+    WHERE key NOT IN ('filled', 'served_minutes')
+      AND new_row -> key IS DISTINCT FROM old_row -> key;
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_TABLE_NAME = 'events' THEN
+    target_event := (current_row ->> 'id')::uuid;
+    target_owner := (current_row ->> 'user_id')::uuid;
+    target_organization := (current_row ->> 'organization_id')::uuid;
+  ELSIF TG_TABLE_NAME = 'volunteer_positions' THEN
+    target_event := (current_row ->> 'event_id')::uuid;
+    SELECT user_id, organization_id INTO target_owner, target_organization
+    FROM events WHERE id = target_event;
+
+    -- Part of a purge that already removed the event
+    IF target_organization IS NULL THEN
+      SELECT owner_id, organization_id INTO target_owner, target_organization
+      FROM audit_log
+      WHERE table_name = 'events' AND row_id = target_event
+      ORDER BY id DESC
+      LIMIT 1;
+    END IF;
+  ELSE
+    SELECT events.id, events.user_id, events.organization_id
+    INTO target_event, target_owner, target_organization
+    FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = (current_row ->> 'position_id')::uuid;
+
+    -- Part of a purge that already removed the position
+    IF target_event IS NULL THEN
+      SELECT event_id, owner_id, organization_id INTO target_event, target_owner, target_organization
+      FROM audit_log
+      WHERE table_name = 'volunteer_positions'
+        AND row_id = (current_row ->> 'position_id')::uuid
+      ORDER BY id DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    actor_id, actor_email, table_name, row_id, event_id, owner_id, organization_id,
+    action, old_values, new_values, changed_columns
+  )
+  VALUES (
+    auth.uid(), auth.jwt() ->> 'email', TG_TABLE_NAME, (current_row ->> 'id')::uuid,
+    target_event, target_owner, target_organization, lower(TG_OP), old_row, new_row, changed
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,785 @@
+/*
+  # Roles within an organization
+
+  1. Changes
+    - Add `role` to `organization_members`: `owner`, `coordinator`,
+      `captain` (zone captain) or `viewer`. Each role can do everything the
+      roles after it can.
+      - Viewers can read everything in the organization
+      - Captains can also check volunteers in and out on the positions they
+        captain
+      - Coordinators can also change events, positions, volunteers and
+        everything under them
+      - Owners can also delete events and manage the organization and its
+        members
+    - The creator of each organization becomes its owner. Other existing
+      members become coordinators.
+    - Add `captain_id` (uuid, references auth.users) to `volunteer_positions`
+    - `add_organization_member` takes the new member's role
+    - An organization always keeps at least one owner
+
+  2. New Functions
+    - `has_organization_role` tells whether the caller holds a role, or a
+      higher one, in an organization
+    - `can_work_position` tells whether the caller may check volunteers in
+      and out on a position
+
+  3. Security
+    - Insert, update and delete policies check the caller's role instead of
+      plain membership. Read policies are unchanged.
+    - Captains update signups through the same policy as coordinators, and
+      a trigger rejects any change of theirs other than the check-in and
+      check-out times
+    - The trash functions check the role too: only owners can trash or purge
+      events, and coordinators everything else
+*/
+
+ALTER TABLE organization_members
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'coordinator'
+  CHECK (role IN ('owner', 'coordinator', 'captain', 'viewer'));
+
+UPDATE organization_members SET role = 'owner'
+FROM organizations
+WHERE organizations.id = organization_members.organization_id
+  AND organizations.created_by = organization_members.user_id;
+
+-- Organizations whose creator is gone are handed to their earliest member
+UPDATE organization_members SET role = 'owner'
+WHERE (organization_id, user_id) IN (
+  SELECT DISTINCT ON (organization_id) organization_id, user_id
+  FROM organization_members
+  WHERE organization_id NOT IN (
+    SELECT organization_id FROM organization_members WHERE role = 'owner'
+  )
+  ORDER BY organization_id, created_at
+);
+
+ALTER TABLE volunteer_positions
+  ADD COLUMN IF NOT EXISTS captain_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS volunteer_positions_captain_id_idx ON volunteer_positions(captain_id);
+
+-- Roles rank viewer < captain < coordinator < owner
+CREATE OR REPLACE FUNCTION has_organization_role(target_organization uuid, required_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = target_organization
+      AND user_id = auth.uid()
+      AND array_position(ARRAY['viewer', 'captain', 'coordinator', 'owner'], role)
+        >= array_position(ARRAY['viewer', 'captain', 'coordinator', 'owner'], required_role)
+  );
+$$;
+
+-- Coordinators work every position, captains only the ones they captain
+CREATE OR REPLACE FUNCTION can_work_position(target_position uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = target_position
+      AND (
+        has_organization_role(events.organization_id, 'coordinator')
+        OR (
+          volunteer_positions.captain_id = auth.uid()
+          AND has_organization_role(events.organization_id, 'captain')
+        )
+      )
+  );
+$$;
+
+-- Creators own their organizations
+
+CREATE OR REPLACE FUNCTION create_personal_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_organization uuid;
+BEGIN
+  INSERT INTO organizations (name, created_by)
+  VALUES (COALESCE(NULLIF(split_part(NEW.email, '@', 1), ''), 'My') || '''s organization', NEW.id)
+  RETURNING id INTO new_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (new_organization, NEW.id, COALESCE(NEW.email, ''), 'owner');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_organization(organization_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_organization uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create an organization';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(organization_name), auth.uid())
+  RETURNING id INTO new_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (new_organization, auth.uid(), COALESCE(auth.jwt() ->> 'email', ''), 'owner');
+
+  RETURN new_organization;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS add_organization_member(uuid, text);
+
+CREATE OR REPLACE FUNCTION add_organization_member(
+  target_organization uuid,
+  member_email text,
+  member_role text DEFAULT 'coordinator'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member auth.users;
+BEGIN
+  IF NOT is_organization_member(target_organization) THEN
+    RAISE EXCEPTION 'Organization % not found', target_organization;
+  END IF;
+  IF NOT has_organization_role(target_organization, 'owner') THEN
+    RAISE EXCEPTION 'Only owners can add members';
+  END IF;
+
+  SELECT * INTO member FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account uses %. Ask them to sign up first.', trim(member_email);
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (target_organization, member.id, member.email, member_role)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% is already a member', member.email;
+  END IF;
+END;
+$$;
+
+-- An organization always keeps at least one owner, unless the organization
+-- or the owner's account is being deleted. Runs as its owner to look up the
+-- account.
+CREATE OR REPLACE FUNCTION keep_last_organization_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.role = 'owner' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.role = 'owner'
+    AND EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id)
+    AND EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = OLD.organization_id
+        AND user_id <> OLD.user_id
+        AND role = 'owner'
+    )
+  THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER organization_members_keep_last_owner
+  BEFORE UPDATE OF role ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_last_organization_member();
+
+-- Organizations and their members
+
+DROP POLICY IF EXISTS "Members can update their organizations" ON organizations;
+DROP POLICY IF EXISTS "Members can remove members of their organizations" ON organization_members;
+
+CREATE POLICY "Owners can update their organizations"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(id, 'owner'));
+
+CREATE POLICY "Owners can change the roles of members"
+  ON organization_members
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'owner'));
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON organization_members
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() OR has_organization_role(organization_id, 'owner'));
+
+-- Events, templates, series and volunteers
+
+DROP POLICY IF EXISTS "Members can insert their organization's events" ON events;
+DROP POLICY IF EXISTS "Members can update their organization's events" ON events;
+DROP POLICY IF EXISTS "Members can delete their organization's events" ON events;
+
+CREATE POLICY "Coordinators can insert their organization's events"
+  ON events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can update their organization's events"
+  ON events
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Owners can delete their organization's events"
+  ON events
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'owner'));
+
+DROP POLICY IF EXISTS "Members can insert their organization's volunteers" ON volunteers;
+DROP POLICY IF EXISTS "Members can update their organization's volunteers" ON volunteers;
+DROP POLICY IF EXISTS "Members can delete their organization's volunteers" ON volunteers;
+
+CREATE POLICY "Coordinators can insert their organization's volunteers"
+  ON volunteers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can update their organization's volunteers"
+  ON volunteers
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can delete their organization's volunteers"
+  ON volunteers
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+DROP POLICY IF EXISTS "Members can insert their organization's templates" ON event_templates;
+DROP POLICY IF EXISTS "Members can update their organization's templates" ON event_templates;
+DROP POLICY IF EXISTS "Members can delete their organization's templates" ON event_templates;
+
+CREATE POLICY "Coordinators can insert their organization's templates"
+  ON event_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can update their organization's templates"
+  ON event_templates
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can delete their organization's templates"
+  ON event_templates
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+DROP POLICY IF EXISTS "Members can insert their organization's series" ON event_series;
+DROP POLICY IF EXISTS "Members can update their organization's series" ON event_series;
+DROP POLICY IF EXISTS "Members can delete their organization's series" ON event_series;
+
+CREATE POLICY "Coordinators can insert their organization's series"
+  ON event_series
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can update their organization's series"
+  ON event_series
+  FOR UPDATE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+CREATE POLICY "Coordinators can delete their organization's series"
+  ON event_series
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+-- Rows that belong to an event
+
+DROP POLICY IF EXISTS "Members can insert volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Members can update volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Members can delete volunteer positions for their events" ON volunteer_positions;
+
+CREATE POLICY "Coordinators can insert volunteer positions for their events"
+  ON volunteer_positions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can update volunteer positions for their events"
+  ON volunteer_positions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = volunteer_positions.event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can delete volunteer positions for their events"
+  ON volunteer_positions
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = volunteer_positions.event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can insert volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Members can update volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Members can delete volunteer signups for their events" ON volunteer_signups;
+
+CREATE POLICY "Coordinators can insert volunteer signups for their events"
+  ON volunteer_signups
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators and captains can update volunteer signups for their events"
+  ON volunteer_signups
+  FOR UPDATE
+  TO authenticated
+  USING (can_work_position(position_id));
+
+CREATE POLICY "Coordinators can delete volunteer signups for their events"
+  ON volunteer_signups
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = volunteer_signups.position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+-- Captains share the update policy above, so anything beyond checking in and
+-- out is refused here. `arrived` and `served_minutes` follow the times.
+CREATE OR REPLACE FUNCTION limit_captain_signup_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attendance text[] := ARRAY['checked_in_at', 'checked_out_at', 'arrived', 'served_minutes'];
+BEGIN
+  -- Server-side jobs have no caller
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = OLD.position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+    AND to_jsonb(NEW) - attendance IS DISTINCT FROM to_jsonb(OLD) - attendance
+  THEN
+    RAISE EXCEPTION 'Zone captains can only check volunteers in and out';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER volunteer_signups_limit_captains
+  BEFORE UPDATE ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION limit_captain_signup_changes();
+
+DROP POLICY IF EXISTS "Members can insert position matches for their events" ON import_position_matches;
+DROP POLICY IF EXISTS "Members can update position matches for their events" ON import_position_matches;
+
+CREATE POLICY "Coordinators can insert position matches for their events"
+  ON import_position_matches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can update position matches for their events"
+  ON import_position_matches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_position_matches.event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can insert import batches for their events" ON import_batches;
+DROP POLICY IF EXISTS "Members can update import batches for their events" ON import_batches;
+DROP POLICY IF EXISTS "Members can delete import batches for their events" ON import_batches;
+
+CREATE POLICY "Coordinators can insert import batches for their events"
+  ON import_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can update import batches for their events"
+  ON import_batches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can delete import batches for their events"
+  ON import_batches
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = import_batches.event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can insert slots for their events" ON position_slots;
+DROP POLICY IF EXISTS "Members can update slots for their events" ON position_slots;
+DROP POLICY IF EXISTS "Members can delete slots for their events" ON position_slots;
+
+CREATE POLICY "Coordinators can insert slots for their events"
+  ON position_slots
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can update slots for their events"
+  ON position_slots
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can delete slots for their events"
+  ON position_slots
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_slots.position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can insert waitlist entries for their events" ON position_waitlist;
+DROP POLICY IF EXISTS "Members can update waitlist entries for their events" ON position_waitlist;
+DROP POLICY IF EXISTS "Members can delete waitlist entries for their events" ON position_waitlist;
+
+CREATE POLICY "Coordinators can insert waitlist entries for their events"
+  ON position_waitlist
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can update waitlist entries for their events"
+  ON position_waitlist
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can delete waitlist entries for their events"
+  ON position_waitlist
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_waitlist.position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can log promotions for their events" ON waitlist_promotions;
+
+CREATE POLICY "Coordinators can log promotions for their events"
+  ON waitlist_promotions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = position_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can issue certificates for their volunteers" ON hours_certificates;
+DROP POLICY IF EXISTS "Members can revoke certificates for their volunteers" ON hours_certificates;
+
+CREATE POLICY "Coordinators can issue certificates for their volunteers"
+  ON hours_certificates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id = volunteer_id
+      AND has_organization_role(volunteers.organization_id, 'coordinator')
+    )
+  );
+
+CREATE POLICY "Coordinators can revoke certificates for their volunteers"
+  ON hours_certificates
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id = hours_certificates.volunteer_id
+      AND has_organization_role(volunteers.organization_id, 'coordinator')
+    )
+  );
+
+-- Only owners delete events, from the trash too
+
+CREATE OR REPLACE FUNCTION move_to_trash(item_type text, item_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz := now();
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+  IF NOT has_organization_role(
+    trash_item_organization(item_type, item_id),
+    CASE item_type WHEN 'event' THEN 'owner' ELSE 'coordinator' END
+  ) THEN
+    RAISE EXCEPTION 'Your role does not allow deleting this %', item_type;
+  END IF;
+
+  -- Top down, so the status checks on signups see their event already gone
+  IF item_type = 'event' THEN
+    UPDATE events SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_positions SET deleted_at = stamp
+    WHERE event_id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE deleted_at IS NULL
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_positions SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE position_id = item_id AND deleted_at IS NULL;
+  ELSE
+    UPDATE volunteer_signups SET deleted_at = stamp
+    WHERE id = item_id AND deleted_at IS NULL;
+  END IF;
+
+  RETURN stamp;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_from_trash(item_type text, item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz;
+  parent_trashed boolean;
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+  IF NOT has_organization_role(trash_item_organization(item_type, item_id), 'coordinator') THEN
+    RAISE EXCEPTION 'Your role does not allow restoring this %', item_type;
+  END IF;
+
+  IF item_type = 'event' THEN
+    SELECT deleted_at, false INTO stamp, parent_trashed
+    FROM events WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    SELECT volunteer_positions.deleted_at, events.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = item_id;
+  ELSE
+    SELECT volunteer_signups.deleted_at, volunteer_positions.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_signups
+    JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+    WHERE volunteer_signups.id = item_id;
+  END IF;
+
+  IF stamp IS NULL THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+  IF parent_trashed THEN
+    RAISE EXCEPTION 'Restore the % it belongs to first', CASE item_type WHEN 'position' THEN 'event' ELSE 'position' END;
+  END IF;
+
+  -- Bottom up, the reverse of move_to_trash
+  IF item_type = 'event' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE deleted_at = stamp
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE event_id = item_id AND deleted_at = stamp;
+
+    UPDATE events SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE position_id = item_id AND deleted_at = stamp;
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSE
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE id = item_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_from_trash(item_type text, item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+  IF NOT has_organization_role(
+    trash_item_organization(item_type, item_id),
+    CASE item_type WHEN 'event' THEN 'owner' ELSE 'coordinator' END
+  ) THEN
+    RAISE EXCEPTION 'Your role does not allow deleting this %', item_type;
+  END IF;
+
+  IF item_type = 'event' THEN
+    DELETE FROM events WHERE id = item_id AND deleted_at IS NOT NULL;
+  ELSIF item_type = 'position' THEN
+    DELETE FROM volunteer_positions WHERE id = item_id AND deleted_at IS NOT NULL;
+  ELSE
+    DELETE FROM volunteer_signups WHERE id = item_id AND deleted_at IS NOT NULL;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+END;
+$$;
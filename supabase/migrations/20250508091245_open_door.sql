@@ -0,0 +1,139 @@
+/*
+  # Email invitations
+
+  1. New Tables
+    - `organization_invitations`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `email` (text, lower-cased address the invitation was sent to)
+      - `role` (text, role the invitee joins with)
+      - `token` (text, unique, secret part of the invitation link)
+      - `invited_by` (uuid, references auth.users)
+      - `expires_at` (timestamptz, a week after the invitation was sent)
+      - `accepted_at` (timestamptz, null while the invitation is pending)
+      - `accepted_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+    - An organization has at most one pending invitation per address
+
+  2. New Functions
+    - `invitation_details` looks up an invitation by its token so the
+      invitee can see what they are joining before signing in
+    - `accept_invitation` adds the signed-in invitee to the organization with
+      the invited role. The account's email address must match the
+      invitation's.
+
+  3. Changes
+    - Drop `add_organization_member`: invitations replace adding existing
+      accounts directly
+
+  4. Security
+    - Enable RLS on `organization_invitations` table
+    - Only owners can read, send and revoke invitations. Revoking deletes
+      the invitation.
+*/
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL CHECK (email = lower(trim(email)) AND email <> ''),
+  role text NOT NULL DEFAULT 'coordinator'
+    CHECK (role IN ('owner', 'coordinator', 'captain', 'viewer')),
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS organization_invitations_pending_idx
+  ON organization_invitations(organization_id, email)
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can read their organization's invitations"
+  ON organization_invitations
+  FOR SELECT
+  TO authenticated
+  USING (has_organization_role(organization_id, 'owner'));
+
+CREATE POLICY "Owners can send invitations"
+  ON organization_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_organization_role(organization_id, 'owner') AND invited_by = auth.uid());
+
+CREATE POLICY "Owners can revoke invitations"
+  ON organization_invitations
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'owner'));
+
+-- Open to signed-out visitors: the token is the secret
+CREATE OR REPLACE FUNCTION invitation_details(invitation_token text)
+RETURNS TABLE (
+  organization_name text,
+  email text,
+  role text,
+  expires_at timestamptz,
+  accepted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organizations.name, invitations.email, invitations.role,
+    invitations.expires_at, invitations.accepted_at
+  FROM organization_invitations invitations
+  JOIN organizations ON organizations.id = invitations.organization_id
+  WHERE invitations.token = invitation_token;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_invitation(invitation_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation organization_invitations;
+  caller_email text := lower(COALESCE(auth.jwt() ->> 'email', ''));
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invitation';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE token = invitation_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is not valid. It may have been revoked.';
+  END IF;
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+  END IF;
+  IF caller_email <> invitation.email THEN
+    RAISE EXCEPTION 'This invitation is for %. Sign in with that address to accept it.', invitation.email;
+  END IF;
+
+  -- Existing members take the invited role
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (invitation.organization_id, auth.uid(), caller_email, invitation.role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE organization_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = invitation.id;
+
+  RETURN invitation.organization_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS add_organization_member(uuid, text, text);
@@ -0,0 +1,251 @@
+/*
+  # Merge duplicate volunteer profiles
+
+  1. New Tables
+    - `volunteer_duplicate_dismissals`
+      - `organization_id` (uuid, references organizations)
+      - `volunteer_a` / `volunteer_b` (uuid, references volunteers, the pair
+        a coordinator marked as different people, lower id first)
+      - `dismissed_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Relinking a signup to another profile no longer counts as changing the
+      assignment, so merges can reach signups of closed and archived events
+
+  3. New Functions
+    - `merge_volunteers` folds duplicate profiles into one: their signups,
+      waitlist entries and certificates move to the kept profile, which
+      fills its blanks and gains their tags, and the duplicates are deleted.
+      Signups of events that are not closed or archived take the kept
+      profile's name and phone number. Where the person now holds the same
+      position twice for overlapping times, the extra signups go to the
+      trash, which frees their places in `filled`.
+
+  4. Security
+    - Enable RLS on `volunteer_duplicate_dismissals` table
+    - Members can read the organization's dismissals, coordinators can add
+      and remove them
+    - `merge_volunteers` runs as its owner so it can relink trashed signups
+      too. It checks that the caller is a coordinator of the organization.
+*/
+
+CREATE OR REPLACE FUNCTION enforce_event_status_on_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  event_status text;
+  assignment_changed boolean;
+BEGIN
+  -- Purging something already in the trash
+  IF TG_OP = 'DELETE' AND OLD.deleted_at IS NOT NULL THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    event_status := position_event_status(OLD.position_id);
+  ELSE
+    event_status := position_event_status(NEW.position_id);
+  END IF;
+
+  -- The profile link is not part of the assignment, so merging duplicate
+  -- profiles can relink signups of closed events
+  assignment_changed := TG_OP <> 'UPDATE' OR (
+    NEW.position_id, NEW.slot_id, NEW.volunteer_name,
+    NEW.phone_number, NEW.starts_at, NEW.ends_at, NEW.deleted_at
+  ) IS DISTINCT FROM (
+    OLD.position_id, OLD.slot_id, OLD.volunteer_name,
+    OLD.phone_number, OLD.starts_at, OLD.ends_at, OLD.deleted_at
+  );
+
+  IF assignment_changed AND event_status IN ('closed', 'archived') THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', event_status
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  -- A moved signup must also be allowed to leave its old event
+  IF TG_OP = 'UPDATE' AND NEW.position_id <> OLD.position_id
+    AND position_event_status(OLD.position_id) IN ('closed', 'archived')
+  THEN
+    RAISE EXCEPTION 'Assignments are frozen because the event is %', position_event_status(OLD.position_id)
+      USING ERRCODE = 'PT423';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Runs before sync_signup_arrival, so older clients that only flip
+    -- `arrived` count as checking in too
+    IF OLD.checked_in_at IS NULL AND (NEW.checked_in_at IS NOT NULL OR (NEW.arrived AND NOT OLD.arrived))
+      AND event_status <> 'live'
+    THEN
+      RAISE EXCEPTION 'Check-in is only open while the event is live'
+        USING ERRCODE = 'PT423';
+    END IF;
+
+    IF (NEW.checked_in_at, NEW.checked_out_at, NEW.arrived)
+        IS DISTINCT FROM (OLD.checked_in_at, OLD.checked_out_at, OLD.arrived)
+      AND event_status NOT IN ('live', 'closed')
+    THEN
+      RAISE EXCEPTION 'Attendance can only be changed once the event is live'
+        USING ERRCODE = 'PT423';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS volunteer_duplicate_dismissals (
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  volunteer_a uuid REFERENCES volunteers(id) ON DELETE CASCADE NOT NULL,
+  volunteer_b uuid REFERENCES volunteers(id) ON DELETE CASCADE NOT NULL,
+  dismissed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (volunteer_a, volunteer_b),
+  CONSTRAINT volunteer_duplicate_dismissals_order CHECK (volunteer_a < volunteer_b)
+);
+
+CREATE INDEX IF NOT EXISTS volunteer_duplicate_dismissals_organization_id_idx
+  ON volunteer_duplicate_dismissals(organization_id);
+
+ALTER TABLE volunteer_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their organization's dismissed duplicates"
+  ON volunteer_duplicate_dismissals
+  FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Coordinators can dismiss duplicates in their organization"
+  ON volunteer_duplicate_dismissals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    dismissed_by = auth.uid()
+    AND has_organization_role(organization_id, 'coordinator')
+    AND EXISTS (
+      SELECT 1 FROM volunteers
+      WHERE volunteers.id IN (volunteer_a, volunteer_b)
+      AND volunteers.organization_id = volunteer_duplicate_dismissals.organization_id
+      HAVING count(*) = 2
+    )
+  );
+
+CREATE POLICY "Coordinators can undo dismissed duplicates in their organization"
+  ON volunteer_duplicate_dismissals
+  FOR DELETE
+  TO authenticated
+  USING (has_organization_role(organization_id, 'coordinator'));
+
+CREATE OR REPLACE FUNCTION merge_volunteers(primary_volunteer uuid, duplicate_volunteers uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept volunteers;
+  candidate volunteer_signups;
+BEGIN
+  SELECT * INTO kept FROM volunteers WHERE id = primary_volunteer FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_organization_member(kept.organization_id) THEN
+    RAISE EXCEPTION 'No volunteer found with id %', primary_volunteer;
+  END IF;
+  IF NOT has_organization_role(kept.organization_id, 'coordinator') THEN
+    RAISE EXCEPTION 'Your role does not allow merging volunteers';
+  END IF;
+
+  duplicate_volunteers := array_remove(duplicate_volunteers, primary_volunteer);
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(duplicate_volunteers) AS duplicate(id)
+    LEFT JOIN volunteers ON volunteers.id = duplicate.id
+    WHERE volunteers.organization_id IS DISTINCT FROM kept.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Volunteers can only be merged within one organization';
+  END IF;
+
+  -- Blanks are filled from the most recently created duplicate that has them
+  UPDATE volunteers SET
+    phone_number = COALESCE(NULLIF(kept.phone_number, ''), (
+      SELECT phone_number FROM volunteers
+      WHERE id = ANY(duplicate_volunteers) AND phone_number <> ''
+      ORDER BY created_at DESC LIMIT 1
+    ), ''),
+    email = COALESCE(kept.email, (
+      SELECT email FROM volunteers
+      WHERE id = ANY(duplicate_volunteers) AND email IS NOT NULL
+      ORDER BY created_at DESC LIMIT 1
+    )),
+    notes = COALESCE(kept.notes, (
+      SELECT notes FROM volunteers
+      WHERE id = ANY(duplicate_volunteers) AND notes IS NOT NULL
+      ORDER BY created_at DESC LIMIT 1
+    )),
+    tags = ARRAY(
+      SELECT DISTINCT tag FROM (
+        SELECT unnest(kept.tags) AS tag
+        UNION
+        SELECT unnest(tags) FROM volunteers WHERE id = ANY(duplicate_volunteers)
+      ) all_tags
+      ORDER BY tag
+    ),
+    updated_at = now()
+  WHERE id = primary_volunteer
+  RETURNING * INTO kept;
+
+  -- Copies on signups of finished events stay as they were recorded
+  UPDATE volunteer_signups SET
+    volunteer_id = primary_volunteer,
+    volunteer_name = CASE
+      WHEN position_event_status(position_id) IN ('closed', 'archived') THEN volunteer_name
+      ELSE kept.name
+    END,
+    phone_number = CASE
+      WHEN position_event_status(position_id) IN ('closed', 'archived') THEN phone_number
+      ELSE kept.phone_number
+    END
+  WHERE volunteer_id = ANY(duplicate_volunteers);
+
+  -- Walks the signups in the order they are kept in, so each is compared
+  -- only with the ones that stayed. Closed events keep their record as it is.
+  FOR candidate IN
+    SELECT * FROM volunteer_signups
+    WHERE volunteer_id = primary_volunteer
+      AND deleted_at IS NULL
+      AND position_event_status(position_id) NOT IN ('closed', 'archived')
+    ORDER BY checked_in_at IS NULL, created_at, id
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM volunteer_signups other
+      WHERE other.volunteer_id = primary_volunteer
+        AND other.deleted_at IS NULL
+        AND other.id <> candidate.id
+        AND other.position_id = candidate.position_id
+        AND other.starts_at < candidate.ends_at
+        AND candidate.starts_at < other.ends_at
+        AND (other.checked_in_at IS NULL, other.created_at, other.id)
+          < (candidate.checked_in_at IS NULL, candidate.created_at, candidate.id)
+    ) THEN
+      -- The filled counts follow through volunteer_signups_sync_filled
+      PERFORM move_to_trash('signup', candidate.id);
+    END IF;
+  END LOOP;
+
+  UPDATE position_waitlist SET
+    volunteer_id = primary_volunteer,
+    volunteer_name = kept.name,
+    phone_number = kept.phone_number
+  WHERE volunteer_id = ANY(duplicate_volunteers);
+
+  -- Certificates are snapshots, so only their owner changes
+  UPDATE hours_certificates SET volunteer_id = primary_volunteer
+  WHERE volunteer_id = ANY(duplicate_volunteers);
+
+  DELETE FROM volunteers WHERE id = ANY(duplicate_volunteers);
+END;
+$$;
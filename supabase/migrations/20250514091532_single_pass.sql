@@ -0,0 +1,40 @@
+/*
+  # Commit imports in one call
+
+  1. New Functions
+    - `commit_import_batch(batch, signups)` records an import batch and inserts
+      its signups in one transaction, so a failed insert leaves no empty batch
+      behind. `batch` carries the event, file name, email and row counts,
+      `signups` the rows to insert.
+
+  2. Security
+    - Runs with the caller's privileges, so the policies on `import_batches`
+      and `volunteer_signups` still apply
+*/
+
+CREATE OR REPLACE FUNCTION commit_import_batch(batch jsonb, signups jsonb)
+RETURNS import_batches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  committed import_batches;
+BEGIN
+  INSERT INTO import_batches (
+    event_id, user_email, file_name,
+    total_rows, inserted_rows, duplicate_rows, changed_rows, invalid_rows
+  )
+  SELECT event_id, user_email, file_name,
+    total_rows, jsonb_array_length(signups), duplicate_rows, changed_rows, invalid_rows
+  FROM jsonb_populate_record(NULL::import_batches, batch)
+  RETURNING * INTO committed;
+
+  -- Slots are matched from the start times by volunteer_signups_match_slot
+  INSERT INTO volunteer_signups (
+    position_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived, import_batch_id
+  )
+  SELECT position_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, false, committed.id
+  FROM jsonb_populate_recordset(NULL::volunteer_signups, signups);
+
+  RETURN committed;
+END;
+$$;
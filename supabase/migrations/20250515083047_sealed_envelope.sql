@@ -0,0 +1,91 @@
+/*
+  # Send invitations in one call and require a confirmed address to accept
+
+  1. New Functions
+    - `send_invitation` replaces any pending invitation for the address with
+      a new one, in one transaction. The send-invitation edge function calls
+      it and emails the link.
+
+  2. Changes
+    - `accept_invitation` reads the caller's address from `auth.users` and
+      refuses it until it is confirmed. Anyone can sign up with any address,
+      so only a confirmed one proves the invitation reached them.
+*/
+
+-- Runs as the caller, so the policies on organization_invitations keep it to
+-- owners
+CREATE OR REPLACE FUNCTION send_invitation(target_organization uuid, invitee_email text, invitee_role text)
+RETURNS organization_invitations
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  invitation organization_invitations;
+BEGIN
+  DELETE FROM organization_invitations
+  WHERE organization_id = target_organization
+    AND email = lower(trim(invitee_email))
+    AND accepted_at IS NULL;
+
+  INSERT INTO organization_invitations (organization_id, email, role)
+  VALUES (target_organization, lower(trim(invitee_email)), invitee_role)
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_invitation(invitation_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation organization_invitations;
+  caller_email text;
+  confirmed boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept the invitation';
+  END IF;
+
+  -- Anyone can sign up with any address, so only a confirmed one proves the
+  -- invitation reached them
+  SELECT lower(email), email_confirmed_at IS NOT NULL INTO caller_email, confirmed
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  IF NOT confirmed THEN
+    RAISE EXCEPTION 'Confirm your email address before accepting the invitation';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE token = invitation_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is not valid. It may have been revoked.';
+  END IF;
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+  END IF;
+  IF caller_email IS DISTINCT FROM invitation.email THEN
+    RAISE EXCEPTION 'This invitation is for %. Sign in with that address to accept it.', invitation.email;
+  END IF;
+
+  -- Existing members take the invited role
+  INSERT INTO organization_members (organization_id, user_id, email, role)
+  VALUES (invitation.organization_id, auth.uid(), caller_email, invitation.role)
+  ON CONFLICT (organization_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE organization_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = invitation.id;
+
+  RETURN invitation.organization_id;
+END;
+$$;
@@ -0,0 +1,71 @@
+/*
+  # Lock the position while promoting from its waitlist
+
+  1. Changes
+    - `promote_from_waitlist` locks the position before counting free places.
+      Promotions then wait for assignments to the same position, and the
+      other way round, so a free place is handed out only once.
+*/
+
+CREATE OR REPLACE FUNCTION promote_from_waitlist(target_position uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  entry position_waitlist;
+  capacity integer;
+  taken integer;
+  new_signup uuid;
+  promoted integer := 0;
+BEGIN
+  -- Nothing to do while the position itself is being deleted or is in the trash
+  IF NOT EXISTS (SELECT 1 FROM volunteer_positions WHERE id = target_position AND deleted_at IS NULL) THEN
+    RETURN 0;
+  END IF;
+
+  -- Promotions wait here for assignments to the same position, and the
+  -- other way round, so free places are counted only once
+  PERFORM 1 FROM volunteer_positions
+  WHERE id = target_position
+  FOR UPDATE;
+
+  FOR entry IN
+    SELECT * FROM position_waitlist
+    WHERE position_id = target_position
+    ORDER BY priority, created_at
+  LOOP
+    IF entry.slot_id IS NOT NULL THEN
+      SELECT needed INTO capacity FROM position_slots WHERE id = entry.slot_id;
+      SELECT count(*) INTO taken FROM volunteer_signups
+      WHERE slot_id = entry.slot_id AND deleted_at IS NULL;
+    ELSE
+      SELECT needed INTO capacity FROM volunteer_positions WHERE id = target_position;
+      SELECT count(*) INTO taken FROM volunteer_signups
+      WHERE position_id = target_position AND deleted_at IS NULL;
+    END IF;
+    CONTINUE WHEN capacity IS NULL OR taken >= capacity;
+
+    INSERT INTO volunteer_signups (
+      position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived
+    )
+    VALUES (
+      entry.position_id, entry.slot_id, entry.volunteer_id, entry.volunteer_name,
+      entry.phone_number, entry.starts_at, entry.ends_at, false
+    )
+    RETURNING id INTO new_signup;
+
+    INSERT INTO waitlist_promotions (
+      position_id, slot_id, signup_id, volunteer_name, phone_number, waited_since
+    )
+    VALUES (
+      entry.position_id, entry.slot_id, new_signup, entry.volunteer_name,
+      entry.phone_number, entry.created_at
+    );
+
+    DELETE FROM position_waitlist WHERE id = entry.id;
+    promoted := promoted + 1;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
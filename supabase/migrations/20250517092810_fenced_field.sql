@@ -0,0 +1,68 @@
+/*
+  # Limit zones and volunteer locations to the organization
+
+  1. Security
+    - `zones` and `volunteer_locations`, which any signed-in user could read
+      and change, are now limited to the organization of their event or
+      position. Zones not attached to an event are hidden.
+    - Members can read them. Coordinators change zones, and coordinators and
+      captains report volunteer locations for the positions they work.
+*/
+
+DROP POLICY IF EXISTS "Users can read zones" ON zones;
+DROP POLICY IF EXISTS "Users can update zones" ON zones;
+
+CREATE POLICY "Members can read zones for their events"
+  ON zones
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = zones.event_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+CREATE POLICY "Coordinators can update zones for their events"
+  ON zones
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM events
+      WHERE events.id = zones.event_id
+      AND has_organization_role(events.organization_id, 'coordinator')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read volunteer locations" ON volunteer_locations;
+DROP POLICY IF EXISTS "Users can insert volunteer locations" ON volunteer_locations;
+DROP POLICY IF EXISTS "Users can update volunteer locations" ON volunteer_locations;
+
+CREATE POLICY "Members can read volunteer locations for their events"
+  ON volunteer_locations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM volunteer_positions
+      JOIN events ON events.id = volunteer_positions.event_id
+      WHERE volunteer_positions.id = volunteer_locations.position_id
+      AND is_organization_member(events.organization_id)
+    )
+  );
+
+-- Locations are reported from the field, so captains can report them for the
+-- positions they captain
+CREATE POLICY "Coordinators and captains can insert volunteer locations for their events"
+  ON volunteer_locations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_work_position(position_id));
+
+CREATE POLICY "Coordinators and captains can update volunteer locations for their events"
+  ON volunteer_locations
+  FOR UPDATE
+  TO authenticated
+  USING (can_work_position(position_id));
@@ -0,0 +1,250 @@
+/*
+  # Check capacity on every signup write
+
+  1. Changes
+    - Every signup inserted or moved to another position or slot is checked
+      against capacity by a trigger that first locks the position, so two
+      coordinators cannot both take its last place, whichever way the signup
+      is written. It fails with SQLSTATE PT409 (HTTP 409) when the slot, or
+      the position if it has no slots, is already full. Trashed signups do
+      not take a place.
+    - `assign_volunteer` leaves the check to the trigger, skipping it when
+      `allow_overbooking` is set
+    - `duplicate_event` keeps every copied assignment, even where the source
+      was overbooked
+    - The counting functions run as their owner, so counts stay right when
+      the caller may add signups but not edit the position
+*/
+
+CREATE OR REPLACE FUNCTION recount_position_filled(target_position uuid, target_slot uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE volunteer_positions
+  SET filled = (
+    SELECT count(*) FROM volunteer_signups
+    WHERE volunteer_signups.position_id = target_position
+      AND volunteer_signups.deleted_at IS NULL
+  )
+  WHERE id = target_position;
+
+  IF target_slot IS NOT NULL THEN
+    UPDATE position_slots
+    SET filled = (
+      SELECT count(*) FROM volunteer_signups
+      WHERE volunteer_signups.slot_id = target_slot
+        AND volunteer_signups.deleted_at IS NULL
+    )
+    WHERE id = target_slot;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_filled_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM recount_position_filled(OLD.position_id, OLD.slot_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM recount_position_filled(NEW.position_id, NEW.slot_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Runs after volunteer_signups_match_slot (triggers fire in name order), so
+-- signups placed in a slot by their start time are checked against the slot.
+-- assign_volunteer and duplicate_event set app.allow_overbooking to let
+-- signups through anyway.
+CREATE OR REPLACE FUNCTION enforce_signup_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  capacity integer;
+  taken integer;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL OR (
+    TG_OP = 'UPDATE'
+    AND NEW.position_id IS NOT DISTINCT FROM OLD.position_id
+    AND NEW.slot_id IS NOT DISTINCT FROM OLD.slot_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Signups for the same position wait for each other here
+  PERFORM 1 FROM volunteer_positions
+  WHERE id = NEW.position_id
+  FOR UPDATE;
+
+  IF current_setting('app.allow_overbooking', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.slot_id IS NOT NULL THEN
+    SELECT needed INTO capacity FROM position_slots WHERE id = NEW.slot_id;
+    SELECT count(*) INTO taken FROM volunteer_signups
+    WHERE slot_id = NEW.slot_id AND id <> NEW.id AND deleted_at IS NULL;
+
+    IF taken >= capacity THEN
+      RAISE EXCEPTION 'This shift slot just filled up' USING ERRCODE = 'PT409';
+    END IF;
+  ELSE
+    SELECT needed INTO capacity FROM volunteer_positions WHERE id = NEW.position_id;
+    SELECT count(*) INTO taken FROM volunteer_signups
+    WHERE position_id = NEW.position_id AND id <> NEW.id AND deleted_at IS NULL;
+
+    IF taken >= capacity THEN
+      RAISE EXCEPTION 'This position just filled up' USING ERRCODE = 'PT409';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS volunteer_signups_within_capacity ON volunteer_signups;
+
+CREATE TRIGGER volunteer_signups_within_capacity
+  BEFORE INSERT OR UPDATE OF position_id, slot_id ON volunteer_signups
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_signup_capacity();
+
+CREATE OR REPLACE FUNCTION assign_volunteer(
+  position_id uuid,
+  volunteer_name text,
+  phone_number text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  slot_id uuid DEFAULT NULL,
+  volunteer_id uuid DEFAULT NULL,
+  allow_overbooking boolean DEFAULT false
+)
+RETURNS volunteer_signups
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  signup volunteer_signups;
+BEGIN
+  PERFORM 1 FROM volunteer_positions
+  WHERE id = assign_volunteer.position_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Position % not found', assign_volunteer.position_id;
+  END IF;
+
+  PERFORM set_config('app.allow_overbooking', CASE WHEN allow_overbooking THEN 'on' ELSE 'off' END, true);
+
+  INSERT INTO volunteer_signups (
+    position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived
+  )
+  VALUES (
+    assign_volunteer.position_id,
+    assign_volunteer.slot_id,
+    assign_volunteer.volunteer_id,
+    assign_volunteer.volunteer_name,
+    assign_volunteer.phone_number,
+    assign_volunteer.starts_at,
+    assign_volunteer.ends_at,
+    false
+  )
+  RETURNING * INTO signup;
+
+  PERFORM set_config('app.allow_overbooking', 'off', true);
+
+  RETURN signup;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION duplicate_event(
+  source_event uuid,
+  new_name text,
+  new_starts_at timestamptz,
+  include_signups boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  source events;
+  delta interval;
+  new_event uuid;
+  new_position uuid;
+  source_position volunteer_positions;
+BEGIN
+  SELECT * INTO source FROM events WHERE id = source_event;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', source_event;
+  END IF;
+
+  delta := (new_starts_at AT TIME ZONE source.timezone) - (source.starts_at AT TIME ZONE source.timezone);
+
+  INSERT INTO events (name, starts_at, ends_at, location, timezone, user_id, organization_id)
+  VALUES (
+    new_name,
+    new_starts_at,
+    shift_local_time(source.ends_at, delta, source.timezone),
+    source.location,
+    source.timezone,
+    auth.uid(),
+    source.organization_id
+  )
+  RETURNING id INTO new_event;
+
+  FOR source_position IN
+    SELECT * FROM volunteer_positions WHERE event_id = source_event
+  LOOP
+    INSERT INTO volunteer_positions (event_id, name, needed, description, skill_level, latitude, longitude, user_id)
+    VALUES (
+      new_event,
+      source_position.name,
+      source_position.needed,
+      source_position.description,
+      source_position.skill_level,
+      source_position.latitude,
+      source_position.longitude,
+      auth.uid()
+    )
+    RETURNING id INTO new_position;
+
+    INSERT INTO position_slots (position_id, starts_at, ends_at, needed)
+    SELECT
+      new_position,
+      shift_local_time(starts_at, delta, source.timezone),
+      shift_local_time(ends_at, delta, source.timezone),
+      needed
+    FROM position_slots
+    WHERE position_id = source_position.id;
+
+    -- Slots are matched again from the shifted start times. The copy keeps
+    -- every assignment, even where the source was overbooked.
+    IF include_signups THEN
+      PERFORM set_config('app.allow_overbooking', 'on', true);
+      INSERT INTO volunteer_signups (position_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, arrived)
+      SELECT
+        new_position,
+        volunteer_id,
+        volunteer_name,
+        phone_number,
+        shift_local_time(starts_at, delta, source.timezone),
+        shift_local_time(ends_at, delta, source.timezone),
+        false
+      FROM volunteer_signups
+      WHERE position_id = source_position.id;
+      PERFORM set_config('app.allow_overbooking', 'off', true);
+    END IF;
+  END LOOP;
+
+  RETURN new_event;
+END;
+$$;
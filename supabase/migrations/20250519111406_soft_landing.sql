@@ -0,0 +1,162 @@
+/*
+  # Route every removal through the trash
+
+  1. Changes
+    - `restore_from_trash` puts a signup whose place has been filled since
+      back on the waitlist instead, and returns 'waitlisted' rather than
+      'restored'
+    - `revert_import_batch` moves the batch's signups to the trash instead of
+      deleting them, so a revert can be undone one signup at a time
+
+  2. Security
+    - Drop the DELETE policies on `events`, `volunteer_positions` and
+      `volunteer_signups`. Clients trash rows instead, and only
+      `purge_from_trash` and `purge_expired_trash` delete them.
+*/
+
+DROP POLICY IF EXISTS "Users can delete their own events" ON events;
+DROP POLICY IF EXISTS "Members can delete their organization's events" ON events;
+DROP POLICY IF EXISTS "Owners can delete their organization's events" ON events;
+
+DROP POLICY IF EXISTS "Users can delete their volunteer positions" ON volunteer_positions;
+DROP POLICY IF EXISTS "Members can delete volunteer positions for their events" ON volunteer_positions;
+DROP POLICY IF EXISTS "Coordinators can delete volunteer positions for their events" ON volunteer_positions;
+
+DROP POLICY IF EXISTS "Users can delete volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Members can delete volunteer signups for their events" ON volunteer_signups;
+DROP POLICY IF EXISTS "Coordinators can delete volunteer signups for their events" ON volunteer_signups;
+
+-- The return type changes, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS restore_from_trash(text, uuid);
+
+CREATE OR REPLACE FUNCTION restore_from_trash(item_type text, item_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stamp timestamptz;
+  parent_trashed boolean;
+  restored volunteer_signups;
+  capacity integer;
+  taken integer;
+BEGIN
+  IF NOT is_organization_member(trash_item_organization(item_type, item_id)) THEN
+    RAISE EXCEPTION 'No % found with id %', item_type, item_id;
+  END IF;
+  IF NOT has_organization_role(trash_item_organization(item_type, item_id), 'coordinator') THEN
+    RAISE EXCEPTION 'Your role does not allow restoring this %', item_type;
+  END IF;
+
+  IF item_type = 'event' THEN
+    SELECT deleted_at, false INTO stamp, parent_trashed
+    FROM events WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    SELECT volunteer_positions.deleted_at, events.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_positions
+    JOIN events ON events.id = volunteer_positions.event_id
+    WHERE volunteer_positions.id = item_id;
+  ELSE
+    SELECT volunteer_signups.deleted_at, volunteer_positions.deleted_at IS NOT NULL INTO stamp, parent_trashed
+    FROM volunteer_signups
+    JOIN volunteer_positions ON volunteer_positions.id = volunteer_signups.position_id
+    WHERE volunteer_signups.id = item_id;
+  END IF;
+
+  IF stamp IS NULL THEN
+    RAISE EXCEPTION 'This % is not in the trash', item_type;
+  END IF;
+  IF parent_trashed THEN
+    RAISE EXCEPTION 'Restore the % it belongs to first', CASE item_type WHEN 'position' THEN 'event' ELSE 'position' END;
+  END IF;
+
+  -- Bottom up, the reverse of move_to_trash
+  IF item_type = 'event' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE deleted_at = stamp
+      AND position_id IN (SELECT id FROM volunteer_positions WHERE event_id = item_id);
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE event_id = item_id AND deleted_at = stamp;
+
+    UPDATE events SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSIF item_type = 'position' THEN
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE position_id = item_id AND deleted_at = stamp;
+
+    UPDATE volunteer_positions SET deleted_at = NULL
+    WHERE id = item_id;
+  ELSE
+    -- Its place may have gone to someone from the waitlist since. Take the
+    -- lock assign_volunteer takes, and rather than overbook, put the
+    -- volunteer back on the waitlist where they stand by their signup date.
+    SELECT * INTO restored FROM volunteer_signups WHERE id = item_id;
+    PERFORM 1 FROM volunteer_positions WHERE id = restored.position_id FOR UPDATE;
+
+    IF restored.slot_id IS NOT NULL THEN
+      SELECT needed INTO capacity FROM position_slots WHERE id = restored.slot_id;
+      SELECT count(*) INTO taken FROM volunteer_signups
+      WHERE slot_id = restored.slot_id AND deleted_at IS NULL;
+    ELSE
+      SELECT needed INTO capacity FROM volunteer_positions WHERE id = restored.position_id;
+      SELECT count(*) INTO taken FROM volunteer_signups
+      WHERE position_id = restored.position_id AND deleted_at IS NULL;
+    END IF;
+
+    IF taken >= capacity THEN
+      INSERT INTO position_waitlist (
+        position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, created_at
+      )
+      VALUES (
+        restored.position_id, restored.slot_id, restored.volunteer_id, restored.volunteer_name,
+        restored.phone_number, restored.starts_at, restored.ends_at, restored.created_at
+      );
+
+      DELETE FROM volunteer_signups WHERE id = item_id;
+      RETURN 'waitlisted';
+    END IF;
+
+    UPDATE volunteer_signups SET deleted_at = NULL
+    WHERE id = item_id;
+  END IF;
+
+  RETURN 'restored';
+END;
+$$;
+
+-- Reverting an import trashes its signups, so a revert can be undone one
+-- signup at a time from the trash. Still runs with the caller's privileges;
+-- move_to_trash checks each signup.
+CREATE OR REPLACE FUNCTION revert_import_batch(batch_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  signup_id uuid;
+  removed integer := 0;
+BEGIN
+  PERFORM 1 FROM import_batches
+  WHERE id = batch_id AND status = 'committed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found or already reverted', batch_id;
+  END IF;
+
+  FOR signup_id IN
+    SELECT id FROM volunteer_signups
+    WHERE import_batch_id = batch_id
+  LOOP
+    PERFORM move_to_trash('signup', signup_id);
+    removed := removed + 1;
+  END LOOP;
+
+  UPDATE import_batches
+  SET status = 'reverted', reverted_at = now(), reverted_by = auth.uid()
+  WHERE id = batch_id;
+
+  RETURN removed;
+END;
+$$;
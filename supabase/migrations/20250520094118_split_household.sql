@@ -0,0 +1,52 @@
+/*
+  # Tell apart volunteers who share a phone number
+
+  1. Changes
+    - Profiles were backfilled and matched by phone number alone, so family
+      members sharing a phone ended up on one profile. Signups under a
+      different name than their profile's move to a profile of their own,
+      one per profile and name, carrying that name and the signup's phone.
+    - The copies on signups only follow a profile edit while they are still
+      under the profile's name, so a signup linked to the wrong person never
+      has its name overwritten
+*/
+
+ALTER TABLE volunteers ADD COLUMN split_key text;
+
+INSERT INTO volunteers (user_id, organization_id, name, phone_number, created_at, split_key)
+SELECT DISTINCT ON (v.id, lower(trim(s.volunteer_name)))
+  v.user_id, v.organization_id, trim(s.volunteer_name), s.phone_number, s.created_at,
+  v.id::text || '|' || lower(trim(s.volunteer_name))
+FROM volunteer_signups s
+JOIN volunteers v ON v.id = s.volunteer_id
+WHERE lower(trim(s.volunteer_name)) <> lower(trim(v.name))
+ORDER BY v.id, lower(trim(s.volunteer_name)), s.created_at DESC;
+
+UPDATE volunteer_signups s
+SET volunteer_id = v.id
+FROM volunteers v
+WHERE v.split_key = s.volunteer_id::text || '|' || lower(trim(s.volunteer_name));
+
+UPDATE position_waitlist w
+SET volunteer_id = v.id
+FROM volunteers v
+WHERE v.split_key = w.volunteer_id::text || '|' || lower(trim(w.volunteer_name));
+
+ALTER TABLE volunteers DROP COLUMN split_key;
+
+CREATE OR REPLACE FUNCTION sync_volunteer_signups()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.name IS DISTINCT FROM OLD.name OR NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    UPDATE volunteer_signups
+    SET volunteer_name = NEW.name,
+        phone_number = NEW.phone_number
+    WHERE volunteer_id = NEW.id
+      AND lower(trim(volunteer_name)) = lower(trim(OLD.name));
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,26 @@
+/*
+  # Keep profile edits off finished events
+
+  1. Changes
+    - Editing a volunteer's profile no longer rewrites the name and phone
+      number on signups of closed and archived events. Those keep the details
+      the shift was worked under, and changing them would be rejected.
+*/
+
+CREATE OR REPLACE FUNCTION sync_volunteer_signups()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.name IS DISTINCT FROM OLD.name OR NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    UPDATE volunteer_signups
+    SET volunteer_name = NEW.name,
+        phone_number = NEW.phone_number
+    WHERE volunteer_id = NEW.id
+      AND lower(trim(volunteer_name)) = lower(trim(OLD.name))
+      AND position_event_status(position_id) NOT IN ('closed', 'archived');
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,11 @@
+/*
+  # Index the audit log for paging
+
+  1. Changes
+    - The event history pages back by entry id, so `audit_log_event_id_idx`
+      now covers `(event_id, id)` instead of `(event_id, occurred_at)`
+*/
+
+DROP INDEX IF EXISTS audit_log_event_id_idx;
+
+CREATE INDEX IF NOT EXISTS audit_log_event_id_idx ON audit_log(event_id, id);
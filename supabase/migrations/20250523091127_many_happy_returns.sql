@@ -0,0 +1,11 @@
+/*
+  # Let events share a name
+
+  1. Changes
+    - Drop the unique constraint on `events.name`. Every occurrence of a
+      series is named after the series, and duplicated events and events
+      made from a template often keep their source's name. Events are told
+      apart by their dates, and each organization only sees its own.
+*/
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_name_key;
@@ -0,0 +1,56 @@
+/*
+  # Number waitlist entries in the database
+
+  1. New Functions
+    - `join_waitlist` adds an entry at the back of a position's waitlist.
+      It takes the position lock that assignments and promotions take, so two
+      entries added at once get different priorities and are promoted in the
+      order they joined.
+
+  2. Security
+    - Runs with the caller's privileges, so the policies on
+      `position_waitlist` still apply
+*/
+
+CREATE OR REPLACE FUNCTION join_waitlist(
+  position_id uuid,
+  volunteer_name text,
+  phone_number text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  slot_id uuid DEFAULT NULL,
+  volunteer_id uuid DEFAULT NULL
+)
+RETURNS position_waitlist
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  entry position_waitlist;
+BEGIN
+  PERFORM 1 FROM volunteer_positions
+  WHERE id = join_waitlist.position_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Position % not found', join_waitlist.position_id;
+  END IF;
+
+  INSERT INTO position_waitlist (
+    position_id, slot_id, volunteer_id, volunteer_name, phone_number, starts_at, ends_at, priority
+  )
+  SELECT
+    join_waitlist.position_id,
+    join_waitlist.slot_id,
+    join_waitlist.volunteer_id,
+    join_waitlist.volunteer_name,
+    join_waitlist.phone_number,
+    join_waitlist.starts_at,
+    join_waitlist.ends_at,
+    COALESCE(max(position_waitlist.priority), 0) + 1
+  FROM position_waitlist
+  WHERE position_waitlist.position_id = join_waitlist.position_id
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
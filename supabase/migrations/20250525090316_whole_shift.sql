@@ -0,0 +1,41 @@
+/*
+  # Save a position's slots in one call
+
+  1. New Functions
+    - `save_position_slots(target_position, slots)` replaces the position's
+      slots with the given list in one transaction: entries with an `id` are
+      updated, the rest inserted, and slots missing from the list deleted. A
+      failure part way leaves the slots as they were, so the position's
+      `needed` keeps adding up.
+
+  2. Security
+    - Runs with the caller's privileges, so the policies on `position_slots`
+      still apply
+*/
+
+CREATE OR REPLACE FUNCTION save_position_slots(target_position uuid, slots jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM position_slots
+  WHERE position_id = target_position
+    AND id NOT IN (
+      SELECT draft.id FROM jsonb_populate_recordset(NULL::position_slots, slots) AS draft
+      WHERE draft.id IS NOT NULL
+    );
+
+  UPDATE position_slots
+  SET starts_at = draft.starts_at,
+      ends_at = draft.ends_at,
+      needed = draft.needed
+  FROM jsonb_populate_recordset(NULL::position_slots, slots) AS draft
+  WHERE position_slots.id = draft.id
+    AND position_slots.position_id = target_position;
+
+  INSERT INTO position_slots (position_id, starts_at, ends_at, needed)
+  SELECT target_position, draft.starts_at, draft.ends_at, draft.needed
+  FROM jsonb_populate_recordset(NULL::position_slots, slots) AS draft
+  WHERE draft.id IS NULL;
+END;
+$$;